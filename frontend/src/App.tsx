@@ -14,6 +14,7 @@ import AppStateProvider, { useAppState } from './components/VideoCall/VideoFront
 import theme from './components/VideoCall/VideoFrontend/theme';
 import useConnectionOptions from './components/VideoCall/VideoFrontend/utils/useConnectionOptions/useConnectionOptions';
 import VideoOverlay from './components/VideoCall/VideoOverlay/VideoOverlay';
+import AnnouncementBanner from './components/Town/AnnouncementBanner';
 import TownMap from './components/Town/TownMap';
 import TownControllerContext from './contexts/TownControllerContext';
 import LoginControllerContext from './contexts/LoginControllerContext';
@@ -33,6 +34,7 @@ function App() {
     page = (
       <TownControllerContext.Provider value={townController}>
         <ChatProvider>
+          <AnnouncementBanner />
           <TownMap />
           <VideoOverlay preferredMode='fullwidth' />
         </ChatProvider>
@@ -190,9 +190,18 @@ export async function mockTownControllerConnection(
       ],
       friendlyName: nanoid(),
       isPubliclyListed: true,
+      mapID: 'indoors',
       providerVideoToken: nanoid(),
       sessionToken: nanoid(),
+      accountToken: nanoid(),
       userID: ourUserID,
+      friendIDs: [],
+      blockedIDs: [],
+      pendingFriendRequests: [],
+      conversationAreaInvites: [],
+      announcements: [],
+      chatHistory: [],
+      miniMessageInbox: { messages: [], lastReadAt: {}, userNames: {} },
     };
     responseToSendController.interactables.push({
       id: nanoid(),
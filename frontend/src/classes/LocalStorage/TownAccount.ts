@@ -0,0 +1,19 @@
+/**
+ * Hint: You probably shouldn't be using this directly. The TownController reads and
+ * updates the account token when it connects to a town.
+ */
+export default class TownAccount {
+  private static readonly _accountTokenKey = 'townAccountToken';
+
+  static get accountToken(): string | null {
+    return localStorage.getItem(TownAccount._accountTokenKey);
+  }
+
+  static set accountToken(value: string | null) {
+    if (value) {
+      localStorage.setItem(TownAccount._accountTokenKey, value);
+    } else {
+      localStorage.removeItem(TownAccount._accountTokenKey);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { SocketErrorCode } from '../types/CoveyTownSocket';
+
+/**
+ * The reason that one of our player's actions failed: the townService refused the event that we sent
+ * for it (@see SocketResult), or did not respond in time ('timeout').
+ */
+export default class SocketEventError extends Error {
+  public readonly errorCode: SocketErrorCode | 'timeout';
+
+  public constructor(code: SocketErrorCode | 'timeout', message: string) {
+    super(message);
+    this.errorCode = code;
+  }
+}
@@ -1,28 +1,55 @@
-import { nanoid } from 'nanoid';
-import { ChatMessage } from '../types/CoveyTownSocket';
+import { ChatChannel, ChatMessage } from '../types/CoveyTownSocket';
 import TownController from './TownController';
 
+/**
+ * The chat channel that everyone in the town can see
+ */
+export const townChannel: ChatChannel = { type: 'town' };
+
+/**
+ * Returns a string that identifies a chat channel: two channels have the same key exactly when
+ * they are the same channel
+ *
+ * @param channel the channel to identify
+ */
+export function chatChannelKey(channel: ChatChannel): string {
+  switch (channel.type) {
+    case 'conversationArea':
+      return `conversationArea:${channel.conversationAreaID}`;
+    case 'direct':
+      return `direct:${[...channel.playerIDs].sort().join(':')}`;
+    default:
+      return 'town';
+  }
+}
+
 /**
  * A basic representation of a text conversation, bridged over a socket.io client
  * The interface to this class was designed to closely resemble the Twilio Conversations API,
  * to make it easier to use as a drop-in replacement.
+ *
+ * A conversation carries every chat channel that our player can see: the whole town, the
+ * conversation area that our player is in, and direct channels with each of their friends.
  */
 export default class TextConversation {
   private _coveyTownController: TownController;
 
-  private _callbacks: MessageCallback[] = [];
+  private _callbacks: { cb: MessageCallback; channelKey?: string }[] = [];
 
-  private _authorName: string;
+  /** Every message in this conversation so far, oldest first, starting with the town's chat history */
+  private _messages: ChatMessage[];
 
   /**
    * Create a new Text Conversation
    *
-   * @param socket socket to use to send/receive messages
-   * @param authorName name of message author to use as sender
+   * @param coveyTownController the town controller to send and receive messages through
    */
   public constructor(coveyTownController: TownController) {
     this._coveyTownController = coveyTownController;
-    this._authorName = coveyTownController.userName;
+    this._messages = coveyTownController.chatHistory.map(message => ({
+      ...message,
+      dateCreated: new Date(message.dateCreated),
+    }));
     this._coveyTownController.addListener('chatMessage', (message: ChatMessage) => {
       message.dateCreated = new Date(message.dateCreated);
       this._onChatMessage(message);
@@ -30,30 +57,37 @@ export default class TextConversation {
   }
 
   private _onChatMessage(message: ChatMessage) {
-    this._callbacks.forEach(cb => cb(message));
+    this._messages.push(message);
+    const messageChannelKey = chatChannelKey(message.channel);
+    this._callbacks
+      .filter(({ channelKey }) => channelKey === undefined || channelKey === messageChannelKey)
+      .forEach(({ cb }) => cb(message));
   }
 
   /**
-   * Send a text message to this channel
+   * Send a text message to a channel. The townService fills in the message's author, ID and
+   * timestamp, and then sends it back to us along with everyone else in the channel.
    * @param message
+   * @param channel the channel to send the message to, defaults to the whole town
    */
-  public sendMessage(message: string) {
-    const msg: ChatMessage = {
-      sid: nanoid(),
-      body: message,
-      author: this._authorName,
-      dateCreated: new Date(),
-    };
-    this._coveyTownController.emitChatMessage(msg);
+  public sendMessage(message: string, channel: ChatChannel = townChannel) {
+    this._coveyTownController.emitChatMessage({ body: message, channel });
   }
 
   /**
-   * Register an event listener for processing new chat messages
-   * @param event
+   * Register an event listener for processing new chat messages. The listener is first called with
+   * each message that is already in this conversation (including the town's chat history from when
+   * we joined), so that it receives every message, in order, before any new ones.
    * @param cb
+   * @param channel the channel whose messages the listener receives; if undefined, the listener
+   *  receives the messages of every channel
    */
-  public onMessageAdded(cb: MessageCallback) {
-    this._callbacks.push(cb);
+  public onMessageAdded(cb: MessageCallback, channel?: ChatChannel) {
+    const channelKey = channel && chatChannelKey(channel);
+    this._messages
+      .filter(message => channelKey === undefined || chatChannelKey(message.channel) === channelKey)
+      .forEach(message => cb(message));
+    this._callbacks.push({ cb, channelKey });
   }
 
   /**
@@ -61,7 +95,7 @@ export default class TextConversation {
    * @param cb
    */
   public offMessageAdded(cb: MessageCallback) {
-    this._callbacks = this._callbacks.filter(_cb => _cb !== cb);
+    this._callbacks = this._callbacks.filter(callback => callback.cb !== cb);
   }
 
   /**
@@ -10,21 +10,38 @@ import {
   ReceivedEventParameter,
 } from '../TestUtils';
 import {
+  Announcement,
   ChatMessage,
+  ChatMessageDraft,
   ConversationArea as ConversationAreaModel,
   ConversationAreaGroupInvite,
   CoveyTownSocket,
   MiniMessage,
+  MiniMessageDraft,
+  ModerationNotice,
+  MuteNotice,
   Player as PlayerModel,
   PlayerLocation,
+  PayloadRejection,
   PlayerToPlayerUpdate,
   ServerToClientEvents,
+  RateLimitNotice,
+  SocialEventRejection,
+  SocketAck,
+  SocketResult,
   TeleportInviteSingular,
   TownJoinResponse,
 } from '../types/CoveyTownSocket';
 import { isConversationArea, isViewingArea } from '../types/TypeUtils';
 import PlayerController from './PlayerController';
-import TownController, { TownEvents } from './TownController';
+import SocketEventError from './SocketEventError';
+import TownController, {
+  MOVEMENT_UPDATE_INTERVAL_MS,
+  SOCKET_ACK_TIMEOUT_MS,
+  TownEvents,
+  TYPING_INDICATOR_TIMEOUT_MS,
+  TYPING_NOTICE_INTERVAL_MS,
+} from './TownController';
 import ViewingAreaController from './ViewingAreaController';
 
 /**
@@ -91,6 +108,17 @@ describe('TownController', () => {
     return mockListener;
   };
 
+  /**
+   * Calls the acknowledgement callback of the last event that the controller emitted to the socket, as
+   * the townService would once it has processed the event
+   *
+   * @param result the outcome of the event, defaults to success
+   */
+  const acknowledgeLastEmit = (result: SocketResult = { ok: true }) => {
+    const lastCall = mockSocket.emit.mock.calls[mockSocket.emit.mock.calls.length - 1] as unknown[];
+    (lastCall[lastCall.length - 1] as SocketAck)(result);
+  };
+
   beforeEach(() => {
     mockClear(mockSocket);
     userName = nanoid();
@@ -433,14 +461,61 @@ describe('TownController', () => {
     it('Throws an error', async () => {
       mockSocket.on.mockImplementation((eventName, eventListener) => {
         if (eventName === 'disconnect') {
-          const listener = eventListener as () => void;
-          listener();
+          const listener = eventListener as (reason: string) => void;
+          listener('io server disconnect');
         }
         return mockSocket;
       });
       await expect(testController.connect()).rejects.toThrowError();
       mockSocket.on.mockReset();
     });
+    it('Throws an error with the reason that the townService refused us', async () => {
+      const reason = nanoid();
+      mockSocket.on.mockImplementation((eventName, eventListener) => {
+        if (eventName === 'joinRejected') {
+          const listener = eventListener as (rejectionReason: string) => void;
+          listener(reason);
+        }
+        return mockSocket;
+      });
+      await expect(testController.connect()).rejects.toThrowError(reason);
+      mockSocket.on.mockReset();
+    });
+  });
+  describe('With friend requests that were pending when our player joined', () => {
+    it('Initializes the list of friend requests from the join response', async () => {
+      const ourUserID = nanoid();
+      const otherPlayerID = nanoid();
+      await mockTownControllerConnection(testController, mockSocket, {
+        interactables: [],
+        currentPlayers: [
+          {
+            id: ourUserID,
+            userName: testController.userName,
+            location: { moving: false, x: 0, y: 0, rotation: 'back' },
+          },
+        ],
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        mapID: 'indoors',
+        providerVideoToken: nanoid(),
+        sessionToken: nanoid(),
+        accountToken: nanoid(),
+        userID: ourUserID,
+        friendIDs: [],
+        blockedIDs: [],
+        pendingFriendRequests: [
+          { sender: otherPlayerID, recipient: ourUserID, status: 'pending', sentAt: Date.now() },
+        ],
+        conversationAreaInvites: [],
+        announcements: [],
+        chatHistory: [],
+        miniMessageInbox: { messages: [], lastReadAt: {}, userNames: {} },
+      });
+      expect(testController.playerFriendRequests).toEqual([
+        { actor: otherPlayerID, affected: ourUserID },
+      ]);
+    });
   });
   describe('With a successful connection', () => {
     let townJoinResponse: TownJoinResponse;
@@ -454,6 +529,10 @@ describe('TownController', () => {
       expect(testController.townIsPubliclyListed).toEqual(townJoinResponse.isPubliclyListed);
       expect(testController.sessionToken).toEqual(townJoinResponse.sessionToken);
       expect(testController.userID).toEqual(townJoinResponse.userID);
+      expect(testController.mapID).toEqual(townJoinResponse.mapID);
+      expect(testController.mapURL).toEqual(`test/towns/maps/${townJoinResponse.mapID}`);
+      expect(testController.chatHistory).toEqual(townJoinResponse.chatHistory);
+      expect(testController.announcements).toEqual(townJoinResponse.announcements);
     });
 
     it('Forwards update town calls to local CoveyTownEvents listeners', () => {
@@ -471,20 +550,184 @@ describe('TownController', () => {
     it('Forwards chat messages to local CoveyTownEvents listeners', () => {
       const message: ChatMessage = {
         author: nanoid(),
+        authorID: nanoid(),
         body: nanoid(),
         dateCreated: new Date(),
         sid: nanoid(),
+        channel: { type: 'town' },
       };
       emitEventAndExpectListenerFiring('chatMessage', message, 'chatMessage', message);
     });
-    it('Emits a sendMiniMessage event when clickedSendMiniMessage is called', () => {
-      const testMessage: MiniMessage = {
+    it('Forwards social event rejections to local CoveyTownEvents listeners', () => {
+      const rejection: SocialEventRejection = {
+        event: 'acceptFriendRequest',
+        message: nanoid(),
+      };
+      emitEventAndExpectListenerFiring(
+        'socialEventRejected',
+        rejection,
+        'socialEventRejected',
+        rejection,
+      );
+    });
+    it('Forwards rate limit notices to local CoveyTownEvents listeners', () => {
+      const notice: RateLimitNotice = { event: 'chatMessage', retryAfterMs: 1000 };
+      emitEventAndExpectListenerFiring('rateLimited', notice, 'rateLimited', notice);
+    });
+    it('Forwards payload rejections to local CoveyTownEvents listeners', () => {
+      const rejection: PayloadRejection = {
+        event: 'playerMovement',
+        path: 'x',
+        message: 'Expected a finite number',
+      };
+      emitEventAndExpectListenerFiring('payloadRejected', rejection, 'payloadRejected', rejection);
+    });
+    it('Moves our player back to where the townService has them when it rejects a movement', () => {
+      const location: PlayerLocation = { ...testController.ourPlayer.location, x: 10, y: 20 };
+      const updateSpritePosition = jest.spyOn(testController.ourPlayer, 'updateSpritePosition');
+      getEventListener(mockSocket, 'movementRejected')(location);
+      expect(updateSpritePosition).toBeCalledWith(location);
+    });
+    it('Adds announcements to the list of announcements, and emits announcementsChanged', () => {
+      const announcement: Announcement = {
+        id: nanoid(),
+        message: nanoid(),
+        startsAt: Date.now(),
+      };
+      const initialAnnouncements = testController.announcements;
+      emitEventAndExpectListenerFiring('announcement', announcement, 'announcementsChanged', [
+        ...initialAnnouncements,
+        announcement,
+      ]);
+      expect(testController.announcements).toEqual([...initialAnnouncements, announcement]);
+    });
+    it('Forwards mutes to local CoveyTownEvents listeners', () => {
+      const notice: MuteNotice = { reason: nanoid(), mutedUntil: Date.now() + 60 * 1000 };
+      emitEventAndExpectListenerFiring('playerMuted', notice, 'playerMuted', notice);
+    });
+    it.each(['playerKicked', 'playerBanned'] as const)(
+      'Forwards %s events to local CoveyTownEvents listeners, and then leaves the town',
+      event => {
+        const notice: ModerationNotice = { reason: nanoid() };
+        const disconnectListener = jest.fn();
+        testController.addListener('disconnect', disconnectListener);
+        emitEventAndExpectListenerFiring(event, notice, event, notice);
+        expect(disconnectListener).toBeCalled();
+        expect(mockLoginController.setTownController).toBeCalledWith(null);
+      },
+    );
+    describe('When the townService resumes our session after a dropped connection', () => {
+      it('Keeps the existing player controllers and does not reconnect the town', () => {
+        const { ourPlayer } = testController;
+        const connectListener = jest.fn();
+        testController.addListener('connect', connectListener);
+        const newPlayer: PlayerModel = {
+          id: nanoid(),
+          userName: nanoid(),
+          location: { moving: false, x: 0, y: 0, rotation: 'back' },
+        };
+        getEventListener(
+          mockSocket,
+          'initialize',
+        )({
+          ...townJoinResponse,
+          currentPlayers: townJoinResponse.currentPlayers.concat([newPlayer]),
+        });
+        expect(testController.ourPlayer).toBe(ourPlayer);
+        expect(testController.players.map(eachPlayer => eachPlayer.id)).toContain(newPlayer.id);
+        expect(connectListener).not.toHaveBeenCalled();
+      });
+      it('Brings the friend requests and invites up to date, ignoring replayed requests', () => {
+        const otherPlayerID = townJoinResponse.currentPlayers[1].id;
+        const invite: TeleportInviteSingular = {
+          requester: otherPlayerID,
+          requested: testController.ourPlayer.id,
+          requesterLocation: { moving: false, x: 1, y: 1, rotation: 'front' },
+        };
+        getEventListener(
+          mockSocket,
+          'initialize',
+        )({
+          ...townJoinResponse,
+          pendingFriendRequests: [
+            {
+              sender: otherPlayerID,
+              recipient: testController.ourPlayer.id,
+              status: 'pending',
+              sentAt: Date.now(),
+            },
+          ],
+          conversationAreaInvites: [invite],
+        });
+        getEventListener(
+          mockSocket,
+          'friendRequestSent',
+        )({
+          actor: otherPlayerID,
+          affected: testController.ourPlayer.id,
+        });
+        expect(testController.playerFriendRequests).toEqual([
+          { actor: otherPlayerID, affected: testController.ourPlayer.id },
+        ]);
+        expect(testController.conversationAreaInvites).toEqual([invite]);
+      });
+      it('Delivers the chat messages that were sent while our connection was down, once each', () => {
+        const chatMessage = (body: string): ChatMessage => ({
+          author: townJoinResponse.currentPlayers[1].userName,
+          authorID: townJoinResponse.currentPlayers[1].id,
+          body,
+          dateCreated: new Date(),
+          sid: nanoid(),
+          channel: { type: 'town' },
+        });
+        const beforeDisconnecting = chatMessage('Before we lost our connection');
+        const whileDisconnected = chatMessage('While we were disconnected');
+        getEventListener(mockSocket, 'chatMessage')(beforeDisconnecting);
+        const chatMessageListener = jest.fn();
+        testController.addListener('chatMessage', chatMessageListener);
+
+        getEventListener(
+          mockSocket,
+          'initialize',
+        )({
+          ...townJoinResponse,
+          chatHistory: [beforeDisconnecting, whileDisconnected],
+        });
+        getEventListener(mockSocket, 'chatMessage')(whileDisconnected);
+
+        expect(chatMessageListener.mock.calls).toEqual([[whileDisconnected]]);
+      });
+      it('Adds the announcements that started while our connection was down', () => {
+        const announcement = (message: string): Announcement => ({
+          id: nanoid(),
+          message,
+          startsAt: Date.now(),
+        });
+        const beforeDisconnecting = announcement('Before we lost our connection');
+        const whileDisconnected = announcement('While we were disconnected');
+        getEventListener(mockSocket, 'announcement')(beforeDisconnecting);
+
+        getEventListener(
+          mockSocket,
+          'initialize',
+        )({
+          ...townJoinResponse,
+          announcements: [beforeDisconnecting, whileDisconnected],
+        });
+
+        expect(testController.announcements).toEqual([beforeDisconnecting, whileDisconnected]);
+      });
+    });
+    it('Emits a sendMiniMessage event when clickedSendMiniMessage is called', async () => {
+      const testMessage: MiniMessageDraft = {
         sender: '001',
         recipients: ['002'],
         body: nanoid(),
       };
-      testController.clickedSendMiniMessage(testMessage);
-      expect(mockSocket.emit).toBeCalledWith('sendMiniMessage', testMessage);
+      const sent = testController.clickedSendMiniMessage(testMessage);
+      expect(mockSocket.emit).toBeCalledWith('sendMiniMessage', testMessage, expect.any(Function));
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
     it("Emits the local player's movement updates to the socket and to locally subscribed CoveyTownEvents listeners", () => {
       const newLocation: PlayerLocation = { ...testController.ourPlayer.location, x: 10, y: 10 };
@@ -505,17 +748,66 @@ describe('TownController', () => {
       //Uses the correct (new) location when emitting that update locally
       expect(expectedPlayerUpdate.location).toEqual(newLocation);
     });
+    describe('Sending movements', () => {
+      const locationAt = (x: number): PlayerLocation => ({
+        ...testController.ourPlayer.location,
+        x,
+      });
+      const sentMovements = () =>
+        mockSocket.emit.mock.calls.filter(([event]) => event === 'playerMovement');
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.advanceTimersByTime(MOVEMENT_UPDATE_INTERVAL_MS);
+        mockSocket.emit.mockClear();
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Sends movements at most once per interval, sending only the latest one', () => {
+        testController.emitMovement(locationAt(1));
+        testController.emitMovement(locationAt(2));
+        testController.emitMovement(locationAt(3));
+        expect(sentMovements()).toEqual([['playerMovement', locationAt(1)]]);
+        // Our player moves right away locally
+        expect(testController.ourPlayer.location).toEqual(locationAt(3));
+
+        jest.advanceTimersByTime(MOVEMENT_UPDATE_INTERVAL_MS);
+        expect(sentMovements()).toEqual([
+          ['playerMovement', locationAt(1)],
+          ['playerMovement', locationAt(3)],
+        ]);
+        jest.advanceTimersByTime(MOVEMENT_UPDATE_INTERVAL_MS * 10);
+        expect(sentMovements().length).toBe(2);
+      });
+      it('Sends at most one movement per interval while our player moves on every frame', () => {
+        // One movement per frame at 144 frames per second, for ten seconds
+        for (let frame = 1; frame <= 1440; frame += 1) {
+          jest.advanceTimersByTime(1000 / 144);
+          testController.emitMovement(locationAt(frame));
+        }
+        jest.advanceTimersByTime(MOVEMENT_UPDATE_INTERVAL_MS);
+        expect(sentMovements().length).toBeLessThanOrEqual(
+          (10 * 1000) / MOVEMENT_UPDATE_INTERVAL_MS + 1,
+        );
+        expect(sentMovements()[sentMovements().length - 1]).toEqual([
+          'playerMovement',
+          locationAt(1440),
+        ]);
+      });
+    });
     it('Emits locally written chat messages to the socket, and dispatches no other events', () => {
-      const testMessage: ChatMessage = {
-        author: nanoid(),
+      const testMessage: ChatMessageDraft = {
         body: nanoid(),
-        dateCreated: new Date(),
-        sid: nanoid(),
       };
       testController.emitChatMessage(testMessage);
 
       expect(mockSocket.emit).toBeCalledWith('chatMessage', testMessage);
     });
+    it('Emits the size of the viewport to the socket', () => {
+      testController.emitViewportChange({ width: 800, height: 600 });
+
+      expect(mockSocket.emit).toBeCalledWith('viewportChanged', { width: 800, height: 600 });
+    });
     it('Emits conversationAreasChanged when a conversation area is created', () => {
       const newConvArea = townJoinResponse.interactables.find(
         eachInteractable => isConversationArea(eachInteractable) && !eachInteractable.topic,
@@ -534,67 +826,98 @@ describe('TownController', () => {
         fail('Did not find an existing, empty conversation area in the town join response');
       }
     });
-    it('Emits acceptFriendRequest when clickedAcceptFriendRequest is called', () => {
+    it('Emits acceptFriendRequest when clickedAcceptFriendRequest is called', async () => {
       const testRequest: PlayerToPlayerUpdate = {
         actor: playerTestData.id,
         affected: playerTestData2.id,
       };
-      testController.clickedAcceptFriendRequest(testRequest);
-      expect(mockSocket.emit).toBeCalledWith('acceptFriendRequest', testRequest);
+      const sent = testController.clickedAcceptFriendRequest(testRequest);
+      expect(mockSocket.emit).toBeCalledWith(
+        'acceptFriendRequest',
+        testRequest,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Emits declineFriendRequest when clickedDeclineFriendRequest is called', () => {
+    it('Emits declineFriendRequest when clickedDeclineFriendRequest is called', async () => {
       const testRequest: PlayerToPlayerUpdate = {
         actor: playerTestData.id,
         affected: playerTestData2.id,
       };
-      testController.clickedDeclineFriendRequest(testRequest);
-      expect(mockSocket.emit).toBeCalledWith('declineFriendRequest', testRequest);
+      const sent = testController.clickedDeclineFriendRequest(testRequest);
+      expect(mockSocket.emit).toBeCalledWith(
+        'declineFriendRequest',
+        testRequest,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Emits sendFriendRequest event when clickedSendFriendRequest is called', () => {
+    it('Emits sendFriendRequest event when clickedSendFriendRequest is called', async () => {
       const testRequest: PlayerToPlayerUpdate = {
         actor: playerTestData.id,
         affected: playerTestData2.id,
       };
-      testController.clickedSendRequest(testRequest);
-      expect(mockSocket.emit).toBeCalledWith('sendFriendRequest', testRequest);
+      const sent = testController.clickedSendRequest(testRequest);
+      expect(mockSocket.emit).toBeCalledWith(
+        'sendFriendRequest',
+        testRequest,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Emits cancelFriendRequest event when clickedCancelFriendRequest is called', () => {
+    it('Emits cancelFriendRequest event when clickedCancelFriendRequest is called', async () => {
       const testRequest: PlayerToPlayerUpdate = {
         actor: playerTestData.id,
         affected: playerTestData2.id,
       };
-      testController.clickedCancelRequest(testRequest);
-      expect(mockSocket.emit).toBeCalledWith('cancelFriendRequest', testRequest);
-    });
-    it('Emits a playerMovement when clickedTeleportToFriend is called', () => {
-      const testPlayerLocation: PlayerLocation = {
-        moving: false,
-        rotation: 'back',
-        x: 0,
-        y: 1,
-        interactableID: nanoid(),
-      };
-      testController.clickedTeleportToFriend(testPlayerLocation);
-      expect(mockSocket.emit).toBeCalledWith('playerMovement', testPlayerLocation);
+      const sent = testController.clickedCancelRequest(testRequest);
+      expect(mockSocket.emit).toBeCalledWith(
+        'cancelFriendRequest',
+        testRequest,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
+    });
+    it('Emits teleportToFriend when clickedTeleportToFriend is called', async () => {
+      const sent = testController.clickedTeleportToFriend(playerTestData2.id);
+      expect(mockSocket.emit).toBeCalledWith(
+        'teleportToFriend',
+        { actor: testController.ourPlayer.id, affected: playerTestData2.id },
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Emits removeFriend when clickedRemoveFriend is called', () => {
+    it('Emits removeFriend when clickedRemoveFriend is called', async () => {
       const testRemoveFriend: PlayerToPlayerUpdate = {
         actor: playerTestData.id,
         affected: playerTestData2.id,
       };
-      testController.clickedRemoveFriend(testRemoveFriend);
-      expect(mockSocket.emit).toBeCalledWith('removeFriend', testRemoveFriend);
+      const sent = testController.clickedRemoveFriend(testRemoveFriend);
+      expect(mockSocket.emit).toBeCalledWith(
+        'removeFriend',
+        testRemoveFriend,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Does not emit inviteAllToConvArea when clickedInviteAllToConvArea is called and the requesting player is not in a conversation area', () => {
+    it('Does not emit inviteAllToConvArea when clickedInviteAllToConvArea is called and the requesting player is not in a conversation area', async () => {
       const testInvite: ConversationAreaGroupInvite = {
         requester: playerTestData.id,
         requested: [playerTestData2.id],
         requesterLocation: player1Location,
       };
-      testController.clickedInviteAllToConvArea(testInvite);
+      await expect(testController.clickedInviteAllToConvArea(testInvite)).rejects.toBeInstanceOf(
+        SocketEventError,
+      );
       expect(mockSocket.emit).not.toBeCalled();
     });
-    it('Emits inviteAllToConvArea when clickedInviteAllToConvArea is called and the requesting player is in a conversation area', () => {
+    it('Emits inviteAllToConvArea when clickedInviteAllToConvArea is called and the requesting player is in a conversation area', async () => {
       testController.conversationAreas[0].occupants.push(
         PlayerController.fromPlayerModel({
           id: playerTestData.id,
@@ -607,26 +930,64 @@ describe('TownController', () => {
         requested: [playerTestData2.id],
         requesterLocation: player1Location,
       };
-      testController.clickedInviteAllToConvArea(testInvite);
-      expect(mockSocket.emit).toBeCalledWith('inviteAllToConvArea', testInvite);
+      const sent = testController.clickedInviteAllToConvArea(testInvite);
+      expect(mockSocket.emit).toBeCalledWith(
+        'inviteAllToConvArea',
+        testInvite,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Emits acceptConvAreaInvite when clickedAcceptConvAreaInvite is called', () => {
+    it('Emits acceptConvAreaInvite when clickedAcceptConvAreaInvite is called', async () => {
       const testInvite: TeleportInviteSingular = {
         requester: playerTestData.id,
         requested: playerTestData2.id,
         requesterLocation: { x: 0, y: 0, rotation: 'back', moving: false },
       };
-      testController.clickedAcceptConvAreaInvite(testInvite);
-      expect(mockSocket.emit).toBeCalledWith('acceptConvAreaInvite', testInvite);
+      const sent = testController.clickedAcceptConvAreaInvite(testInvite);
+      expect(mockSocket.emit).toBeCalledWith(
+        'acceptConvAreaInvite',
+        testInvite,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
     });
-    it('Emits declineConvAreaInvite when clickedDeclineConvAreaInvite is called', () => {
+    it('Emits declineConvAreaInvite when clickedDeclineConvAreaInvite is called', async () => {
       const testInvite: TeleportInviteSingular = {
         requester: playerTestData.id,
         requested: playerTestData2.id,
         requesterLocation: { x: 0, y: 0, rotation: 'back', moving: false },
       };
-      testController.clickedDeclineConvAreaInvite(testInvite);
-      expect(mockSocket.emit).toBeCalledWith('declineConvAreaInvite', testInvite);
+      const sent = testController.clickedDeclineConvAreaInvite(testInvite);
+      expect(mockSocket.emit).toBeCalledWith(
+        'declineConvAreaInvite',
+        testInvite,
+        expect.any(Function),
+      );
+      acknowledgeLastEmit();
+      await expect(sent).resolves.toBeUndefined();
+    });
+    describe('Acknowledgements', () => {
+      const testRequest: PlayerToPlayerUpdate = { actor: '003', affected: '004' };
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Rejects with the error that the townService acknowledged the event with', async () => {
+        const sent = testController.clickedSendRequest(testRequest);
+        acknowledgeLastEmit({ ok: false, code: 'rejected', message: 'Already friends' });
+        await expect(sent).rejects.toEqual(new SocketEventError('rejected', 'Already friends'));
+        await expect(sent).rejects.toMatchObject({ errorCode: 'rejected' });
+      });
+      it('Rejects if the townService does not acknowledge the event in time', async () => {
+        const sent = testController.clickedRemoveFriend(testRequest);
+        jest.advanceTimersByTime(SOCKET_ACK_TIMEOUT_MS);
+        await expect(sent).rejects.toMatchObject({ errorCode: 'timeout' });
+      });
     });
     describe('[T2] interactableUpdate events', () => {
       describe('Conversation Area updates', () => {
@@ -1497,6 +1858,82 @@ describe('TownController', () => {
         });
       });
     });
+    describe('Typing indicators', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Tells the townService that we are typing at most once every TYPING_NOTICE_INTERVAL_MS', () => {
+        const recipients = [playerTestData2.id];
+        const typingNotice = { typist: testController.ourPlayer.id, recipients };
+        testController.startedTyping(recipients);
+        testController.startedTyping(recipients);
+        jest.advanceTimersByTime(TYPING_NOTICE_INTERVAL_MS);
+        testController.startedTyping(recipients);
+        expect(mockSocket.emit.mock.calls.filter(([event]) => event === 'typingStarted')).toEqual([
+          ['typingStarted', typingNotice],
+          ['typingStarted', typingNotice],
+        ]);
+      });
+      it('Only tells the townService that we stopped typing if we said that we started', () => {
+        testController.stoppedTyping([playerTestData2.id]);
+        expect(mockSocket.emit).not.toBeCalledWith('typingStopped', expect.anything());
+        testController.startedTyping([playerTestData2.id]);
+        testController.stoppedTyping([playerTestData2.id]);
+        expect(mockSocket.emit).toBeCalledWith('typingStopped', {
+          typist: testController.ourPlayer.id,
+          recipients: [playerTestData2.id],
+        });
+      });
+      it('Shows that a friend is typing until they stop', () => {
+        const listener = jest.fn();
+        testController.addListener('typingPlayersChanged', listener);
+        const notice = { typist: playerTestData2.id, recipients: [testController.ourPlayer.id] };
+        getEventListener(mockSocket, 'typingStarted')(notice);
+        expect(testController.typingPlayerIDs).toEqual([playerTestData2.id]);
+        expect(listener).toBeCalledWith([playerTestData2.id]);
+        getEventListener(mockSocket, 'typingStopped')(notice);
+        expect(testController.typingPlayerIDs).toEqual([]);
+        expect(listener).toBeCalledWith([]);
+      });
+      it('Stops showing that a friend is typing if they do not say so again in time', () => {
+        const notice = { typist: playerTestData2.id, recipients: [testController.ourPlayer.id] };
+        getEventListener(mockSocket, 'typingStarted')(notice);
+        jest.advanceTimersByTime(TYPING_INDICATOR_TIMEOUT_MS - 1);
+        getEventListener(mockSocket, 'typingStarted')(notice);
+        jest.advanceTimersByTime(TYPING_INDICATOR_TIMEOUT_MS - 1);
+        expect(testController.typingPlayerIDs).toEqual([playerTestData2.id]);
+        jest.advanceTimersByTime(1);
+        expect(testController.typingPlayerIDs).toEqual([]);
+      });
+    });
+    describe('Blocking', () => {
+      it('Initializes the blocked players from the join response', () => {
+        expect(testController.blockedPlayerIDs).toEqual(townJoinResponse.blockedIDs);
+      });
+      it('Emits blockPlayer and unblockPlayer events to the townService', async () => {
+        const block = { actor: testController.ourPlayer.id, affected: playerTestData2.id };
+        const blocked = testController.clickedBlockPlayer(block);
+        expect(mockSocket.emit).toBeCalledWith('blockPlayer', block, expect.any(Function));
+        acknowledgeLastEmit();
+        await blocked;
+        const unblocked = testController.clickedUnblockPlayer(block);
+        expect(mockSocket.emit).toBeCalledWith('unblockPlayer', block, expect.any(Function));
+        acknowledgeLastEmit();
+        await unblocked;
+      });
+      it('Adds and removes players from the block list, and emits blockedPlayersChanged', () => {
+        const block = { actor: testController.ourPlayer.id, affected: playerTestData2.id };
+        emitEventAndExpectListenerFiring('playerBlocked', block, 'blockedPlayersChanged', [
+          playerTestData2.id,
+        ]);
+        expect(testController.blockedPlayerIDs).toEqual([playerTestData2.id]);
+        emitEventAndExpectListenerFiring('playerUnblocked', block, 'blockedPlayersChanged', []);
+        expect(testController.blockedPlayerIDs).toEqual([]);
+      });
+    });
     describe('MiniMessage events', () => {
       let miniMessageSentEventListener: (update: MiniMessage) => void;
       let testMessageToOurPlayer: MiniMessage;
@@ -1506,6 +1943,9 @@ describe('TownController', () => {
           sender: playerTestData2.id,
           recipients: [playerTestData.id, testController.ourPlayer.id, playerTestData3.id],
           body: 'Hi',
+          id: nanoid(),
+          sentAt: Date.now(),
+          receipts: {},
         };
 
         mockClear(mockListeners.newMiniMessageReceived);
@@ -1530,6 +1970,55 @@ describe('TownController', () => {
         // expect to see listener called twice
         expect(mockListeners.newMiniMessageReceived).toBeCalledTimes(2);
       });
+      it('Adds new mini messages to the inbox once, and emits miniMessageInboxChanged', () => {
+        const listener = jest.fn();
+        testController.addListener('miniMessageInboxChanged', listener);
+        miniMessageSentEventListener(testMessageToOurPlayer);
+        miniMessageSentEventListener(testMessageToOurPlayer);
+
+        expect(testController.miniMessageInbox.messages).toEqual([testMessageToOurPlayer]);
+        expect(listener).toBeCalledTimes(1);
+        expect(listener).toBeCalledWith(testController.miniMessageInbox);
+      });
+      it('Marks a conversation as read, both locally and on the townService', () => {
+        miniMessageSentEventListener(testMessageToOurPlayer);
+        testController.readMiniMessagesWith(playerTestData2.id);
+
+        expect(testController.miniMessageInbox.lastReadAt[playerTestData2.id]).toEqual(
+          testMessageToOurPlayer.sentAt,
+        );
+        expect(mockSocket.emit).toBeCalledWith('readMiniMessages', playerTestData2.id);
+      });
+      it('Updates the receipts of our messages when the townService sends a miniMessageReceipt', () => {
+        const ourMessage: MiniMessage = {
+          id: nanoid(),
+          sender: testController.ourPlayer.id,
+          recipients: [playerTestData2.id],
+          body: 'Hello',
+          sentAt: Date.now(),
+          receipts: { [playerTestData2.id]: 'delivered' },
+        };
+        miniMessageSentEventListener(ourMessage);
+        const listener = jest.fn();
+        testController.addListener('miniMessageInboxChanged', listener);
+        getEventListener(
+          mockSocket,
+          'miniMessageReceipt',
+        )({
+          messageID: ourMessage.id,
+          recipient: playerTestData2.id,
+          status: 'read',
+        });
+
+        expect(testController.miniMessageInbox.messages).toEqual([
+          { ...ourMessage, receipts: { [playerTestData2.id]: 'read' } },
+        ]);
+        expect(listener).toBeCalledTimes(1);
+      });
+      it('Does not tell the townService about conversations that were already read', () => {
+        testController.readMiniMessagesWith(playerTestData2.id);
+        expect(mockSocket.emit).not.toBeCalledWith('readMiniMessages', expect.anything());
+      });
     });
   });
   describe('Processing events that are received over the socket from the townService', () => {
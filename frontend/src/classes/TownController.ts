@@ -10,23 +10,84 @@ import { LoginController } from '../contexts/LoginControllerContext';
 import { TownsService, TownsServiceClient } from '../generated/client';
 import useTownController from '../hooks/useTownController';
 import {
+  Announcement,
   ChatMessage,
+  ChatMessageDraft,
   CoveyTownSocket,
   PlayerLocation,
   PlayerToPlayerUpdate,
   TeleportInviteSingular,
   TownSettingsUpdate,
   ViewingArea as ViewingAreaModel,
+  ViewportSize,
   ConversationAreaGroupInvite,
   MiniMessage,
+  MiniMessageDraft,
+  MiniMessageInbox,
+  PayloadRejection,
+  RateLimitNotice,
+  SocialEventRejection,
+  SocketAck,
+  ModerationNotice,
+  MuteNotice,
+  Interactable as InteractableModel,
+  TownJoinResponse,
 } from '../types/CoveyTownSocket';
 import { isConversationArea, isViewingArea } from '../types/TypeUtils';
 import ConversationAreaController from './ConversationAreaController';
+import TownAccount from './LocalStorage/TownAccount';
 import PlayerController from './PlayerController';
+import SocketEventError from './SocketEventError';
 import ViewingAreaController from './ViewingAreaController';
 
 const CALCULATE_NEARBY_PLAYERS_DELAY = 300;
 
+/**
+ * While our player keeps typing to the same friends, how long to wait before telling them again
+ */
+export const TYPING_NOTICE_INTERVAL_MS = 2000;
+
+/**
+ * How long to keep showing that a friend is typing after they last told us so, in case they never tell
+ * us that they stopped (e.g. because they closed the town)
+ */
+export const TYPING_INDICATOR_TIMEOUT_MS = 5000;
+
+/**
+ * How often, at most, to tell the townService where our player is. The game moves our player on every
+ * frame, which on a fast display would be far more often than the townService allows movements.
+ */
+export const MOVEMENT_UPDATE_INTERVAL_MS = 50;
+
+/**
+ * How long to wait for the townService to acknowledge one of our player's actions before giving up on it
+ */
+export const SOCKET_ACK_TIMEOUT_MS = 10000;
+
+/**
+ * Sends an event to the townService with an acknowledgement callback, and waits for the outcome.
+ *
+ * @param emit sends the event, passing the given callback as its acknowledgement callback
+ * @returns a promise that resolves once the townService has processed the event, or rejects with a
+ *  SocketEventError if the townService refused it or did not respond within SOCKET_ACK_TIMEOUT_MS
+ */
+function emitWithAck(emit: (ack: SocketAck) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new SocketEventError('timeout', 'The town did not respond, please try again')),
+      SOCKET_ACK_TIMEOUT_MS,
+    );
+    emit(result => {
+      clearTimeout(timeout);
+      if (result.ok) {
+        resolve();
+      } else {
+        reject(new SocketEventError(result.code, result.message));
+      }
+    });
+  });
+}
+
 export type ConnectionProperties = {
   userName: string;
   townID: string;
@@ -108,6 +169,26 @@ export type TownEvents = {
    */
   newMiniMessageReceived: (latestMiniMessage: MiniMessage) => void;
 
+  /**
+   * An event that indicates that our player's MiniMessage inbox has changed. This event is dispatched
+   * when a MiniMessage is sent or received, our player reads a conversation, or a recipient of one of
+   * our player's MiniMessages receives or views it, after updating the town controller's record of the inbox.
+   */
+  miniMessageInboxChanged: (inbox: MiniMessageInbox) => void;
+
+  /**
+   * An event that indicates that the set of friends who are typing a message to our player has changed.
+   * This event is dispatched when a friend starts or stops typing to our player, or has not said that
+   * they are still typing for TYPING_INDICATOR_TIMEOUT_MS.
+   */
+  typingPlayersChanged: (typingPlayerIDs: string[]) => void;
+
+  /**
+   * An event that indicates that the set of players that our player has blocked has changed. This event is
+   * dispatched after updating the town controller's record of TownController.blockedPlayerIDs.
+   */
+  blockedPlayersChanged: (blockedPlayerIDs: string[]) => void;
+
   /**
    * An event that indicates that the set of viewing areas has changed. This event is emitted after updating
    * the town controller's record of viewing areas.
@@ -143,7 +224,7 @@ export type TownEvents = {
    * message (sender), the list of selected friends meant to receive it (recipients),
    * and the message itself (body).
    */
-  clickedSendMiniMessage: (miniMessage: MiniMessage) => void;
+  clickedSendMiniMessage: (miniMessage: MiniMessageDraft) => void;
 
   /**
    * An event that indicates that one of the affected player's friend requests has been accepted.
@@ -151,6 +232,51 @@ export type TownEvents = {
    * request was accepted (affected).
    */
   friendRequestAccepted: (acceptedRequest: PlayerToPlayerUpdate) => void;
+
+  /**
+   * An event that indicates that the townService refused one of the social events that this player
+   * sent (e.g. accepting a friend request that no longer exists). The rejection names the refused
+   * event, and explains why it was refused.
+   */
+  socialEventRejected: (rejection: SocialEventRejection) => void;
+
+  /**
+   * An event that indicates that the townService dropped one of the events that this player sent,
+   * because our client sent that kind of event too often. The notice says how long to wait before
+   * trying again.
+   */
+  rateLimited: (notice: RateLimitNotice) => void;
+
+  /**
+   * An event that indicates that the townService dropped one of the events that this player sent,
+   * because its payload was malformed. The rejection says where in the payload the problem was.
+   */
+  payloadRejected: (rejection: PayloadRejection) => void;
+
+  /**
+   * An event that indicates that the town's owner removed our player from the town. This event is
+   * dispatched just before the disconnect event.
+   */
+  playerKicked: (notice: ModerationNotice) => void;
+
+  /**
+   * An event that indicates that the town's owner banned our player from the town. This event is
+   * dispatched just before the disconnect event.
+   */
+  playerBanned: (notice: ModerationNotice) => void;
+
+  /**
+   * An event that indicates that the town's owner muted our player: the townService refuses our
+   * chat and mini messages until the mute ends.
+   */
+  playerMuted: (notice: MuteNotice) => void;
+
+  /**
+   * An event that indicates that the set of announcements from the town's owner has changed. This event is
+   * dispatched when an announcement starts, after updating the town controller's record of announcements.
+   * Announcements stay in the list after they expire; @see useActiveAnnouncements
+   */
+  announcementsChanged: (currentAnnouncements: Announcement[]) => void;
 };
 
 /**
@@ -209,6 +335,19 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    */
   private _playerFriendsInternal: PlayerController[] = [];
 
+  /**
+   * The IDs of all of TownController.ourPlayer's friends, including those who are not currently in
+   * this town. Friends who join the town later are added to the friends list using these IDs.
+   */
+  private _playerFriendIDs: string[] = [];
+
+  /**
+   * The IDs of the players that TownController.ourPlayer has blocked, including those who are not currently
+   * in this town. Blocking or unblocking a player will replace the array with a new one; clients should take
+   * note not to retain stale references.
+   */
+  private _blockedPlayerIDsInternal: string[] = [];
+
   /**
    * The current list of this TownController's selected friends in this town. Selected or deselecting
    * friends in the UI will replace this array with a new one. Clients should take note not to retain stale references.
@@ -221,6 +360,58 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    */
   private _conversationAreasInternal: ConversationAreaController[] = [];
 
+  /**
+   * The announcements from the town's owner that have started since we joined the town, or were active
+   * when we joined it. Receiving an announcement will replace the array with a new one; clients should take
+   * note not to retain stale references.
+   */
+  private _announcementsInternal: Announcement[] = [];
+
+  /**
+   * The town's most recent chat messages when we joined it, oldest first, which is provided by the
+   * townsService when we connect. Messages sent after we joined arrive as chatMessage events.
+   */
+  private _chatHistory: ChatMessage[] = [];
+
+  /**
+   * The IDs of every chat message that we have received, so that a message that is in the chat history
+   * sent when our session is resumed is only delivered once
+   */
+  private _chatMessageIDs: Set<string> = new Set();
+
+  /**
+   * Every MiniMessage that our player has sent or received, including those from before we joined the
+   * town, and which conversations they have read. Any change to the inbox will replace it with a new
+   * one; clients should take note not to retain stale references.
+   */
+  private _miniMessageInboxInternal: MiniMessageInbox = {
+    messages: [],
+    lastReadAt: {},
+    userNames: {},
+  };
+
+  /**
+   * The friends who are typing a message to our player, by player ID, along with the timer that stops
+   * showing that they are typing if they do not say so again
+   */
+  private _typingPlayerExpiries: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * When we last told each group of friends that our player is typing to them, by the group's sorted
+   * player IDs; a group is removed once we tell them that our player stopped typing
+   */
+  private _typingNoticesSentAt: Map<string, number> = new Map();
+
+  /**
+   * When we last told the townService where our player is, and the newer location that is waiting
+   * until MOVEMENT_UPDATE_INTERVAL_MS has passed since then, along with the timer that sends it
+   */
+  private _movementSentAt = -Infinity;
+
+  private _pendingMovement?: PlayerLocation;
+
+  private _pendingMovementTimer?: ReturnType<typeof setTimeout>;
+
   /**
    * The friendly name of the current town, set only once this TownController is connected to the townsService
    */
@@ -266,6 +457,17 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    */
   private _providerVideoToken?: string;
 
+  /**
+   * The ID of the map that this town was created from, which is provided by the townsService when we connect.
+   * The game scene loads the map from the townsService, @see mapURL
+   */
+  private _mapID?: string;
+
+  /**
+   * The URL of the townsService, which serves both the REST API and the socket connection
+   */
+  private _townsServiceURL: string;
+
   /**
    * A flag indicating whether the current 2D game is paused, or not. Pausing the game will prevent it from updating,
    * and will also release any key bindings, allowing all keys to be used for text entry or other purposes.
@@ -294,7 +496,18 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
 
     const url = process.env.REACT_APP_TOWNS_SERVICE_URL;
     assert(url);
-    this._socket = io(url, { auth: { userName, townID } });
+    // Present our account token (if we have joined a town before) so that we keep our identity and friends.
+    // The auth is re-read on every reconnection attempt, so that a dropped connection resumes our session.
+    this._socket = io(url, {
+      auth: authCallback =>
+        authCallback({
+          userName,
+          townID,
+          accountToken: TownAccount.accountToken ?? undefined,
+          sessionToken: this._sessionToken,
+        }),
+    });
+    this._townsServiceURL = url;
     this._townsService = new TownsServiceClient({ BASE: url }).towns;
     this.registerSocketListeners();
   }
@@ -324,6 +537,20 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
     return token;
   }
 
+  public get mapID() {
+    const mapID = this._mapID;
+    assert(mapID);
+    return mapID;
+  }
+
+  /**
+   * The URL that the townsService serves this town's map from, in Tiled's JSON format. The image of each of
+   * the map's tilesets is served from <mapURL>/tilesets/<index of the tileset in the map>
+   */
+  public get mapURL() {
+    return `${this._townsServiceURL}/towns/maps/${encodeURIComponent(this.mapID)}`;
+  }
+
   public get userName() {
     return this._userName;
   }
@@ -385,6 +612,41 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
     this.emit('conversationAreasChanged', newConversationAreas);
   }
 
+  public get chatHistory() {
+    return this._chatHistory;
+  }
+
+  public get miniMessageInbox() {
+    return this._miniMessageInboxInternal;
+  }
+
+  private set _miniMessageInbox(newInbox: MiniMessageInbox) {
+    this._miniMessageInboxInternal = newInbox;
+    this.emit('miniMessageInboxChanged', newInbox);
+  }
+
+  public get typingPlayerIDs(): string[] {
+    return [...this._typingPlayerExpiries.keys()];
+  }
+
+  public get blockedPlayerIDs() {
+    return this._blockedPlayerIDsInternal;
+  }
+
+  private set _blockedPlayerIDs(newBlockedPlayerIDs: string[]) {
+    this._blockedPlayerIDsInternal = newBlockedPlayerIDs;
+    this.emit('blockedPlayersChanged', newBlockedPlayerIDs);
+  }
+
+  public get announcements() {
+    return this._announcementsInternal;
+  }
+
+  private set _announcements(newAnnouncements: Announcement[]) {
+    this._announcementsInternal = newAnnouncements;
+    this.emit('announcementsChanged', newAnnouncements);
+  }
+
   public get conversationAreaInvites() {
     return this._conversationAreaInvitesInternal;
   }
@@ -497,7 +759,7 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
      * On chat messages, forward the messages to listeners who subscribe to the controller's events
      */
     this._socket.on('chatMessage', message => {
-      this.emit('chatMessage', message);
+      this._receiveChatMessage(message);
     });
     /**
      * On changes to town settings, update the local state and emit a townSettingsUpdated event to
@@ -529,6 +791,10 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
     this._socket.on('playerJoined', newPlayer => {
       const newPlayerObj = PlayerController.fromPlayerModel(newPlayer);
       this.players = this.players.concat([newPlayerObj]);
+      // if the new player is one of our friends, they belong in our friends list too
+      if (this._playerFriendIDs.includes(newPlayerObj.id)) {
+        this._addPlayerControllerToFriendsList(newPlayerObj.id);
+      }
       this.emit('playerMoved', newPlayerObj);
     });
     /**
@@ -609,23 +875,7 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
      * events (@see ViewingAreaController and @see ConversationAreaController)
      */
     this._socket.on('interactableUpdate', interactable => {
-      if (isConversationArea(interactable)) {
-        const updatedConversationArea = this.conversationAreas.find(c => c.id === interactable.id);
-        if (updatedConversationArea) {
-          const emptyNow = updatedConversationArea.isEmpty();
-          updatedConversationArea.topic = interactable.topic;
-          updatedConversationArea.occupants = this._playersByIDs(interactable.occupantsByID);
-          const emptyAfterChange = updatedConversationArea.isEmpty();
-          if (emptyNow !== emptyAfterChange) {
-            this.emit('conversationAreasChanged', this._conversationAreasInternal);
-          }
-        }
-      } else if (isViewingArea(interactable)) {
-        const updatedViewingArea = this._viewingAreas.find(
-          eachArea => eachArea.id === interactable.id,
-        );
-        updatedViewingArea?.updateFrom(interactable);
-      }
+      this._applyInteractableUpdate(interactable);
     });
 
     /*
@@ -706,8 +956,12 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
       const { actor, affected } = friendRequest;
       const ourPlayerID = this.ourPlayer.id;
 
-      // if our player is involved in the incoming request, save it
-      if (actor === ourPlayerID || affected === ourPlayerID) {
+      // if our player is involved in the incoming request, save it (unless we already know of it,
+      // which happens when the request is replayed to us after resuming our session)
+      const alreadyKnown = this.playerFriendRequests.some(
+        eachRequest => eachRequest.actor === actor && eachRequest.affected === affected,
+      );
+      if ((actor === ourPlayerID || affected === ourPlayerID) && !alreadyKnown) {
         const updatedFriendRequests = [...this.playerFriendRequests];
         updatedFriendRequests.push(friendRequest);
         // use setter because it emits necessary event
@@ -755,8 +1009,10 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
       // update friends list (only needs to be done on this controller because the other controller
       // will also receive this event)
       if (actor === ourPlayerID) {
+        this._playerFriendIDs = _.union(this._playerFriendIDs, [affected]);
         this._addPlayerControllerToFriendsList(affected);
       } else if (affected === ourPlayerID) {
+        this._playerFriendIDs = _.union(this._playerFriendIDs, [actor]);
         this._addPlayerControllerToFriendsList(actor);
       }
 
@@ -789,20 +1045,132 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
       // if our player is involved in the removal
       if (actor === ourPlayerID) {
         // if we are the actor, remove affected
+        this._playerFriendIDs = this._playerFriendIDs.filter(id => id !== affected);
         this._removePlayerControllerFromFriendsList(affected);
       } else if (affected === ourPlayerID) {
         // if we are the affected, remove actor
+        this._playerFriendIDs = this._playerFriendIDs.filter(id => id !== actor);
         this._removePlayerControllerFromFriendsList(actor);
       }
     });
 
     /**
-     * Whenever a mini message event is recieved, forward the messages to listeners who
-     * subscribe to the controller's events.
+     * Whenever our player blocks or unblocks another player, update our block list. Only the blocker is
+     * told about a block, so the actor is always our player.
+     */
+    this._socket.on('playerBlocked', ({ affected }) => {
+      this._blockedPlayerIDs = _.union(this._blockedPlayerIDsInternal, [affected]);
+    });
+    this._socket.on('playerUnblocked', ({ affected }) => {
+      this._blockedPlayerIDs = this._blockedPlayerIDsInternal.filter(id => id !== affected);
+    });
+
+    /**
+     * Whenever a mini message event is recieved, add it to our inbox (unless it is a replayed
+     * message that is already there), and forward it to listeners who subscribe to the controller's
+     * events.
      */
     this._socket.on('miniMessageSent', miniMessage => {
+      const inbox = this._miniMessageInboxInternal;
+      if (!inbox.messages.some(eachMessage => eachMessage.id === miniMessage.id)) {
+        this._miniMessageInbox = { ...inbox, messages: [...inbox.messages, miniMessage] };
+      }
       this.emit('newMiniMessageReceived', miniMessage);
     });
+
+    /**
+     * The townService only sends miniMessageReceipt events to the sender of the message, when one of
+     * its recipients receives or views it, so update the message's receipts in our inbox.
+     */
+    this._socket.on('miniMessageReceipt', receipt => {
+      const inbox = this._miniMessageInboxInternal;
+      if (!inbox.messages.some(eachMessage => eachMessage.id === receipt.messageID)) {
+        return;
+      }
+      this._miniMessageInbox = {
+        ...inbox,
+        messages: inbox.messages.map(eachMessage =>
+          eachMessage.id === receipt.messageID
+            ? {
+                ...eachMessage,
+                receipts: { ...eachMessage.receipts, [receipt.recipient]: receipt.status },
+              }
+            : eachMessage,
+        ),
+      };
+    });
+
+    /**
+     * The townService only sends typing indicators to the players who are being typed to. A friend
+     * keeps sending typingStarted while they type, so only show that they are typing until
+     * TYPING_INDICATOR_TIMEOUT_MS after the last one.
+     */
+    this._socket.on('typingStarted', ({ typist }) => {
+      const isNewTypist = !this._typingPlayerExpiries.has(typist);
+      clearTimeout(this._typingPlayerExpiries.get(typist));
+      this._typingPlayerExpiries.set(
+        typist,
+        setTimeout(() => this._stopShowingTyping(typist), TYPING_INDICATOR_TIMEOUT_MS),
+      );
+      if (isNewTypist) {
+        this.emit('typingPlayersChanged', this.typingPlayerIDs);
+      }
+    });
+    this._socket.on('typingStopped', ({ typist }) => {
+      this._stopShowingTyping(typist);
+    });
+
+    /**
+     * The townService only sends socialEventRejected events to the player whose event was refused,
+     * so forward them to listeners who subscribe to the controller's events.
+     */
+    this._socket.on('socialEventRejected', rejection => {
+      this.emit('socialEventRejected', rejection);
+    });
+    this._socket.on('rateLimited', notice => {
+      this.emit('rateLimited', notice);
+    });
+    this._socket.on('payloadRejected', rejection => {
+      this.emit('payloadRejected', rejection);
+    });
+
+    /**
+     * When the townService refuses one of our player's movements, because they could not have walked
+     * there, put our player back where it still has them. The game scene then reports that location
+     * as our player's movement.
+     */
+    this._socket.on('movementRejected', location => {
+      this._ourPlayer?.updateSpritePosition(location);
+    });
+
+    /**
+     * The townService only sends moderation events to the player who is affected. A kicked or banned
+     * player is about to be disconnected, so leave the town as if it were closing.
+     */
+    this._socket.on('playerKicked', notice => {
+      this.emit('playerKicked', notice);
+      this.emit('disconnect');
+      this._loginController.setTownController(null);
+    });
+    this._socket.on('playerBanned', notice => {
+      this.emit('playerBanned', notice);
+      this.emit('disconnect');
+      this._loginController.setTownController(null);
+    });
+    this._socket.on('playerMuted', notice => {
+      this.emit('playerMuted', notice);
+    });
+    /**
+     * When an announcement from the town's owner starts, add it to our list of announcements
+     */
+    this._socket.on('announcement', announcement => {
+      this._announcements = [
+        ...this._announcementsInternal.filter(
+          eachAnnouncement => eachAnnouncement.id !== announcement.id,
+        ),
+        announcement,
+      ];
+    });
   }
 
   /**
@@ -860,6 +1228,9 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * @param id the id of the player controller to add to the friends list
    */
   private _addPlayerControllerToFriendsList(id: string) {
+    if (this.playerFriends.some(friend => friend.id === id)) {
+      return;
+    }
     const updatedFriendsList = [...this.playerFriends];
 
     // Get new friend's PlayerController from player list
@@ -904,10 +1275,21 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * Note: it is the responsibility of the townService to set the 'interactableID' parameter
    * of the player's location, and any interactableID set here may be overwritten by the townService
    *
+   * The townService is told at most once every MOVEMENT_UPDATE_INTERVAL_MS: a movement that comes
+   * sooner is sent once the interval has passed, unless a newer one replaces it in the meantime.
+   *
    * @param newLocation
    */
   public emitMovement(newLocation: PlayerLocation) {
-    this._socket.emit('playerMovement', newLocation);
+    this._pendingMovement = { ...newLocation };
+    if (!this._pendingMovementTimer) {
+      const waitMs = this._movementSentAt + MOVEMENT_UPDATE_INTERVAL_MS - Date.now();
+      if (waitMs > 0) {
+        this._pendingMovementTimer = setTimeout(() => this._sendPendingMovement(), waitMs);
+      } else {
+        this._sendPendingMovement();
+      }
+    }
     const ourPlayer = this._ourPlayer;
     assert(ourPlayer);
     ourPlayer.location = newLocation;
@@ -915,11 +1297,30 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
   }
 
   /**
-   * Emit a chat message to the townService
+   * Tell the townService how much of the town our player can see, so that it sends us the movements
+   * of the players within view (and those about to come into view) as soon as they happen
+   *
+   * @param viewportSize the size of the game's camera, in pixels
+   */
+  public emitViewportChange(viewportSize: ViewportSize) {
+    this._socket.emit('viewportChanged', viewportSize);
+  }
+
+  private _sendPendingMovement() {
+    this._pendingMovementTimer = undefined;
+    if (this._pendingMovement) {
+      this._socket.emit('playerMovement', this._pendingMovement);
+      this._pendingMovement = undefined;
+      this._movementSentAt = Date.now();
+    }
+  }
+
+  /**
+   * Emit a chat message to the townService, which assigns the message's author, ID and timestamp
    *
    * @param message
    */
-  public emitChatMessage(message: ChatMessage) {
+  public emitChatMessage(message: ChatMessageDraft) {
     this._socket.emit('chatMessage', message);
   }
 
@@ -979,6 +1380,7 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * to the login page
    */
   public disconnect() {
+    clearTimeout(this._pendingMovementTimer);
     this._socket.disconnect();
     this._loginController.setTownController(null);
   }
@@ -989,27 +1391,43 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    */
   public async connect() {
     /*
-         The connection is only valid if we receive an 'initialize' callback, and is invalid if the disconnect
-         handler is called. Wrap the return of connect in a promise that is resolved upon initialize or rejected
+         The connection is only valid if we receive an 'initialize' callback, and is invalid if the server
+         disconnects us. Wrap the return of connect in a promise that is resolved upon initialize or rejected
          upon disconnect.
          */
     return new Promise<void>((resolve, reject) => {
       this._socket.connect();
       this._socket.on('initialize', initialData => {
+        // A later initialize means that our connection dropped and the townService resumed our session
+        if (this._ourPlayer) {
+          this._resumeFrom(initialData);
+          return;
+        }
         this._providerVideoToken = initialData.providerVideoToken;
+        this._mapID = initialData.mapID;
         this._friendlyNameInternal = initialData.friendlyName;
         this._townIsPubliclyListedInternal = initialData.isPubliclyListed;
         this._sessionToken = initialData.sessionToken;
+        TownAccount.accountToken = initialData.accountToken;
         this.players = initialData.currentPlayers.map(eachPlayerModel =>
           PlayerController.fromPlayerModel(eachPlayerModel),
         );
 
         this._conversationAreas = [];
         this._viewingAreas = [];
-        this.conversationAreaInvites = [];
-        this.playerFriendRequests = [];
-        this._playerFriendsInternal = [];
+        this.conversationAreaInvites = initialData.conversationAreaInvites;
+        this.playerFriendRequests = initialData.pendingFriendRequests.map(pendingRequest => ({
+          actor: pendingRequest.sender,
+          affected: pendingRequest.recipient,
+        }));
+        this._playerFriendIDs = initialData.friendIDs;
+        this._playerFriendsInternal = this._playersByIDs(initialData.friendIDs);
+        this._blockedPlayerIDsInternal = initialData.blockedIDs;
         this._selectedFriendsInternal = [];
+        this._announcementsInternal = initialData.announcements;
+        this._chatHistory = initialData.chatHistory;
+        this._chatMessageIDs = new Set(initialData.chatHistory.map(message => message.sid));
+        this._miniMessageInboxInternal = initialData.miniMessageInbox;
         initialData.interactables.forEach(eachInteractable => {
           if (isConversationArea(eachInteractable)) {
             this._conversationAreasInternal.push(
@@ -1027,12 +1445,110 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
         this.emit('connect', initialData.providerVideoToken);
         resolve();
       });
-      this._socket.on('disconnect', () => {
-        reject(new Error('Invalid town ID'));
+      this._socket.on('joinRejected', reason => {
+        reject(new Error(reason));
+      });
+      // The socket reconnects by itself when the connection is lost; only the server refuses us for good
+      this._socket.on('disconnect', reason => {
+        if (reason === 'io server disconnect') {
+          reject(new Error('Invalid town ID'));
+        }
       });
     });
   }
 
+  /**
+   * Bring our local state up to date with the town after the townService resumed our session. The
+   * townService replays any private events that we missed once it has sent this snapshot.
+   *
+   * Existing PlayerControllers are kept (our own player's controller holds our sprite, and its location
+   * is managed by the game scene), and updates are applied to the existing interactable controllers.
+   *
+   * @param initialData the snapshot of the town that was sent when our session was resumed
+   */
+  private _resumeFrom(initialData: TownJoinResponse) {
+    this._friendlyNameInternal = initialData.friendlyName;
+    this._townIsPubliclyListedInternal = initialData.isPubliclyListed;
+    this._sessionToken = initialData.sessionToken;
+    TownAccount.accountToken = initialData.accountToken;
+    this.players = initialData.currentPlayers.map(eachPlayerModel => {
+      const existingPlayer = this.players.find(eachPlayer => eachPlayer.id === eachPlayerModel.id);
+      if (!existingPlayer) {
+        return PlayerController.fromPlayerModel(eachPlayerModel);
+      }
+      if (existingPlayer !== this._ourPlayer) {
+        existingPlayer.location = eachPlayerModel.location;
+      }
+      return existingPlayer;
+    });
+    initialData.interactables.forEach(eachInteractable =>
+      this._applyInteractableUpdate(eachInteractable),
+    );
+    this.conversationAreaInvites = initialData.conversationAreaInvites;
+    this.playerFriendRequests = initialData.pendingFriendRequests.map(pendingRequest => ({
+      actor: pendingRequest.sender,
+      affected: pendingRequest.recipient,
+    }));
+    this._playerFriendIDs = initialData.friendIDs;
+    this.playerFriends = this._playersByIDs(initialData.friendIDs);
+    this._blockedPlayerIDs = initialData.blockedIDs;
+    this.selectedFriends = this.selectedFriends.filter(friend =>
+      this.playerFriends.includes(friend),
+    );
+    this._announcements = [
+      ...this._announcementsInternal.filter(
+        eachAnnouncement =>
+          !initialData.announcements.some(
+            eachNewAnnouncement => eachNewAnnouncement.id === eachAnnouncement.id,
+          ),
+      ),
+      ...initialData.announcements,
+    ];
+    // Deliver the chat messages that were sent while our connection was down
+    initialData.chatHistory.forEach(message => this._receiveChatMessage(message));
+    this._miniMessageInbox = initialData.miniMessageInbox;
+  }
+
+  /**
+   * Forward a chat message to listeners who subscribe to the controller's events, unless we have
+   * already received it
+   *
+   * @param message the message that was sent to us
+   */
+  private _receiveChatMessage(message: ChatMessage) {
+    if (this._chatMessageIDs.has(message.sid)) {
+      return;
+    }
+    this._chatMessageIDs.add(message.sid);
+    this.emit('chatMessage', message);
+  }
+
+  /**
+   * Apply an update to the ViewingAreaController or ConversationAreaController that this TownController has
+   * for the given interactable, @see the 'interactableUpdate' handler in registerSocketListeners
+   *
+   * @param interactable the updated model of the interactable
+   */
+  private _applyInteractableUpdate(interactable: InteractableModel) {
+    if (isConversationArea(interactable)) {
+      const updatedConversationArea = this.conversationAreas.find(c => c.id === interactable.id);
+      if (updatedConversationArea) {
+        const emptyNow = updatedConversationArea.isEmpty();
+        updatedConversationArea.topic = interactable.topic;
+        updatedConversationArea.occupants = this._playersByIDs(interactable.occupantsByID);
+        const emptyAfterChange = updatedConversationArea.isEmpty();
+        if (emptyNow !== emptyAfterChange) {
+          this.emit('conversationAreasChanged', this._conversationAreasInternal);
+        }
+      }
+    } else if (isViewingArea(interactable)) {
+      const updatedViewingArea = this._viewingAreas.find(
+        eachArea => eachArea.id === interactable.id,
+      );
+      updatedViewingArea?.updateFrom(interactable);
+    }
+  }
+
   /**
    * Retrieve the viewing area controller that corresponds to a viewingAreaModel, creating one if necessary
    *
@@ -1127,26 +1643,32 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * Emits a acceptFriendRequest event to the townService.
    * @param acceptedRequest the friend request - holds the current player and the player whose
    *                        friend request was accepted.
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedAcceptFriendRequest(acceptedRequest: PlayerToPlayerUpdate): void {
-    this._socket.emit('acceptFriendRequest', acceptedRequest);
+  public clickedAcceptFriendRequest(acceptedRequest: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('acceptFriendRequest', acceptedRequest, ack));
   }
 
   /**
    * Emits a declineFriendRequest event to the townService.
    * @param declinedRequest the friend reqeust - holds the current player and the player whose
    *                        friend request was declined
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedDeclineFriendRequest(declinedRequest: PlayerToPlayerUpdate): void {
-    this._socket.emit('declineFriendRequest', declinedRequest);
+  public clickedDeclineFriendRequest(declinedRequest: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('declineFriendRequest', declinedRequest, ack));
   }
 
   /**
-   * Emits a playerMovement event to the TownService.
-   * @param playerDestinationLocation the location to teleport the current player to
+   * Emits a teleportToFriend event to the townService, which moves our player to where it has the
+   * friend. Players can not walk that far at once, so a playerMovement would be refused.
+   * @param friendID the ID of the friend to teleport to
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedTeleportToFriend(playerDestinationLocation: PlayerLocation): void {
-    this._socket.emit('playerMovement', playerDestinationLocation);
+  public clickedTeleportToFriend(friendID: string): Promise<void> {
+    return emitWithAck(ack =>
+      this._socket.emit('teleportToFriend', { actor: this.ourPlayer.id, affected: friendID }, ack),
+    );
   }
 
   /**
@@ -1154,9 +1676,10 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * Emits a sendFriendRequest event to the townService.
    * @param sentRequest the friend request - holds the current player and the player whose
    *                    who is being requested
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedSendRequest(sentRequest: PlayerToPlayerUpdate): void {
-    this._socket.emit('sendFriendRequest', sentRequest);
+  public clickedSendRequest(sentRequest: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('sendFriendRequest', sentRequest, ack));
   }
 
   /**
@@ -1164,17 +1687,38 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * Emits a cancelFriendRequest event to the townService.
    * @param canceledRequest the friend request being canceled - holds the current player and the player whose
    *                        who is being requested
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedCancelRequest(canceledRequest: PlayerToPlayerUpdate): void {
-    this._socket.emit('cancelFriendRequest', canceledRequest);
+  public clickedCancelRequest(canceledRequest: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('cancelFriendRequest', canceledRequest, ack));
   }
 
   /**
    * Emits a removeFriend event to the townService.
    * @param removedFriend holds the current player and the player who is being unfriended.
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedRemoveFriend(removedFriend: PlayerToPlayerUpdate): void {
-    this._socket.emit('removeFriend', removedFriend);
+  public clickedRemoveFriend(removedFriend: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('removeFriend', removedFriend, ack));
+  }
+
+  /**
+   * Emits a blockPlayer event to the townService. The townService also ends any friendship between the
+   * two players.
+   * @param block holds the current player and the player who is being blocked.
+   * @returns the outcome of the event, @see emitWithAck
+   */
+  public clickedBlockPlayer(block: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('blockPlayer', block, ack));
+  }
+
+  /**
+   * Emits an unblockPlayer event to the townService.
+   * @param block holds the current player and the player who is being unblocked.
+   * @returns the outcome of the event, @see emitWithAck
+   */
+  public clickedUnblockPlayer(block: PlayerToPlayerUpdate): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('unblockPlayer', block, ack));
   }
 
   /**
@@ -1182,9 +1726,10 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * Emits a acceptConvAreaInvite event to the townService.
    * @param acceptedInvite the conv area invite - holds the player who accepted, the player whose
    *                       conv area invite was accepted, and the teleport destination.
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedAcceptConvAreaInvite(acceptedInvite: TeleportInviteSingular): void {
-    this._socket.emit('acceptConvAreaInvite', acceptedInvite);
+  public clickedAcceptConvAreaInvite(acceptedInvite: TeleportInviteSingular): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('acceptConvAreaInvite', acceptedInvite, ack));
   }
 
   /**
@@ -1193,9 +1738,10 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * @param declinedInvite the friend reqeust - holds the player who declined, the player whose
    *                       conv area invite was declined, and what would have been the teleport
    *                       destination.
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedDeclineConvAreaInvite(declinedInvite: TeleportInviteSingular): void {
-    this._socket.emit('declineConvAreaInvite', declinedInvite);
+  public clickedDeclineConvAreaInvite(declinedInvite: TeleportInviteSingular): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('declineConvAreaInvite', declinedInvite, ack));
   }
 
   /**
@@ -1204,25 +1750,94 @@ export default class TownController extends (EventEmitter as new () => TypedEmit
    * @param invite holds the requester, list of requested, and destination location,
    *               within the conversation area, that the requested would be transported to if
    *               they accepted the invite.
+   * @returns the outcome of the event, @see emitWithAck; rejects right away if the Player is not
+   *          in a conversation area
    */
-  public clickedInviteAllToConvArea(invite: ConversationAreaGroupInvite): void {
+  public clickedInviteAllToConvArea(invite: ConversationAreaGroupInvite): Promise<void> {
     if (
       // check that the player is in a conversation areas before allowing the invite to be sent
       this.conversationAreas.find(area =>
         area.occupants.find(player => player.id === invite.requester),
       )
     ) {
-      this._socket.emit('inviteAllToConvArea', invite);
+      return emitWithAck(ack => this._socket.emit('inviteAllToConvArea', invite, ack));
+    }
+    return Promise.reject(
+      new SocketEventError('rejected', 'Join a conversation area to invite your friends to it'),
+    );
+  }
+
+  /**
+   * Tells the given friends that our player is typing a message to them. While our player keeps
+   * typing, this may be called on every keystroke: the townService is only told again once
+   * TYPING_NOTICE_INTERVAL_MS has passed.
+   * @param recipientIDs the IDs of the friends that our player is typing to
+   */
+  public startedTyping(recipientIDs: string[]): void {
+    if (recipientIDs.length === 0) {
+      return;
+    }
+    const groupKey = [...recipientIDs].sort().join(':');
+    const now = Date.now();
+    if (now - (this._typingNoticesSentAt.get(groupKey) ?? -Infinity) < TYPING_NOTICE_INTERVAL_MS) {
+      return;
+    }
+    this._typingNoticesSentAt.set(groupKey, now);
+    this._socket.emit('typingStarted', { typist: this.ourPlayer.id, recipients: recipientIDs });
+  }
+
+  /**
+   * Tells the given friends that our player stopped typing a message to them, if we told them that
+   * our player started
+   * @param recipientIDs the IDs of the friends that our player was typing to
+   */
+  public stoppedTyping(recipientIDs: string[]): void {
+    if (this._typingNoticesSentAt.delete([...recipientIDs].sort().join(':'))) {
+      this._socket.emit('typingStopped', { typist: this.ourPlayer.id, recipients: recipientIDs });
+    }
+  }
+
+  private _stopShowingTyping(typist: string): void {
+    const expiry = this._typingPlayerExpiries.get(typist);
+    if (expiry) {
+      clearTimeout(expiry);
+      this._typingPlayerExpiries.delete(typist);
+      this.emit('typingPlayersChanged', this.typingPlayerIDs);
     }
   }
 
   /**
    * Emits a sendMiniMessage event to the townService.
    * @param miniMessage The message to be sent - holds the sender, list of recipients (the
-   *                     sender's currently selected friends), and the body of the message.
+   *                     sender's currently selected friends), and the body of the message, along
+   *                     with the ID of the message that it replies to, if any.
+   * @returns the outcome of the event, @see emitWithAck
    */
-  public clickedSendMiniMessage(miniMessage: MiniMessage): void {
-    this._socket.emit('sendMiniMessage', miniMessage);
+  public clickedSendMiniMessage(miniMessage: MiniMessageDraft): Promise<void> {
+    return emitWithAck(ack => this._socket.emit('sendMiniMessage', miniMessage, ack));
+  }
+
+  /**
+   * Marks our player's MiniMessage conversation with another player as read, both in our inbox and
+   * on the townService, so that it stays read when we rejoin the town.
+   * @param otherPlayerID the ID of the other player in the conversation
+   */
+  public readMiniMessagesWith(otherPlayerID: string): void {
+    const inbox = this._miniMessageInboxInternal;
+    // Use the townService's clock (by way of the message timestamps) rather than our own
+    const latestSentAt = Math.max(
+      0,
+      ...inbox.messages
+        .filter(eachMessage => eachMessage.sender === otherPlayerID)
+        .map(eachMessage => eachMessage.sentAt),
+    );
+    if ((inbox.lastReadAt[otherPlayerID] ?? 0) < latestSentAt) {
+      this._miniMessageInbox = {
+        ...inbox,
+        lastReadAt: { ...inbox.lastReadAt, [otherPlayerID]: latestSentAt },
+      };
+      this._socket.emit('readMiniMessages', otherPlayerID);
+    }
   }
 }
 
@@ -1307,6 +1922,46 @@ export function useActiveConversationAreas(): ConversationAreaController[] {
   return conversationAreas;
 }
 
+/**
+ * A react hook to retrieve the conversation area that TownController.ourPlayer is in. This hook will
+ * re-render any components that use it when our player enters or leaves a conversation area.
+ *
+ * This hook relies on the TownControllerContext.
+ *
+ * @returns the controller of the conversation area that our player occupies, or undefined if they are
+ *  not in one
+ */
+export function useOurConversationArea(): ConversationAreaController | undefined {
+  const townController = useTownController();
+  const [ourConversationArea, setOurConversationArea] = useState<
+    ConversationAreaController | undefined
+  >(
+    townController.conversationAreas.find(eachArea =>
+      eachArea.occupants.includes(townController.ourPlayer),
+    ),
+  );
+  useEffect(() => {
+    // occupantsChange is emitted before an area's occupants are updated, so use the new occupants
+    const listeners = townController.conversationAreas.map(eachArea => {
+      const updater = (newOccupants: PlayerController[]) => {
+        if (newOccupants.includes(townController.ourPlayer)) {
+          setOurConversationArea(eachArea);
+        } else {
+          setOurConversationArea(previousArea =>
+            previousArea === eachArea ? undefined : previousArea,
+          );
+        }
+      };
+      eachArea.addListener('occupantsChange', updater);
+      return { area: eachArea, updater };
+    });
+    return () => {
+      listeners.forEach(({ area, updater }) => area.removeListener('occupantsChange', updater));
+    };
+  }, [townController]);
+  return ourConversationArea;
+}
+
 /**
  * A react hook to retrieve the current conversation area requests. This hook will re-render any
  * components that use it when the set of conversation area requests changes.
@@ -1513,3 +2168,109 @@ export function usePlayersInVideoCall(): PlayerController[] {
   }, [townController, setPlayersInCall]);
   return playersInCall;
 }
+
+/**
+ * A react hook to retrieve the announcements from the town's owner that are currently active. This hook
+ * will re-render any components that use it when an announcement starts or expires.
+ *
+ * This hook relies on the TownControllerContext.
+ *
+ * @returns the list of announcements that have started and have not yet expired, oldest first
+ */
+export function useActiveAnnouncements(): Announcement[] {
+  const townController = useTownController();
+  const [announcements, setAnnouncements] = useState<Announcement[]>(townController.announcements);
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const updateAnnouncements = (currentAnnouncements: Announcement[]) => {
+      setAnnouncements(currentAnnouncements);
+      setNow(Date.now());
+    };
+    townController.addListener('announcementsChanged', updateAnnouncements);
+    return () => {
+      townController.removeListener('announcementsChanged', updateAnnouncements);
+    };
+  }, [townController]);
+
+  const activeAnnouncements = announcements.filter(
+    eachAnnouncement =>
+      eachAnnouncement.expiresAt === undefined || eachAnnouncement.expiresAt > now,
+  );
+  // Re-render when the next of the active announcements expires
+  const nextExpiry = Math.min(
+    ...activeAnnouncements.map(eachAnnouncement => eachAnnouncement.expiresAt ?? Infinity),
+  );
+  useEffect(() => {
+    if (nextExpiry === Infinity) {
+      return;
+    }
+    const expiryTimer = setTimeout(() => setNow(Date.now()), nextExpiry - Date.now());
+    return () => {
+      clearTimeout(expiryTimer);
+    };
+  }, [nextExpiry]);
+  return activeAnnouncements;
+}
+
+/**
+ * A react hook to retrieve our player's MiniMessage inbox. This hook will re-render any components that
+ * use it when a MiniMessage is sent or received, or our player reads a conversation.
+ *
+ * This hook relies on the TownControllerContext.
+ *
+ * @returns every MiniMessage that our player has sent or received, and which conversations they have read
+ */
+export function useMiniMessageInbox(): MiniMessageInbox {
+  const townController = useTownController();
+  const [inbox, setInbox] = useState<MiniMessageInbox>(townController.miniMessageInbox);
+  useEffect(() => {
+    townController.addListener('miniMessageInboxChanged', setInbox);
+    return () => {
+      townController.removeListener('miniMessageInboxChanged', setInbox);
+    };
+  }, [townController]);
+  return inbox;
+}
+
+/**
+ * A react hook to retrieve the IDs of the friends who are currently typing a message to our player. This
+ * hook will re-render any components that use it when a friend starts or stops typing.
+ *
+ * This hook relies on the TownControllerContext.
+ *
+ * @returns the IDs of the friends who are typing to our player
+ */
+export function useTypingPlayerIDs(): string[] {
+  const townController = useTownController();
+  const [typingPlayerIDs, setTypingPlayerIDs] = useState<string[]>(townController.typingPlayerIDs);
+  useEffect(() => {
+    townController.addListener('typingPlayersChanged', setTypingPlayerIDs);
+    return () => {
+      townController.removeListener('typingPlayersChanged', setTypingPlayerIDs);
+    };
+  }, [townController]);
+  return typingPlayerIDs;
+}
+
+/**
+ * A react hook to retrieve the IDs of the players that our player has blocked. This hook will re-render any
+ * components that use it when our player blocks or unblocks a player.
+ *
+ * This hook relies on the TownControllerContext.
+ *
+ * @returns the IDs of the players that our player has blocked
+ */
+export function useBlockedPlayerIDs(): string[] {
+  const townController = useTownController();
+  const [blockedPlayerIDs, setBlockedPlayerIDs] = useState<string[]>(
+    townController.blockedPlayerIDs,
+  );
+  useEffect(() => {
+    townController.addListener('blockedPlayersChanged', setBlockedPlayerIDs);
+    return () => {
+      townController.removeListener('blockedPlayersChanged', setBlockedPlayerIDs);
+    };
+  }, [townController]);
+  return blockedPlayerIDs;
+}
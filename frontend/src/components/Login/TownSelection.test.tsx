@@ -82,6 +82,12 @@ const listTowns = (suffix: string) =>
       .map(a => a.value),
   );
 
+const listMaps = () =>
+  toCancelablePromise([
+    { mapID: 'indoors', name: 'Indoors', description: 'An office' },
+    { mapID: 'tuxemon-town', name: 'Tuxemon Town', description: 'A town' },
+  ]);
+
 export function wrappedTownSelection() {
   return (
     <ChakraProvider>
@@ -119,6 +125,7 @@ describe('Town Selection', () => {
     mockClear(mockedTownController);
     mockClear(coveyTownControllerConstructorSpy);
     useLoginControllerSpy.mockReturnValue(mockLoginController);
+    mockTownsService.listMaps.mockImplementation(listMaps);
     coveyTownControllerConstructorSpy.mockReturnValue(mockedTownController);
     mockedTownController.connect.mockReturnValue(Promise.resolve());
   });
@@ -296,6 +303,7 @@ describe('Town Selection', () => {
     let expectedTowns: Town[];
     let newTownNameField: HTMLInputElement;
     let newTownIsPublicCheckbox: HTMLInputElement;
+    let newTownMapSelect: HTMLSelectElement;
     let newTownButton: HTMLElement;
 
     beforeEach(async () => {
@@ -315,6 +323,7 @@ describe('Town Selection', () => {
       joinTownByIDButton = renderData.getByTestId('joinTownByIDButton');
       newTownIsPublicCheckbox = renderData.getByLabelText('Publicly Listed') as HTMLInputElement;
       newTownNameField = renderData.getByPlaceholderText('New Town Name') as HTMLInputElement;
+      newTownMapSelect = renderData.getByLabelText('Map') as HTMLSelectElement;
       newTownButton = renderData.getByTestId('newTownButton');
     });
     describe('Joining existing towns', () => {
@@ -480,6 +489,7 @@ describe('Town Selection', () => {
         townName: string;
         userName: string;
         togglePublicBox?: boolean;
+        mapID?: string;
         townID?: string;
         roomPassword?: string;
         errorMessage?: string;
@@ -494,6 +504,13 @@ describe('Town Selection', () => {
           fireEvent.click(newTownIsPublicCheckbox);
           await waitFor(() => expect(newTownIsPublicCheckbox.checked).toBe(false));
         }
+        if (params.mapID) {
+          await waitFor(() =>
+            expect(within(newTownMapSelect).getAllByRole('option').length).toBeGreaterThan(1),
+          );
+          fireEvent.change(newTownMapSelect, { target: { value: params.mapID } });
+          await waitFor(() => expect(newTownMapSelect.value).toBe(params.mapID));
+        }
         mockTownsService.createTown.mockClear();
         if (params.townID && params.roomPassword) {
           mockTownsService.createTown.mockReturnValue(
@@ -578,6 +595,24 @@ describe('Town Selection', () => {
             );
           });
 
+          it('calls createTown on the apiClient with the chosen map', async () => {
+            const townName = nanoid();
+            await createTownWithOptions({
+              townName,
+              userName: nanoid(),
+              mapID: 'tuxemon-town',
+              townID: nanoid(),
+              roomPassword: nanoid(),
+            });
+            await waitFor(() =>
+              expect(mockTownsService.createTown).toBeCalledWith({
+                friendlyName: townName,
+                isPubliclyListed: true,
+                mapID: 'tuxemon-town',
+              }),
+            );
+          });
+
           it('displays a toast "Town newTownName is ready to go!" when successful', async () => {
             const townID = nanoid();
             const roomPassword = nanoid();
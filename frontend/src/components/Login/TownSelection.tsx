@@ -9,6 +9,7 @@ import {
   FormLabel,
   Heading,
   Input,
+  Select,
   Stack,
   Table,
   TableCaption,
@@ -19,7 +20,7 @@ import {
   Tr,
   useToast,
 } from '@chakra-ui/react';
-import { Town } from '../../generated/client';
+import { Town, TownMap } from '../../generated/client';
 import useLoginController from '../../hooks/useLoginController';
 import TownController from '../../classes/TownController';
 import useVideoContext from '../VideoCall/VideoFrontend/hooks/useVideoContext/useVideoContext';
@@ -28,6 +29,8 @@ export default function TownSelection(): JSX.Element {
   const [userName, setUserName] = useState<string>('');
   const [newTownName, setNewTownName] = useState<string>('');
   const [newTownIsPublic, setNewTownIsPublic] = useState<boolean>(true);
+  const [newTownMapID, setNewTownMapID] = useState<string>('');
+  const [availableMaps, setAvailableMaps] = useState<TownMap[]>([]);
   const [townIDToJoin, setTownIDToJoin] = useState<string>('');
   const [currentPublicTowns, setCurrentPublicTowns] = useState<Town[]>();
   const loginController = useLoginController();
@@ -48,6 +51,9 @@ export default function TownSelection(): JSX.Element {
       clearInterval(timer);
     };
   }, [updateTownListings]);
+  useEffect(() => {
+    townsService.listMaps().then(setAvailableMaps);
+  }, [townsService]);
 
   const handleJoin = useCallback(
     async (coveyRoomID: string) => {
@@ -118,6 +124,7 @@ export default function TownSelection(): JSX.Element {
       const newTownInfo = await townsService.createTown({
         friendlyName: newTownName,
         isPubliclyListed: newTownIsPublic,
+        mapID: newTownMapID || undefined,
       });
       let privateMessage = <></>;
       if (!newTownIsPublic) {
@@ -197,6 +204,23 @@ export default function TownSelection(): JSX.Element {
                   />
                 </FormControl>
               </Box>
+              <Box>
+                <FormControl>
+                  <FormLabel htmlFor='townMap'>Map</FormLabel>
+                  <Select
+                    id='townMap'
+                    name='townMap'
+                    placeholder='Default map'
+                    value={newTownMapID}
+                    onChange={event => setNewTownMapID(event.target.value)}>
+                    {availableMaps.map(eachMap => (
+                      <option key={eachMap.mapID} value={eachMap.mapID} title={eachMap.description}>
+                        {eachMap.name}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
               <Box>
                 <FormControl>
                   <FormLabel htmlFor='isPublic'>Publicly Listed</FormLabel>
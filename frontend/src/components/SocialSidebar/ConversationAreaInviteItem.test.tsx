@@ -177,9 +177,18 @@ describe('ConversationAreaInviteList', () => {
         currentPlayers: allPlayers.map(eachPlayer => eachPlayer.toPlayerModel()),
         friendlyName: nanoid(),
         isPubliclyListed: true,
+        mapID: 'indoors',
         providerVideoToken: nanoid(),
         sessionToken: nanoid(),
+        accountToken: nanoid(),
         userID: nanoid(),
+        friendIDs: [],
+        blockedIDs: [],
+        pendingFriendRequests: [],
+        conversationAreaInvites: [],
+        announcements: [],
+        chatHistory: [],
+        miniMessageInbox: { messages: [], lastReadAt: {}, userNames: {} },
       });
       return render(
         <ChakraProvider>
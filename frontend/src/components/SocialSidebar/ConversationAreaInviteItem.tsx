@@ -2,6 +2,7 @@ import { Button, ButtonGroup, Td, Tr } from '@chakra-ui/react';
 import React from 'react'; // gets rid of eslint error
 import useTownController from '../../hooks/useTownController';
 import { TeleportInviteSingular } from '../../types/CoveyTownSocket';
+import useActionOutcomeToast from './useActionOutcomeToast';
 
 /**
  * Renders a Chakra Table Row displaying the requesting player from the invite parameter,
@@ -17,6 +18,7 @@ export default function ConversationAreaInviteItem({
   requesterLocation,
 }: TeleportInviteSingular): JSX.Element {
   const townController = useTownController();
+  const reportOutcome = useActionOutcomeToast();
   const conversationAreas = townController.conversationAreas;
   const invite = { requester, requested, requesterLocation };
   const buttonColor = 'blue';
@@ -46,7 +48,7 @@ export default function ConversationAreaInviteItem({
             size={buttonSize}
             onClick={() => {
               townController.ourPlayer.updateSpritePosition(requesterLocation);
-              townController.clickedAcceptConvAreaInvite(invite);
+              reportOutcome(townController.clickedAcceptConvAreaInvite(invite));
             }}>
             Accept and Go
           </Button>
@@ -54,7 +56,7 @@ export default function ConversationAreaInviteItem({
             aria-label={'declineConvAreaRequestButtton'}
             colorScheme={buttonColor}
             size={buttonSize}
-            onClick={() => townController.clickedDeclineConvAreaInvite(invite)}>
+            onClick={() => reportOutcome(townController.clickedDeclineConvAreaInvite(invite))}>
             Decline
           </Button>
         </ButtonGroup>
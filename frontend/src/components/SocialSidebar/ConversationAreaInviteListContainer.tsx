@@ -15,6 +15,7 @@ import {
 import { usePendingConversationAreaInvites } from '../../classes/TownController';
 import ConversationAreaInviteList from './ConversationAreaInviteList';
 import useTownController from '../../hooks/useTownController';
+import useActionOutcomeToast from './useActionOutcomeToast';
 
 /**
  * This function renders the number of Conversation Area Invites and displays that number on a
@@ -28,6 +29,7 @@ import useTownController from '../../hooks/useTownController';
 export default function ConversationAreaInviteListContainer(): JSX.Element {
   const conversationAreaInvites = usePendingConversationAreaInvites();
   const townController = useTownController();
+  const reportOutcome = useActionOutcomeToast();
   const { isOpen, onOpen, onClose } = useDisclosure();
   const [requestCount, setRequestCount] = useState<number>(conversationAreaInvites.length);
 
@@ -53,7 +55,7 @@ export default function ConversationAreaInviteListContainer(): JSX.Element {
         size={'xs'}
         onClick={() =>
           townController.conversationAreaInvites.forEach(invite =>
-            townController.clickedDeclineConvAreaInvite(invite),
+            reportOutcome(townController.clickedDeclineConvAreaInvite(invite)),
           )
         }>
         Decline All Invitations
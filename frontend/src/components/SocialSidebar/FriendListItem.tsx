@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import PlayerController from '../../classes/PlayerController';
 import { useSelectedFriends } from '../../classes/TownController';
 import useTownController from '../../hooks/useTownController';
+import useActionOutcomeToast from './useActionOutcomeToast';
 
 type FriendNameProps = {
   player: PlayerController;
@@ -20,6 +21,7 @@ type FriendNameProps = {
  */
 export default function FriendsListItem({ player }: FriendNameProps): JSX.Element {
   const townController = useTownController();
+  const reportOutcome = useActionOutcomeToast();
   const selectedFriends = useSelectedFriends();
   const [checked, setChecked] = useState<boolean>(selectedFriends.includes(player));
   const buttonSize = 'xs';
@@ -56,7 +58,7 @@ export default function FriendsListItem({ player }: FriendNameProps): JSX.Elemen
             // move ourPlayer sprite and label
             townController.ourPlayer.updateSpritePosition(player.location);
             // tells the town we moved, letting other players know, rendering us correctly on their end
-            townController.clickedTeleportToFriend(player.location);
+            reportOutcome(townController.clickedTeleportToFriend(player.id));
           }}>
           Teleport
         </Button>
@@ -65,13 +67,30 @@ export default function FriendsListItem({ player }: FriendNameProps): JSX.Elemen
           variant={buttonVariant}
           size={buttonSize}
           onClick={() => {
-            townController.clickedRemoveFriend({
-              actor: townController.ourPlayer.id,
-              affected: player.id,
-            });
+            reportOutcome(
+              townController.clickedRemoveFriend({
+                actor: townController.ourPlayer.id,
+                affected: player.id,
+              }),
+            );
           }}>
           Unfriend
         </Button>
+        <Button
+          colorScheme={'red'}
+          variant={'ghost'}
+          size={buttonSize}
+          title='Unfriend and block this player'
+          onClick={() => {
+            reportOutcome(
+              townController.clickedBlockPlayer({
+                actor: townController.ourPlayer.id,
+                affected: player.id,
+              }),
+            );
+          }}>
+          Block
+        </Button>
       </HStack>
     </ListItem>
   );
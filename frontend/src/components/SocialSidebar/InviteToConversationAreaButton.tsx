@@ -2,6 +2,7 @@ import { Button, useToast } from '@chakra-ui/react';
 import React from 'react'; // gets rid of eslint error
 import useTownController from '../../hooks/useTownController';
 import { useActiveConversationAreas, useSelectedFriends } from '../../classes/TownController';
+import useActionOutcomeToast from './useActionOutcomeToast';
 
 /**
  * Creates a Chakra Button element that allows a given player to request their selected
@@ -16,6 +17,7 @@ export default function InviteToConversationAreaButton(): JSX.Element {
   const ourPlayer = townController.ourPlayer;
   const insideArea = activeConversations.find(area => area.occupants.includes(ourPlayer));
   const toast = useToast();
+  const reportOutcome = useActionOutcomeToast();
 
   // our player is allowed to send an invitation if they are inside an active
   // Conversation Area and they have selected friends to invite.
@@ -46,18 +48,23 @@ export default function InviteToConversationAreaButton(): JSX.Element {
 
   const clickedInviteToConvArea = () => {
     if (isAllowedToInvite) {
-      // send the request to the TownService
-      townController.clickedInviteAllToConvArea({
-        requester: ourPlayer.id,
-        requested: selectedFriends.map(friend => friend.id),
-        requesterLocation: ourPlayer.location,
-      });
+      // send the request to the TownService, and inform the player of the result once it has
+      // been processed
+      reportOutcome(
+        townController.clickedInviteAllToConvArea({
+          requester: ourPlayer.id,
+          requested: selectedFriends.map(friend => friend.id),
+          requesterLocation: ourPlayer.location,
+        }),
+        { title: toastTitle, description: toastDescription },
+      );
+      return;
     }
-    // inform the player of the result of clicking the Invite Selected to Conversation Area Button
+    // inform the player of why clicking the Invite Selected to Conversation Area Button did nothing
     toast({
       title: toastTitle,
       description: toastDescription,
-      status: isAllowedToInvite ? 'success' : 'error',
+      status: 'error',
       duration: 9000,
       isClosable: true,
       position: 'top',
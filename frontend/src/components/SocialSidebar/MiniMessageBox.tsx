@@ -2,7 +2,8 @@ import { Button, HStack, Input, useToast } from '@chakra-ui/react';
 import React, { useEffect, useState } from 'react'; // gets rid of eslint error
 import { useSelectedFriends } from '../../classes/TownController';
 import useTownController from '../../hooks/useTownController';
-import { MiniMessage } from '../../types/CoveyTownSocket';
+import { MiniMessageDraft } from '../../types/CoveyTownSocket';
+import useActionOutcomeToast from './useActionOutcomeToast';
 
 /**
  * Creates a Chakra Button and Input text box that allows a given player to send a MiniMessage
@@ -21,12 +22,13 @@ export default function MiniMessageBox(): JSX.Element {
   // Default is false - the player is not currently trying to type in the input box
   const [isInputFocused, setIsInputFocused] = useState(false);
   const toast = useToast();
+  const reportOutcome = useActionOutcomeToast();
 
   const attemptSendMessage = () => {
     let toastTitle = '';
     let toastDescription = '';
-    let toastStatus: 'success' | 'error' | 'info' | 'warning' | undefined = 'error';
-    let toastDuration = 9000;
+    const toastStatus = 'error';
+    const toastDuration = 9000;
     const toastPosition = 'top';
     const toastCharacterLimit = 140;
 
@@ -36,15 +38,17 @@ export default function MiniMessageBox(): JSX.Element {
       if (miniMessageBody.length <= toastCharacterLimit) {
         // If at least 1 friend is selected
         if (selectedFriends.length > 0) {
-          const miniMessageToSend: MiniMessage = {
+          const miniMessageToSend: MiniMessageDraft = {
             sender: townController.ourPlayer.id,
             recipients: selectedFriends.map(friend => friend.id),
             body: miniMessageBody,
           };
-          townController.clickedSendMiniMessage(miniMessageToSend);
-          toastTitle = 'MiniMessage sent!';
-          toastStatus = 'success';
-          toastDuration = 3000;
+          // Let the player know that the message was sent once the townService has stored it
+          reportOutcome(townController.clickedSendMiniMessage(miniMessageToSend), {
+            title: 'MiniMessage sent!',
+          });
+          townController.stoppedTyping(miniMessageToSend.recipients);
+          return;
         } else {
           toastTitle = 'No recipients selected';
           toastDescription = 'Must select at least one friend to send a MiniMessage to.';
@@ -78,6 +82,17 @@ export default function MiniMessageBox(): JSX.Element {
     }
   }, [isInputFocused, townController]);
 
+  // Lets the selected friends know while our player is typing to them
+  const selectedFriendIDs = selectedFriends.map(friend => friend.id);
+  const handleChange = (newBody: string) => {
+    setMiniMessageBody(newBody);
+    if (newBody.trim().length > 0) {
+      townController.startedTyping(selectedFriendIDs);
+    } else {
+      townController.stoppedTyping(selectedFriendIDs);
+    }
+  };
+
   // Allows "enter" key to send the message
   const handleReturnKeyPress = (event: React.KeyboardEvent) => {
     if (isInputFocused && event.key === 'Enter') {
@@ -94,9 +109,12 @@ export default function MiniMessageBox(): JSX.Element {
         size='sm'
         placeholder='Write a MiniMessage...'
         value={miniMessageBody}
-        onChange={event => setMiniMessageBody(event.target.value)}
+        onChange={event => handleChange(event.target.value)}
         onFocus={() => setIsInputFocused(true)}
-        onBlur={() => setIsInputFocused(false)}
+        onBlur={() => {
+          setIsInputFocused(false);
+          townController.stoppedTyping(selectedFriendIDs);
+        }}
         onKeyPress={handleReturnKeyPress}></Input>
       <Button
         title='Send MiniMessage to selected friends'
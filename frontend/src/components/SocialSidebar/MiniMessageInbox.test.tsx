@@ -0,0 +1,62 @@
+import { nanoid } from 'nanoid';
+import { MiniMessage } from '../../types/CoveyTownSocket';
+import { groupMiniMessagesByPlayer, groupMiniMessagesIntoThreads } from './MiniMessageInbox';
+
+describe('MiniMessageInbox', () => {
+  const ourPlayerID = nanoid();
+  const friend1 = nanoid();
+  const friend2 = nanoid();
+  let sentAt = 0;
+  function miniMessage(sender: string, recipients: string[], inReplyTo?: string): MiniMessage {
+    sentAt += 1000;
+    return { id: nanoid(), sender, recipients, body: nanoid(), sentAt, receipts: {}, inReplyTo };
+  }
+
+  describe('groupMiniMessagesByPlayer', () => {
+    it('Groups messages by the other player, with the most recent conversation first', () => {
+      const sentToBoth = miniMessage(ourPlayerID, [friend1, friend2]);
+      const fromFriend1 = miniMessage(friend1, [ourPlayerID]);
+      const fromFriend2 = miniMessage(friend2, [ourPlayerID, friend1]);
+      const conversations = groupMiniMessagesByPlayer(
+        { messages: [sentToBoth, fromFriend1, fromFriend2], lastReadAt: {}, userNames: {} },
+        ourPlayerID,
+      );
+      expect(conversations.map(conversation => conversation.otherPlayerID)).toEqual([
+        friend2,
+        friend1,
+      ]);
+      expect(conversations[0].messages).toEqual([sentToBoth, fromFriend2]);
+      expect(conversations[1].messages).toEqual([sentToBoth, fromFriend1]);
+    });
+    it('Counts the messages received since each conversation was last read', () => {
+      const read = miniMessage(friend1, [ourPlayerID]);
+      const sent = miniMessage(ourPlayerID, [friend1]);
+      const unread = miniMessage(friend1, [ourPlayerID]);
+      const [conversation] = groupMiniMessagesByPlayer(
+        {
+          messages: [read, sent, unread],
+          lastReadAt: { [friend1]: read.sentAt },
+          userNames: {},
+        },
+        ourPlayerID,
+      );
+      expect(conversation.unreadCount).toEqual(1);
+    });
+  });
+  describe('groupMiniMessagesIntoThreads', () => {
+    it('Puts every direct and indirect reply in the thread of the message that started it', () => {
+      const root = miniMessage(friend1, [ourPlayerID]);
+      const other = miniMessage(friend1, [ourPlayerID]);
+      const reply = miniMessage(ourPlayerID, [friend1], root.id);
+      const replyToReply = miniMessage(friend1, [ourPlayerID], reply.id);
+      expect(groupMiniMessagesIntoThreads([root, other, reply, replyToReply])).toEqual([
+        { root, replies: [reply, replyToReply] },
+        { root: other, replies: [] },
+      ]);
+    });
+    it('Starts a new thread for replies to messages that are not in the conversation', () => {
+      const reply = miniMessage(friend1, [ourPlayerID], nanoid());
+      expect(groupMiniMessagesIntoThreads([reply])).toEqual([{ root: reply, replies: [] }]);
+    });
+  });
+});
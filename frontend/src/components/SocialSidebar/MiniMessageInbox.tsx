@@ -0,0 +1,280 @@
+import {
+  Accordion,
+  AccordionButton,
+  AccordionIcon,
+  AccordionItem,
+  AccordionPanel,
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Text,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import React, { useEffect, useState } from 'react';
+import { useMiniMessageInbox, usePlayers, useTypingPlayerIDs } from '../../classes/TownController';
+import useTownController from '../../hooks/useTownController';
+import {
+  MiniMessage,
+  MiniMessageInbox as Inbox,
+  MiniMessageReceiptStatus,
+} from '../../types/CoveyTownSocket';
+import MiniMessageReplyBox from './MiniMessageReplyBox';
+
+/**
+ * The MiniMessages that our player has exchanged with one other player
+ */
+export type MiniMessageConversation = {
+  otherPlayerID: string;
+  messages: MiniMessage[];
+  unreadCount: number;
+};
+
+/**
+ * A MiniMessage that does not reply to any message in its conversation, along with every message that
+ * replies to it, directly or indirectly
+ */
+export type MiniMessageThread = {
+  root: MiniMessage;
+  replies: MiniMessage[];
+};
+
+/**
+ * Groups the messages in an inbox by the other player in each conversation: a message that we received
+ * belongs to the conversation with its sender, and a message that we sent belongs to the conversation with
+ * each of its recipients.
+ *
+ * @param inbox our player's inbox
+ * @param ourPlayerID the ID of our player
+ * @returns the conversations, the one with the most recent message first, with their messages oldest first
+ */
+export function groupMiniMessagesByPlayer(
+  inbox: Inbox,
+  ourPlayerID: string,
+): MiniMessageConversation[] {
+  const conversations = new Map<string, MiniMessageConversation>();
+  inbox.messages.forEach(message => {
+    const otherPlayerIDs = message.sender === ourPlayerID ? message.recipients : [message.sender];
+    otherPlayerIDs.forEach(otherPlayerID => {
+      let conversation = conversations.get(otherPlayerID);
+      if (!conversation) {
+        conversation = { otherPlayerID, messages: [], unreadCount: 0 };
+        conversations.set(otherPlayerID, conversation);
+      }
+      conversation.messages.push(message);
+      if (
+        message.sender === otherPlayerID &&
+        message.sentAt > (inbox.lastReadAt[otherPlayerID] ?? 0)
+      ) {
+        conversation.unreadCount++;
+      }
+    });
+  });
+  const latestSentAt = (conversation: MiniMessageConversation) =>
+    conversation.messages[conversation.messages.length - 1].sentAt;
+  return [...conversations.values()].sort((c1, c2) => latestSentAt(c2) - latestSentAt(c1));
+}
+
+/**
+ * Groups the messages of a conversation into threads: each reply belongs to the thread of the message that
+ * it replies to. A reply to a message that is not in the conversation starts its own thread.
+ *
+ * @param messages the messages of a conversation, oldest first
+ * @returns the threads, oldest first, each with its replies oldest first
+ */
+export function groupMiniMessagesIntoThreads(messages: MiniMessage[]): MiniMessageThread[] {
+  const messagesByID = new Map(messages.map(message => [message.id, message]));
+  const threads = new Map<string, MiniMessageThread>();
+  messages.forEach(message => {
+    let root = message;
+    const visited = new Set<string>([root.id]);
+    let parent = root.inReplyTo === undefined ? undefined : messagesByID.get(root.inReplyTo);
+    while (parent && !visited.has(parent.id)) {
+      root = parent;
+      visited.add(root.id);
+      parent = root.inReplyTo === undefined ? undefined : messagesByID.get(root.inReplyTo);
+    }
+    let thread = threads.get(root.id);
+    if (!thread) {
+      thread = { root, replies: [] };
+      threads.set(root.id, thread);
+    }
+    if (message !== root) {
+      thread.replies.push(message);
+    }
+  });
+  return [...threads.values()];
+}
+
+/**
+ * The color of the badge for each status of a MiniMessage
+ */
+const receiptColorSchemes: Record<MiniMessageReceiptStatus, string> = {
+  pending: 'gray',
+  delivered: 'blue',
+  read: 'green',
+};
+
+type MiniMessageReceiptsProps = {
+  message: MiniMessage;
+  userName: (playerID: string) => string;
+};
+
+/**
+ * Shows whether each recipient of one of our player's MiniMessages has received and read it. The message
+ * stays pending for recipients who were offline when it was sent, until they return.
+ */
+function MiniMessageReceipts({ message, userName }: MiniMessageReceiptsProps): JSX.Element {
+  return (
+    <Wrap spacing={1}>
+      {message.recipients.map(recipientID => {
+        const status = message.receipts[recipientID] ?? 'pending';
+        return (
+          <WrapItem key={recipientID}>
+            <Badge
+              fontSize='2xs'
+              colorScheme={receiptColorSchemes[status]}
+              title={`${userName(recipientID)}: ${status}`}>
+              {userName(recipientID)}: {status}
+            </Badge>
+          </WrapItem>
+        );
+      })}
+    </Wrap>
+  );
+}
+
+/**
+ * Lists every MiniMessage that our player has sent and received, grouped by the other player in each
+ * conversation, with a badge counting the unread messages in each. Expanding a conversation shows its
+ * messages as threads, and marks it as read. Each message that our player received can be replied to, and
+ * each message that our player sent shows whether each of its recipients has received and read it. Friends
+ * who are typing to our player are marked as such.
+ *
+ * The inbox is kept by the townService, so it includes messages from before our player joined (or
+ * reloaded) the town, and from players who are no longer in the town.
+ *
+ * See relevant hooks: useMiniMessageInbox, usePlayers, useTypingPlayerIDs
+ *
+ * Called in the SocialSidebar component.
+ */
+export default function MiniMessageInbox(): JSX.Element {
+  const townController = useTownController();
+  const inbox = useMiniMessageInbox();
+  const players = usePlayers();
+  const typingPlayerIDs = useTypingPlayerIDs();
+  const [openPlayerID, setOpenPlayerID] = useState<string | undefined>(undefined);
+  const [replyingToID, setReplyingToID] = useState<string | undefined>(undefined);
+  const conversations = groupMiniMessagesByPlayer(inbox, townController.ourPlayer.id);
+  const totalUnread = conversations.reduce((total, { unreadCount }) => total + unreadCount, 0);
+
+  const userName = (playerID: string) =>
+    players.find(player => player.id === playerID)?.userName ??
+    inbox.userNames[playerID] ??
+    'Unknown player';
+
+  // Keep the open conversation read as new messages arrive in it
+  const openConversation = conversations.find(
+    conversation => conversation.otherPlayerID === openPlayerID,
+  );
+  const openUnreadCount = openConversation?.unreadCount ?? 0;
+  useEffect(() => {
+    if (openPlayerID !== undefined && openUnreadCount > 0) {
+      townController.readMiniMessagesWith(openPlayerID);
+    }
+  }, [townController, openPlayerID, openUnreadCount]);
+
+  const renderMessage = (message: MiniMessage) => (
+    <Box key={message.id}>
+      <Text fontSize='xs' color='gray.500'>
+        {message.sender === townController.ourPlayer.id ? 'You' : userName(message.sender)},{' '}
+        {new Date(message.sentAt).toLocaleString()}
+      </Text>
+      <Text fontSize='sm'>{message.body}</Text>
+      {message.sender === townController.ourPlayer.id && (
+        <MiniMessageReceipts message={message} userName={userName} />
+      )}
+      {message.sender !== townController.ourPlayer.id && (
+        <Button
+          size='xs'
+          variant='link'
+          onClick={() => setReplyingToID(replyingToID === message.id ? undefined : message.id)}>
+          Reply
+        </Button>
+      )}
+      {replyingToID === message.id && (
+        <MiniMessageReplyBox message={message} onSent={() => setReplyingToID(undefined)} />
+      )}
+    </Box>
+  );
+
+  const openIndex = conversations.findIndex(
+    conversation => conversation.otherPlayerID === openPlayerID,
+  );
+
+  return (
+    <Box>
+      <Heading as='h2' fontSize='l' style={{ paddingBottom: '5px' }}>
+        MiniMessages:{' '}
+        {totalUnread > 0 && (
+          <Badge colorScheme='red' aria-label='unreadMiniMessages'>
+            {totalUnread}
+          </Badge>
+        )}
+      </Heading>
+      {conversations.length === 0 ? (
+        <>No MiniMessages yet</>
+      ) : (
+        <Accordion
+          allowToggle
+          index={openIndex}
+          onChange={expandedIndex =>
+            setOpenPlayerID(
+              typeof expandedIndex === 'number'
+                ? conversations[expandedIndex]?.otherPlayerID
+                : undefined,
+            )
+          }>
+          {conversations.map(conversation => (
+            <AccordionItem key={conversation.otherPlayerID}>
+              <AccordionButton>
+                <HStack flex='1' textAlign='left'>
+                  <Text>{userName(conversation.otherPlayerID)}</Text>
+                  {conversation.unreadCount > 0 && (
+                    <Badge colorScheme='red'>{conversation.unreadCount}</Badge>
+                  )}
+                  {typingPlayerIDs.includes(conversation.otherPlayerID) && (
+                    <Text fontSize='xs' fontStyle='italic' color='gray.500'>
+                      typing…
+                    </Text>
+                  )}
+                </HStack>
+                <AccordionIcon />
+              </AccordionButton>
+              <AccordionPanel>
+                <VStack align='left' spacing={2}>
+                  {groupMiniMessagesIntoThreads(conversation.messages).map(thread => (
+                    <Box key={thread.root.id}>
+                      {renderMessage(thread.root)}
+                      <VStack
+                        align='left'
+                        spacing={1}
+                        paddingLeft={3}
+                        borderLeft='2px'
+                        borderColor='gray.200'>
+                        {thread.replies.map(renderMessage)}
+                      </VStack>
+                    </Box>
+                  ))}
+                </VStack>
+              </AccordionPanel>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </Box>
+  );
+}
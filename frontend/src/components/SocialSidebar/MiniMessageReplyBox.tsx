@@ -0,0 +1,132 @@
+import { Button, Checkbox, HStack, Input, useToast, VStack } from '@chakra-ui/react';
+import React, { useEffect, useState } from 'react';
+import { useCurrentPlayerFriends } from '../../classes/TownController';
+import useTownController from '../../hooks/useTownController';
+import { MiniMessage, MiniMessageDraft } from '../../types/CoveyTownSocket';
+import useActionOutcomeToast from './useActionOutcomeToast';
+
+type MiniMessageReplyBoxProps = {
+  message: MiniMessage;
+  onSent: () => void;
+};
+
+/**
+ * Creates a Chakra Input text box and Button that allows our player to reply to a MiniMessage that they
+ * received. The reply goes to the message's sender, or, if "Reply to all" is checked, also to the other
+ * recipients of a group message who are our player's friends in the town.
+ *
+ * @param props the message to reply to, and a callback for once the townService has stored the reply
+ * @returns {JSX.Element} a Chakra VStack containing the reply input box, the "Reply to all" checkbox for
+ *                        group messages, and the button that sends the reply
+ *
+ * See relevant hooks: useTownController, useCurrentPlayerFriends
+ *
+ * Used in the MiniMessageInbox component
+ */
+export default function MiniMessageReplyBox({
+  message,
+  onSent,
+}: MiniMessageReplyBoxProps): JSX.Element {
+  const townController = useTownController();
+  const friends = useCurrentPlayerFriends();
+  const [replyBody, setReplyBody] = useState<string>('');
+  const [replyToAll, setReplyToAll] = useState<boolean>(false);
+  const [isInputFocused, setIsInputFocused] = useState(false);
+  const toast = useToast();
+  const reportOutcome = useActionOutcomeToast();
+  const characterLimit = 140;
+
+  const otherRecipients = message.recipients.filter(
+    recipientID =>
+      recipientID !== townController.ourPlayer.id &&
+      recipientID !== message.sender &&
+      friends.some(friend => friend.id === recipientID),
+  );
+
+  const recipients = replyToAll ? [message.sender, ...otherRecipients] : [message.sender];
+
+  // Lets the recipients know while our player is typing to them
+  const handleChange = (newBody: string) => {
+    setReplyBody(newBody);
+    if (newBody.trim().length > 0) {
+      townController.startedTyping(recipients);
+    } else {
+      townController.stoppedTyping(recipients);
+    }
+  };
+
+  const attemptSendReply = async () => {
+    if (replyBody.trim().length === 0 || replyBody.length > characterLimit) {
+      toast({
+        title: replyBody.trim().length === 0 ? 'Reply is blank' : 'Reply too long',
+        description: `Replies must have between 1 and ${characterLimit} characters.`,
+        status: 'error',
+        isClosable: true,
+        position: 'top',
+      });
+      return;
+    }
+    const reply: MiniMessageDraft = {
+      sender: townController.ourPlayer.id,
+      recipients,
+      body: replyBody,
+      inReplyTo: message.id,
+    };
+    const sent = townController.clickedSendMiniMessage(reply);
+    townController.stoppedTyping(recipients);
+    // Keep the reply in the box if it could not be sent, so that the player can try again
+    if (await reportOutcome(sent)) {
+      setReplyBody('');
+      onSent();
+    }
+  };
+
+  // Prevents player from moving when typing in the input box, and allows player to move again
+  // once they have clicked out of the input box
+  useEffect(() => {
+    if (isInputFocused) {
+      townController.pause();
+    } else {
+      townController.unPause();
+    }
+  }, [isInputFocused, townController]);
+
+  // Allows "enter" key to send the reply
+  const handleReturnKeyPress = (event: React.KeyboardEvent) => {
+    if (isInputFocused && event.key === 'Enter') {
+      event.preventDefault();
+      attemptSendReply();
+    }
+  };
+
+  return (
+    <VStack align='left' spacing={1} mt='1'>
+      <HStack>
+        <Input
+          size='xs'
+          rounded='md'
+          placeholder='Write a reply...'
+          value={replyBody}
+          onChange={event => handleChange(event.target.value)}
+          onFocus={() => setIsInputFocused(true)}
+          onBlur={() => {
+            setIsInputFocused(false);
+            townController.stoppedTyping(recipients);
+          }}
+          onKeyPress={handleReturnKeyPress}
+        />
+        <Button size='xs' title='Send reply' onClick={attemptSendReply}>
+          Send
+        </Button>
+      </HStack>
+      {otherRecipients.length > 0 && (
+        <Checkbox
+          size='sm'
+          isChecked={replyToAll}
+          onChange={event => setReplyToAll(event.target.checked)}>
+          Reply to all
+        </Checkbox>
+      )}
+    </VStack>
+  );
+}
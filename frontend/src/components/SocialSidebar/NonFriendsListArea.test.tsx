@@ -60,6 +60,7 @@ describe('NonFriendsInTownList', () => {
   let useTownControllerSpy: jest.SpyInstance<TownController, []>;
   let useFriendsSpy: jest.SpyInstance<PlayerController[], []>;
   let useFriendRequestsSpy: jest.SpyInstance<PlayerToPlayerUpdate[], []>;
+  let useBlockedPlayerIDsSpy: jest.SpyInstance<string[], []>;
   let players: PlayerController[] = [];
   let friends: PlayerController[] = [];
   let friendRequests: PlayerToPlayerUpdate[] = [];
@@ -100,6 +101,7 @@ describe('NonFriendsInTownList', () => {
     useTownControllerSpy = jest.spyOn(useTownController, 'default');
     useFriendsSpy = jest.spyOn(TownControllerHooks, 'useCurrentPlayerFriends');
     useFriendRequestsSpy = jest.spyOn(TownControllerHooks, 'useCurrentPlayerFriendRequests');
+    useBlockedPlayerIDsSpy = jest.spyOn(TownControllerHooks, 'useBlockedPlayerIDs');
   });
 
   beforeEach(() => {
@@ -118,6 +120,7 @@ describe('NonFriendsInTownList', () => {
     usePlayersSpy.mockReturnValue(players);
     useFriendsSpy.mockReturnValue(friends);
     useFriendRequestsSpy.mockReturnValue(friendRequests);
+    useBlockedPlayerIDsSpy.mockReturnValue([]);
     townID = nanoid();
     townFriendlyName = nanoid();
     const mockedTownController = mockTownController({ friendlyName: townFriendlyName, townID });
@@ -167,6 +170,25 @@ describe('NonFriendsInTownList', () => {
       expect(friends).toEqual(copyOfArrayPassedToComponent); // expect that the players array is unchanged by the compoennt
     });
   });
+  describe('Blocking', () => {
+    it('Offers to block every other player who is not blocked', async () => {
+      const renderData = renderNonFriendsList();
+      const blockButtons = await renderData.findAllByRole('button', { name: 'Block' });
+      expect(blockButtons.length).toBe(players.length);
+    });
+    it('Only offers to unblock players who are blocked', async () => {
+      useBlockedPlayerIDsSpy.mockReturnValue([players[0].id]);
+      const renderData = renderNonFriendsList();
+      const listEntries = await renderData.findAllByRole('listitem');
+      const blockedEntry = listEntries.find(entry =>
+        entry.textContent?.includes(players[0].userName),
+      );
+      expect(blockedEntry).toHaveTextContent('Unblock');
+      expect(blockedEntry).not.toHaveTextContent('Send Friend Request');
+      const blockButtons = await renderData.findAllByRole('button', { name: 'Block' });
+      expect(blockButtons.length).toBe(players.length - 1);
+    });
+  });
   it('Renders a list of all not-friend user names, without checking sort', async () => {
     // Players array is already sorted correctly
     const renderData = renderNonFriendsList();
@@ -2,6 +2,7 @@ import { Box, Heading, OrderedList } from '@chakra-ui/react';
 import React, { useEffect, useState } from 'react';
 import PlayerController from '../../classes/PlayerController';
 import {
+  useBlockedPlayerIDs,
   useCurrentPlayerFriendRequests,
   useCurrentPlayerFriends,
   usePlayers,
@@ -27,10 +28,10 @@ export function playerIsInList(givenPlayer: PlayerController, playerList: Player
 
 /**
  * Lists the current nonfriended players in the town (via their username), along with buttons
- * to send/cancel/accept/decline friend requests.
+ * to send/cancel/accept/decline friend requests and to block or unblock each player.
  *
- * See relevant hooks: `usePlayersInTown`, `useCoveyAppState`, `useCurrentPlayerFriends` and
- * `useCurrentPlayerFriendRequests`
+ * See relevant hooks: `usePlayersInTown`, `useCoveyAppState`, `useCurrentPlayerFriends`,
+ * `useCurrentPlayerFriendRequests` and `useBlockedPlayerIDs`
  *
  * Uses NonFriendsListItem component to render list and is used in SocialSidebar
  *
@@ -40,6 +41,7 @@ export default function NonFriendsInTownList(): JSX.Element {
   const players = usePlayers();
   const friends = useCurrentPlayerFriends();
   const friendRequests = useCurrentPlayerFriendRequests();
+  const blockedPlayerIDs = useBlockedPlayerIDs();
 
   // Set up a nonfriends list to be updated every time the players and/or friends list changes
   const [nonFriendPlayers, setPlayerNonFriends] = useState<PlayerController[]>(players);
@@ -61,6 +63,10 @@ export default function NonFriendsInTownList(): JSX.Element {
     if (player.id == townController.ourPlayer.id) {
       return 'you';
     }
+    // Blocked players can only be unblocked
+    if (blockedPlayerIDs.includes(player.id)) {
+      return 'blocked';
+    }
     // Loop through friend requests and check if given player is in any of them
     for (const request of friendRequests) {
       if (player.id === request.actor) {
@@ -3,6 +3,7 @@ import React from 'react';
 import PlayerController from '../../classes/PlayerController';
 import useTownController from '../../hooks/useTownController';
 import PlayerName from './PlayerName';
+import useActionOutcomeToast from './useActionOutcomeToast';
 
 type NonFriendPlayerProps = {
   player: PlayerController;
@@ -11,7 +12,8 @@ type NonFriendPlayerProps = {
 
 /**
  * Represents a singular item in the list of non-friended players. Contains the player's username,
- * and associated button (send, cancel, accept/decline) OR the descriptive "(me)" to indicate
+ * and associated button (send, cancel, accept/decline) along with a Block button, OR an Unblock
+ * button for a player that our player has blocked, OR the descriptive "(me)" to indicate
  * this particular player is the TownController.ourPlayer.
  *
  * See relevant hooks: `useTownController`
@@ -23,6 +25,7 @@ export default function NonFriendsListItem({
   buttonType,
 }: NonFriendPlayerProps): JSX.Element {
   const townController = useTownController();
+  const reportOutcome = useActionOutcomeToast();
   const buttonSize = 'xs';
 
   // Determine which HTML element/button to render
@@ -36,10 +39,12 @@ export default function NonFriendsListItem({
         colorScheme={'blue'}
         size={buttonSize}
         onClick={() => {
-          townController.clickedSendRequest({
-            actor: townController.ourPlayer.id,
-            affected: player.id,
-          });
+          reportOutcome(
+            townController.clickedSendRequest({
+              actor: townController.ourPlayer.id,
+              affected: player.id,
+            }),
+          );
         }}>
         Send Friend Request
       </Button>
@@ -51,10 +56,12 @@ export default function NonFriendsListItem({
         variant={'outline'}
         size={buttonSize}
         onClick={() => {
-          townController.clickedCancelRequest({
-            actor: townController.ourPlayer.id,
-            affected: player.id,
-          });
+          reportOutcome(
+            townController.clickedCancelRequest({
+              actor: townController.ourPlayer.id,
+              affected: player.id,
+            }),
+          );
         }}>
         Cancel Friend Request
       </Button>
@@ -66,10 +73,12 @@ export default function NonFriendsListItem({
           colorScheme={'blue'}
           size={buttonSize}
           onClick={() => {
-            townController.clickedAcceptFriendRequest({
-              actor: townController.ourPlayer.id,
-              affected: player.id,
-            });
+            reportOutcome(
+              townController.clickedAcceptFriendRequest({
+                actor: townController.ourPlayer.id,
+                affected: player.id,
+              }),
+            );
           }}>
           Accept Friend Request
         </Button>
@@ -77,17 +86,54 @@ export default function NonFriendsListItem({
           colorScheme={'red'}
           size='xs'
           onClick={() => {
-            townController.clickedDeclineFriendRequest({
-              actor: townController.ourPlayer.id,
-              affected: player.id,
-            });
+            reportOutcome(
+              townController.clickedDeclineFriendRequest({
+                actor: townController.ourPlayer.id,
+                affected: player.id,
+              }),
+            );
           }}>
           Decline
         </Button>
       </HStack>
     );
+  } else if (buttonType === 'blocked') {
+    button = (
+      <Button
+        variant={'outline'}
+        size={buttonSize}
+        onClick={() => {
+          reportOutcome(
+            townController.clickedUnblockPlayer({
+              actor: townController.ourPlayer.id,
+              affected: player.id,
+            }),
+          );
+        }}>
+        Unblock
+      </Button>
+    );
   }
 
+  // Every other player can be blocked, which also stops their friend requests
+  const blockButton = buttonType !== 'you' && buttonType !== 'blocked' && (
+    <Button
+      colorScheme={'red'}
+      variant={'ghost'}
+      size={buttonSize}
+      title='Block this player'
+      onClick={() => {
+        reportOutcome(
+          townController.clickedBlockPlayer({
+            actor: townController.ourPlayer.id,
+            affected: player.id,
+          }),
+        );
+      }}>
+      Block
+    </Button>
+  );
+
   // Includes a space between PlayerName and button so they're not glued to each other
   return (
     <ListItem key={player.id} style={{ paddingTop: '5px' }}>
@@ -95,6 +141,7 @@ export default function NonFriendsListItem({
         <PlayerName player={player} />
         <span> </span>
         {button}
+        {blockButton}
       </HStack>
     </ListItem>
   );
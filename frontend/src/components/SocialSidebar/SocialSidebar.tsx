@@ -4,10 +4,12 @@ import ConversationAreasList from './ConversationAreasList';
 import useTownController from '../../hooks/useTownController';
 import NonFriendsInTownList from './NonFriendsListArea';
 import FriendsInTownList from './FriendsListArea';
+import MiniMessageInbox from './MiniMessageInbox';
 
 /**
  * Displays the current town name & ID, lists the not-friended players in the Town, lists
- * the friended players in the Town, and lists the active conversation areas.
+ * the friended players in the Town, lists the active conversation areas, and shows our player's
+ * MiniMessage inbox.
  *
  * Also includes buttons for sending mini-messages to friends, teleporting to them, and opening
  * a list of conversation area invites.
@@ -36,6 +38,7 @@ export default function SocialSidebar(): JSX.Element {
       <FriendsInTownList />
       <NonFriendsInTownList />
       <ConversationAreasList />
+      <MiniMessageInbox />
     </VStack>
   );
 }
@@ -0,0 +1,50 @@
+import { useToast } from '@chakra-ui/react';
+import { useCallback } from 'react';
+
+type SuccessToast = {
+  title: string;
+  description?: string;
+};
+
+/**
+ * Returns a function that reports the outcome of one of our player's actions once the townService has
+ * processed it (@see TownController.clickedSendRequest and the other clicked* methods): an error toast
+ * explaining why the action failed, or, if a success toast is given, that toast once it succeeded.
+ *
+ * @returns a function that takes the promise returned by the action and the optional success toast, and
+ *  resolves to whether the action succeeded
+ */
+export default function useActionOutcomeToast(): (
+  action: Promise<void>,
+  success?: SuccessToast,
+) => Promise<boolean> {
+  const toast = useToast();
+  return useCallback(
+    async (action: Promise<void>, success?: SuccessToast) => {
+      try {
+        await action;
+      } catch (e) {
+        toast({
+          title: 'Unable to complete that action',
+          description: e instanceof Error ? e.message : String(e),
+          status: 'error',
+          duration: 9000,
+          isClosable: true,
+          position: 'top',
+        });
+        return false;
+      }
+      if (success) {
+        toast({
+          ...success,
+          status: 'success',
+          duration: 3000,
+          isClosable: true,
+          position: 'top',
+        });
+      }
+      return true;
+    },
+    [toast],
+  );
+}
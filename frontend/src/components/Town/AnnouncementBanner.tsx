@@ -0,0 +1,24 @@
+import { Alert, AlertDescription, AlertIcon, Stack } from '@chakra-ui/react';
+import React from 'react';
+import { useActiveAnnouncements } from '../../classes/TownController';
+
+/**
+ * Shows each of the town owner's active announcements in a banner, which stays up until the
+ * announcement expires. Renders nothing when there are no active announcements.
+ */
+export default function AnnouncementBanner(): JSX.Element {
+  const announcements = useActiveAnnouncements();
+  if (announcements.length === 0) {
+    return <></>;
+  }
+  return (
+    <Stack spacing={0} aria-label='Announcements'>
+      {announcements.map(announcement => (
+        <Alert key={announcement.id} status='info' variant='solid'>
+          <AlertIcon />
+          <AlertDescription>{announcement.message}</AlertDescription>
+        </Alert>
+      ))}
+    </Stack>
+  );
+}
@@ -22,6 +22,11 @@ function interactableTypeForObjectType(type: string): any {
   }
 }
 
+/**
+ * The part of a Tiled JSON map that is needed to load its tileset images before Phaser parses the map
+ */
+type TiledMapData = { tilesets: { name: string }[] };
+
 // Original inspiration and code from:
 // https://medium.com/@michaelwesthadley/modular-game-worlds-in-phaser-3-tilemaps-1-958fc7e6bbd6
 
@@ -87,39 +92,18 @@ export default class TownGameScene extends Phaser.Scene {
   }
 
   preload() {
-    this.load.image(
-      'Room_Builder_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/Room_Builder_32x32.png',
-    );
-    this.load.image(
-      '22_Museum_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/22_Museum_32x32.png',
-    );
-    this.load.image(
-      '5_Classroom_and_library_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/5_Classroom_and_library_32x32.png',
-    );
-    this.load.image(
-      '12_Kitchen_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/12_Kitchen_32x32.png',
-    );
-    this.load.image(
-      '1_Generic_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/1_Generic_32x32.png',
-    );
-    this.load.image(
-      '13_Conference_Hall_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/13_Conference_Hall_32x32.png',
+    // Load the map that the town was created from, and then the image of each tileset that the map
+    // uses. The townsService serves both, including maps that were uploaded to it.
+    const { mapURL } = this.coveyTownController;
+    this.load.once(
+      'filecomplete-tilemapJSON-map',
+      (_key: string, _type: string, tilemap: { data: TiledMapData }) => {
+        tilemap.data.tilesets.forEach((eachTileset, index) =>
+          this.load.image(eachTileset.name, `${mapURL}/tilesets/${index}`),
+        );
+      },
     );
-    this.load.image(
-      '14_Basement_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/14_Basement_32x32.png',
-    );
-    this.load.image(
-      '16_Grocery_store_32x32',
-      this._resourcePathPrefix + '/assets/tilesets/16_Grocery_store_32x32.png',
-    );
-    this.load.tilemapTiledJSON('map', this._resourcePathPrefix + '/assets/tilemaps/indoors.json');
+    this.load.tilemapTiledJSON('map', mapURL);
     this.load.atlas(
       'atlas',
       this._resourcePathPrefix + '/assets/atlas/atlas.png',
@@ -309,38 +293,36 @@ export default class TownGameScene extends Phaser.Scene {
     /* Parameters are the name you gave the tileset in Tiled and then the key of the
          tileset image in Phaser's cache (i.e. the name you used in preload)
          */
-    const tileset = [
-      'Room_Builder_32x32',
-      '22_Museum_32x32',
-      '5_Classroom_and_library_32x32',
-      '12_Kitchen_32x32',
-      '1_Generic_32x32',
-      '13_Conference_Hall_32x32',
-      '14_Basement_32x32',
-      '16_Grocery_store_32x32',
-    ].map(v => this.map.addTilesetImage(v));
+    const tileset = this.map.tilesets.map(eachTileset =>
+      this.map.addTilesetImage(eachTileset.name),
+    );
 
     // Parameters: layer name (or index) from Tiled, tileset, x, y
-    const belowLayer = this.map.createLayer('Below Player', tileset, 0, 0);
-    belowLayer.setDepth(-10);
-    const wallsLayer = this.map.createLayer('Walls', tileset, 0, 0);
-    const onTheWallsLayer = this.map.createLayer('On The Walls', tileset, 0, 0);
-    wallsLayer.setCollisionByProperty({ collides: true });
-    onTheWallsLayer.setCollisionByProperty({ collides: true });
-
-    const worldLayer = this.map.createLayer('World', tileset, 0, 0);
-    worldLayer.setCollisionByProperty({ collides: true });
-    const aboveLayer = this.map.createLayer('Above Player', tileset, 0, 0);
-    aboveLayer.setCollisionByProperty({ collides: true });
-
-    const veryAboveLayer = this.map.createLayer('Very Above Player', tileset, 0, 0);
+    // Not every map has every layer, so layers that the map does not have are left undefined
+    const createLayer = (layerName: string) =>
+      this.map.getLayerIndex(layerName) === null
+        ? undefined
+        : this.map.createLayer(layerName, tileset, 0, 0);
+    const belowLayer = createLayer('Below Player');
+    belowLayer?.setDepth(-10);
+    const wallsLayer = createLayer('Walls');
+    const onTheWallsLayer = createLayer('On The Walls');
+    wallsLayer?.setCollisionByProperty({ collides: true });
+    onTheWallsLayer?.setCollisionByProperty({ collides: true });
+
+    const worldLayer = createLayer('World');
+    worldLayer?.setCollisionByProperty({ collides: true });
+    const aboveLayer = createLayer('Above Player');
+    aboveLayer?.setCollisionByProperty({ collides: true });
+
+    const veryAboveLayer = createLayer('Very Above Player');
     /* By default, everything gets depth sorted on the screen in the order we created things.
          Here, we want the "Above Player" layer to sit on top of the player, so we explicitly give
          it a depth. Higher depths will sit on top of lower depth objects.
          */
-    worldLayer.setDepth(5);
-    aboveLayer.setDepth(10);
-    veryAboveLayer.setDepth(15);
+    worldLayer?.setDepth(5);
+    aboveLayer?.setDepth(10);
+    veryAboveLayer?.setDepth(15);
 
     // Object layers in Tiled let you embed extra info into a map - like a spawn point or custom
     // collision shapes. In the tmx file, there's an object layer with a point named "Spawn Point"
@@ -411,10 +393,11 @@ export default class TownGameScene extends Phaser.Scene {
     this.moveOurPlayerTo({ rotation: 'front', moving: false, x: spawnPoint.x, y: spawnPoint.y });
 
     // Watch the player and worldLayer for collisions, for the duration of the scene:
-    this.physics.add.collider(sprite, worldLayer);
-    this.physics.add.collider(sprite, wallsLayer);
-    this.physics.add.collider(sprite, aboveLayer);
-    this.physics.add.collider(sprite, onTheWallsLayer);
+    [worldLayer, wallsLayer, aboveLayer, onTheWallsLayer].forEach(eachLayer => {
+      if (eachLayer) {
+        this.physics.add.collider(sprite, eachLayer);
+      }
+    });
 
     // Create the player's walking animations from the texture atlas. These are stored in the global
     // animation manager so any sprite can access them.
@@ -467,6 +450,7 @@ export default class TownGameScene extends Phaser.Scene {
     const camera = this.cameras.main;
     camera.startFollow(this.coveyTownController.ourPlayer.gameObjects.sprite);
     camera.setBounds(0, 0, this.map.widthInPixels, this.map.heightInPixels);
+    this.coveyTownController.emitViewportChange({ width: camera.width, height: camera.height });
 
     // Help text that has a "fixed" position on the screen
     this.add
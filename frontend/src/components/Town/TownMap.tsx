@@ -4,7 +4,14 @@ import React, { useEffect } from 'react';
 import PlayerController from '../../classes/PlayerController';
 import { usePlayers } from '../../classes/TownController';
 import useTownController from '../../hooks/useTownController';
-import { MiniMessage, PlayerToPlayerUpdate } from '../../types/CoveyTownSocket';
+import {
+  MiniMessage,
+  ModerationNotice,
+  MuteNotice,
+  PlayerToPlayerUpdate,
+  RateLimitNotice,
+  SocialEventRejection,
+} from '../../types/CoveyTownSocket';
 import SocialSidebar from '../SocialSidebar/SocialSidebar';
 import NewConversationModal from './interactables/NewCoversationModal';
 import TownGameScene from './TownGameScene';
@@ -77,6 +84,82 @@ export default function TownMap(): JSX.Element {
     };
   }, [townController, toast, players]);
 
+  // Set up a toast message to be displayed when the townService refuses one of ourPlayer's
+  // social events
+  useEffect(() => {
+    const renderSocialEventRejectedToast = (rejection: SocialEventRejection) => {
+      toast({
+        title: 'Unable to complete that action',
+        description: rejection.message,
+        status: 'error',
+        duration: 9000,
+        isClosable: true,
+      });
+    };
+    townController.addListener('socialEventRejected', renderSocialEventRejectedToast);
+    return () => {
+      townController.removeListener('socialEventRejected', renderSocialEventRejectedToast);
+    };
+  }, [townController, toast]);
+
+  // Set up a toast message to be displayed when the townService drops some of ourPlayer's events for
+  // being sent too often. A flood of events is dropped one at a time, so only one toast is shown at once.
+  useEffect(() => {
+    const rateLimitedToastID = 'rateLimited';
+    const renderRateLimitedToast = (notice: RateLimitNotice) => {
+      if (toast.isActive(rateLimitedToastID)) {
+        return;
+      }
+      toast({
+        id: rateLimitedToastID,
+        title: 'Slow down',
+        description: `You are doing that too often. Try again in ${Math.ceil(
+          notice.retryAfterMs / 1000,
+        )} seconds.`,
+        status: 'warning',
+        duration: 5000,
+        isClosable: true,
+      });
+    };
+    townController.addListener('rateLimited', renderRateLimitedToast);
+    return () => {
+      townController.removeListener('rateLimited', renderRateLimitedToast);
+    };
+  }, [townController, toast]);
+
+  // Set up toast messages to be displayed when the town's owner kicks, bans or mutes ourPlayer. The
+  // toasts for being kicked or banned stay up after we leave the town.
+  useEffect(() => {
+    const renderRemovedToast = (title: string) => (notice: ModerationNotice) => {
+      toast({
+        title,
+        description: notice.reason,
+        status: 'error',
+        duration: null,
+        isClosable: true,
+      });
+    };
+    const renderKickedToast = renderRemovedToast('You were removed from the town');
+    const renderBannedToast = renderRemovedToast('You were banned from the town');
+    const renderMutedToast = (notice: MuteNotice) => {
+      toast({
+        title: `You are muted until ${new Date(notice.mutedUntil).toLocaleTimeString()}`,
+        description: notice.reason,
+        status: 'warning',
+        duration: 9000,
+        isClosable: true,
+      });
+    };
+    townController.addListener('playerKicked', renderKickedToast);
+    townController.addListener('playerBanned', renderBannedToast);
+    townController.addListener('playerMuted', renderMutedToast);
+    return () => {
+      townController.removeListener('playerKicked', renderKickedToast);
+      townController.removeListener('playerBanned', renderBannedToast);
+      townController.removeListener('playerMuted', renderMutedToast);
+    };
+  }, [townController, toast]);
+
   useEffect(() => {
     const config = {
       type: Phaser.AUTO,
@@ -25,8 +25,8 @@ export const ChatProvider: React.FC = ({ children }) => {
     if (conversation) {
       const handleMessageAdded = (message: ChatMessage) =>
         setMessages(oldMessages => [...oldMessages, message]);
-      //TODO - store entire message queue on server?
-      // conversation.getMessages().then(newMessages => setMessages(newMessages.items));
+      // The conversation replays the town's chat history, and then every message since, to the handler
+      setMessages([]);
       conversation.onMessageAdded(handleMessageAdded);
       return () => {
         conversation.offMessageAdded(handleMessageAdded);
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Tab, Tabs } from '@material-ui/core';
+import { makeStyles, createStyles } from '@material-ui/core/styles';
+import { chatChannelKey, townChannel } from '../../../../../../classes/TextConversation';
+import {
+  useCurrentPlayerFriends,
+  useOurConversationArea,
+  usePlayers,
+} from '../../../../../../classes/TownController';
+import useTownController from '../../../../../../hooks/useTownController';
+import { ChatChannel, ChatMessage } from '../../../../../../types/CoveyTownSocket';
+
+const useStyles = makeStyles(() =>
+  createStyles({
+    tabs: {
+      borderBottom: '1px solid #E4E7E9',
+      minHeight: '36px',
+    },
+    tab: {
+      minWidth: 'auto',
+      minHeight: '36px',
+      textTransform: 'none',
+    },
+  })
+);
+
+export type ChannelTab = {
+  key: string;
+  label: string;
+  channel: ChatChannel;
+};
+
+/**
+ * Lists the chat channels that our player can use: the whole town, the conversation area that they
+ * are in (if any), and a direct channel with each friend who is in the town or who has messaged them.
+ *
+ * @param messages every chat message that we have received, which may include direct messages from
+ *  friends who are not in the town right now
+ */
+export function useChannelTabs(messages: ChatMessage[]): ChannelTab[] {
+  const townController = useTownController();
+  const ourConversationArea = useOurConversationArea();
+  const friends = useCurrentPlayerFriends();
+  const players = usePlayers();
+  const ourID = townController.ourPlayer.id;
+
+  const tabs: ChannelTab[] = [{ key: chatChannelKey(townChannel), label: 'Town', channel: townChannel }];
+  if (ourConversationArea) {
+    const channel: ChatChannel = { type: 'conversationArea', conversationAreaID: ourConversationArea.id };
+    tabs.push({ key: chatChannelKey(channel), label: ourConversationArea.topic || 'Conversation', channel });
+  }
+  const directPartnerIDs = new Set(friends.map(friend => friend.id));
+  messages.forEach(message => {
+    if (message.channel.type === 'direct') {
+      message.channel.playerIDs.filter(id => id !== ourID).forEach(id => directPartnerIDs.add(id));
+    }
+  });
+  directPartnerIDs.forEach(partnerID => {
+    const channel: ChatChannel = { type: 'direct', playerIDs: [ourID, partnerID].sort() };
+    const partnerName =
+      players.find(player => player.id === partnerID)?.userName ??
+      messages.find(message => message.authorID === partnerID)?.author ??
+      'Friend';
+    tabs.push({ key: chatChannelKey(channel), label: partnerName, channel });
+  });
+  return tabs;
+}
+
+interface ChannelTabsProps {
+  tabs: ChannelTab[];
+  selectedKey: string;
+  onSelect: (key: string) => void;
+}
+
+export default function ChannelTabs({ tabs, selectedKey, onSelect }: ChannelTabsProps) {
+  const classes = useStyles();
+
+  return (
+    <Tabs
+      className={classes.tabs}
+      value={selectedKey}
+      onChange={(_event, key: string) => onSelect(key)}
+      variant="scrollable"
+      scrollButtons="auto"
+      indicatorColor="primary"
+      aria-label="chat channels">
+      {tabs.map(tab => (
+        <Tab key={tab.key} value={tab.key} label={tab.label} className={classes.tab} />
+      ))}
+    </Tabs>
+  );
+}
@@ -4,6 +4,7 @@ import clsx from 'clsx';
 import React, { useEffect, useRef, useState } from 'react';
 import TextConversation from '../../../../../../classes/TextConversation';
 import useTownController from '../../../../../../hooks/useTownController';
+import { ChatChannel } from '../../../../../../types/CoveyTownSocket';
 import { isMobile } from '../../../utils';
 import Snackbar from '../../Snackbar/Snackbar';
 
@@ -60,13 +61,14 @@ const useStyles = makeStyles(theme => ({
 
 interface ChatInputProps {
   conversation: TextConversation;
+  channel: ChatChannel;
   isChatWindowOpen: boolean;
 }
 
 const ALLOWED_FILE_TYPES =
   'audio/*, image/*, text/*, video/*, application/msword, application/vnd.openxmlformats-officedocument.wordprocessingml.document .xslx, .ppt, .pdf, .key, .svg, .csv';
 
-export default function ChatInput({ conversation, isChatWindowOpen }: ChatInputProps) {
+export default function ChatInput({ conversation, channel, isChatWindowOpen }: ChatInputProps) {
   const classes = useStyles();
   const [messageBody, setMessageBody] = useState('');
   const [isSendingFile, setIsSendingFile] = useState(false);
@@ -92,14 +94,24 @@ export default function ChatInput({ conversation, isChatWindowOpen }: ChatInputP
     }
   }, [isChatWindowOpen]);
 
+  // Only the friend in a direct channel is told that we are typing to them
+  const typingRecipientIDs =
+    channel.type === 'direct' ? channel.playerIDs.filter(playerID => playerID !== coveyTownController.ourPlayer.id) : [];
+
   const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessageBody(event.target.value);
+    if (/\S/.test(event.target.value)) {
+      coveyTownController.startedTyping(typingRecipientIDs);
+    } else {
+      coveyTownController.stoppedTyping(typingRecipientIDs);
+    }
   };
 
   const handleSendMessage = (message: string) => {
     if (isValidMessage) {
-      conversation.sendMessage(message.trim());
+      conversation.sendMessage(message.trim(), channel);
       setMessageBody('');
+      coveyTownController.stoppedTyping(typingRecipientIDs);
     }
   };
 
@@ -138,7 +150,10 @@ export default function ChatInput({ conversation, isChatWindowOpen }: ChatInputP
           data-cy-chat-input
           ref={textInputRef}
           onFocus={() => setIsTextareaFocused(true)}
-          onBlur={() => setIsTextareaFocused(false)}
+          onBlur={() => {
+            setIsTextareaFocused(false);
+            coveyTownController.stoppedTyping(typingRecipientIDs);
+          }}
         />
       </div>
     </div>
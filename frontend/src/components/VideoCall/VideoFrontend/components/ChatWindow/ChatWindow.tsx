@@ -1,10 +1,14 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { makeStyles, createStyles, Theme } from '@material-ui/core/styles';
 import ChatWindowHeader from './ChatWindowHeader/ChatWindowHeader';
 import ChatInput from './ChatInput/ChatInput';
 import clsx from 'clsx';
 import MessageList from './MessageList/MessageList';
 import useChatContext from '../../hooks/useChatContext/useChatContext';
+import ChannelTabs, { useChannelTabs } from './ChannelTabs/ChannelTabs';
+import { chatChannelKey } from '../../../../../classes/TextConversation';
+import { useBlockedPlayerIDs, useTypingPlayerIDs } from '../../../../../classes/TownController';
+import useTownController from '../../../../../hooks/useTownController';
 
 const useStyles = makeStyles((theme: Theme) =>
   createStyles({
@@ -32,6 +36,12 @@ const useStyles = makeStyles((theme: Theme) =>
     hide: {
       display: 'none',
     },
+    typingIndicator: {
+      padding: '0.25em 1.2em',
+      fontSize: '12px',
+      fontStyle: 'italic',
+      color: '#606B85',
+    },
   }),
 );
 
@@ -42,12 +52,28 @@ const useStyles = makeStyles((theme: Theme) =>
 export default function ChatWindow() {
   const classes = useStyles();
   const { isChatWindowOpen, messages, conversation } = useChatContext();
+  // Hide the messages of players that we have blocked
+  const blockedPlayerIDs = useBlockedPlayerIDs();
+  const visibleMessages = messages.filter(message => !blockedPlayerIDs.includes(message.authorID));
+  const channelTabs = useChannelTabs(visibleMessages);
+  const [selectedKey, setSelectedKey] = useState(channelTabs[0].key);
+  // Fall back to the town channel when the selected channel goes away, e.g. when we leave a conversation area
+  const selectedTab = channelTabs.find(tab => tab.key === selectedKey) ?? channelTabs[0];
+  const channelMessages = visibleMessages.filter(message => chatChannelKey(message.channel) === selectedTab.key);
+  // Show when the friend in the selected direct channel is typing to us
+  const { ourPlayer } = useTownController();
+  const typingPlayerIDs = useTypingPlayerIDs();
+  const isFriendTyping =
+    selectedTab.channel.type === 'direct' &&
+    selectedTab.channel.playerIDs.some(playerID => playerID !== ourPlayer.id && typingPlayerIDs.includes(playerID));
 
   return (
     <aside className={clsx(classes.chatWindowContainer, { [classes.hide]: !isChatWindowOpen })}>
       <ChatWindowHeader />
-      <MessageList messages={messages} />
-      <ChatInput conversation={conversation!} isChatWindowOpen={isChatWindowOpen} />
+      <ChannelTabs tabs={channelTabs} selectedKey={selectedTab.key} onSelect={setSelectedKey} />
+      <MessageList messages={channelMessages} />
+      {isFriendTyping && <div className={classes.typingIndicator}>{selectedTab.label} is typing…</div>}
+      <ChatInput conversation={conversation!} channel={selectedTab.channel} isChatWindowOpen={isChatWindowOpen} />
     </aside>
   );
 }
@@ -26,11 +26,11 @@ export default function MessageList({ messages }: MessageListProps) {
         const previousTime = getFormattedTime(messages[idx - 1]);
 
         // Display the MessageInfo component when the author or formatted timestamp differs from the previous message
-        const shouldDisplayMessageInfo = time !== previousTime || message.author !== messages[idx - 1]?.author;
+        const shouldDisplayMessageInfo = time !== previousTime || message.authorID !== messages[idx - 1]?.authorID;
 
-        const isLocalParticipant = localParticipant.identity === message.author;
+        const isLocalParticipant = localParticipant.identity === message.authorID;
 
-        const profile = players.find(p => p.id == message.author);
+        const profile = players.find(p => p.id == message.authorID);
 
         return (
           <React.Fragment key={message.sid}>
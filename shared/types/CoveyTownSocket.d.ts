@@ -4,6 +4,9 @@ export type TownJoinResponse = {
   /** Secret token that this player should use to authenticate
    * in future requests to this service * */
   sessionToken: string;
+  /** Secret token that identifies this player's persistent account; it should be
+   * presented again when joining a town to keep the same identity and friends * */
+  accountToken: string;
   /** Secret token that this player should use to authenticate
    * in future requests to the video service * */
   providerVideoToken: string;
@@ -13,8 +16,24 @@ export type TownJoinResponse = {
   friendlyName: string;
   /** Is this a private town? * */
   isPubliclyListed: boolean;
+  /** The map that this town was created from, which clients load from /assets/tilemaps/<mapID>.json */
+  mapID: string;
   /** Current state of interactables in this town */
   interactables: Interactable[];
+  /** IDs of all of this player's friends, including those not currently in this town */
+  friendIDs: string[];
+  /** IDs of the players that this player has blocked, including those not currently in this town */
+  blockedIDs: string[];
+  /** Friend requests sent to or by this player that are still waiting for a response */
+  pendingFriendRequests: FriendRequest[];
+  /** Invites to conversation areas that this player has received but not yet responded to */
+  conversationAreaInvites: TeleportInviteSingular[];
+  /** Announcements from the town's owner that have started and have not yet expired */
+  announcements: Announcement[];
+  /** The most recent chat messages in this town, oldest first; older ones are available from the REST API */
+  chatHistory: ChatMessage[];
+  /** Every MiniMessage that our player has sent or received, and which of them they have read */
+  miniMessageInbox: MiniMessageInbox;
 };
 
 export type Interactable = ViewingArea | ConversationArea;
@@ -22,6 +41,8 @@ export type Interactable = ViewingArea | ConversationArea;
 export type TownSettingsUpdate = {
   friendlyName?: string;
   isPubliclyListed?: boolean;
+  /** The maximum number of players allowed in the town at once */
+  capacity?: number;
 };
 
 export type Direction = "front" | "back" | "left" | "right";
@@ -43,11 +64,28 @@ export interface PlayerLocation {
   moving: boolean;
   interactableID?: string;
 }
+// Who can see a chat message: everyone in the town, only the occupants of a conversation area, or only two
+// friends (playerIDs holds both of their IDs, in sorted order)
+export type ChatChannel =
+  | { type: "town" }
+  | { type: "conversationArea"; conversationAreaID: string }
+  | { type: "direct"; playerIDs: string[] };
+
+// Chat messages are assembled by the townService: author is the sender's user name, and authorID is their player ID
 export type ChatMessage = {
   author: string;
+  authorID: string;
   sid: string;
   body: string;
   dateCreated: Date;
+  channel: ChatChannel;
+};
+
+// The parts of a chat message that the sender chooses; the townService assigns the rest.
+// Messages without a channel are sent to the whole town.
+export type ChatMessageDraft = {
+  body: string;
+  channel?: ChatChannel;
 };
 
 export interface ConversationArea {
@@ -75,6 +113,18 @@ export type PlayerToPlayerUpdate = {
   affected: string;
 };
 
+export type FriendRequestStatus = "pending" | "accepted" | "declined" | "canceled";
+
+// sender and recipient are the IDs of players; times are in milliseconds since the epoch
+export type FriendRequest = {
+  sender: string;
+  recipient: string;
+  status: FriendRequestStatus;
+  sentAt: number;
+  // when the request was accepted, declined or canceled; undefined while it is pending
+  respondedAt?: number;
+};
+
 // requester and requested are the IDs of players
 export type ConversationAreaGroupInvite = {
   requester: string;
@@ -90,15 +140,113 @@ export type TeleportInviteSingular = {
   requesterLocation: PlayerLocation;
 };
 
-// sender and recipients are the IDs of players
+// a MiniMessage is pending for a recipient until their client has received it, then delivered until they have viewed it
+export type MiniMessageReceiptStatus = 'pending' | 'delivered' | 'read';
+
+// sender and recipients are the IDs of players; the townService assigns id, sentAt (in milliseconds since the epoch)
+// and receipts (the status of the message for each recipient, by recipient ID)
+// inReplyTo is the id of the MiniMessage that this one replies to, if any
 export type MiniMessage = {
+  id: string;
+  sender: string;
+  recipients: string[];
+  body: string;
+  sentAt: number;
+  receipts: Record<string, MiniMessageReceiptStatus>;
+  inReplyTo?: string;
+};
+
+// recipient is the ID of the player whose client received or viewed the MiniMessage with ID messageID
+export type MiniMessageReceipt = {
+  messageID: string;
+  recipient: string;
+  status: MiniMessageReceiptStatus;
+};
+
+// the parts of a MiniMessage that its sender's client chooses
+export type MiniMessageDraft = {
   sender: string;
   recipients: string[];
   body: string;
+  inReplyTo?: string;
+};
+
+// every MiniMessage that a player has sent or received, oldest first; when the player last read their
+// conversation with each other player (by player ID, in milliseconds since the epoch); and the user name of
+// each player in the messages (by player ID), since they may no longer be in the town
+export type MiniMessageInbox = {
+  messages: MiniMessage[];
+  lastReadAt: Record<string, number>;
+  userNames: Record<string, string>;
+};
+
+// typist is the ID of the player who is typing a MiniMessage or direct chat message to the players in recipients
+export type TypingNotice = {
+  typist: string;
+  recipients: string[];
+};
+
+// Why the townService refused a client-to-server event: its payload did not match its schema, the client sent it too
+// often, it was forged or not allowed, or the townService failed while processing it
+export type SocketErrorCode = "invalidPayload" | "rateLimited" | "rejected" | "serverError";
+
+// The outcome of a client-to-server event, which the townService sends back through the event's acknowledgement
+// callback when the client passes one. Refused events have an error code and a message explaining why.
+export type SocketResult = { ok: true } | { ok: false; code: SocketErrorCode; message: string };
+
+export type SocketAck = (result: SocketResult) => void;
+
+// event is the client-to-server event that was rejected, and message explains why
+export type SocialEventRejection = {
+  event: keyof ClientToServerEvents;
+  message: string;
+};
+
+// event is the client-to-server event whose payload did not match its schema, path is where in the payload the
+// problem is (e.g. "requesterLocation.x", or "" for the payload itself), and message explains the problem
+export type PayloadRejection = {
+  event: keyof ClientToServerEvents;
+  path: string;
+  message: string;
+};
+
+// event is the client-to-server event that was dropped, and retryAfterMs is how long until the client may send it again
+export type RateLimitNotice = {
+  event: keyof ClientToServerEvents;
+  retryAfterMs: number;
+};
+
+// reason is the town owner's explanation of a moderation action, if they gave one
+export type ModerationNotice = {
+  reason?: string;
+};
+
+// mutedUntil is in milliseconds since the epoch
+export type MuteNotice = ModerationNotice & {
+  mutedUntil: number;
+};
+
+// startsAt and expiresAt are in milliseconds since the epoch; an announcement without expiresAt lasts until the town closes
+export type Announcement = {
+  id: string;
+  message: string;
+  startsAt: number;
+  expiresAt?: number;
+};
+
+// The size of the part of the map that a client shows, in pixels
+export type ViewportSize = {
+  width: number;
+  height: number;
 };
 
 export interface ServerToClientEvents {
+  // sent right away for players near the client's viewport, friends and the client's own player; the movements of
+  // other players are sent less often, as of when they are sent
   playerMoved: (movedPlayer: Player) => void;
+  // sent only to a player whose movement the townService refused, because they could not have walked there; location
+  // is where the townService still has them
+  movementRejected: (location: PlayerLocation) => void;
   playerDisconnect: (disconnectedPlayer: Player) => void;
   playerJoined: (newPlayer: Player) => void;
   initialize: (initialData: TownJoinResponse) => void;
@@ -116,6 +264,10 @@ export interface ServerToClientEvents {
   friendRequestDeclined: (friendRequest: PlayerToPlayerUpdate) => void;
   // actor is remover, affected is the removed friend
   friendRemoved: (friendRequest: PlayerToPlayerUpdate) => void;
+  // sent only to the blocker: actor is the blocker, affected is the blocked player, who is never told
+  playerBlocked: (block: PlayerToPlayerUpdate) => void;
+  // sent only to the unblocker: actor is the unblocker, affected is the unblocked player
+  playerUnblocked: (block: PlayerToPlayerUpdate) => void;
   conversationAreaRequestSent: (
     conversationAreaInviteRequest: ConversationAreaGroupInvite
   ) => void;
@@ -127,27 +279,68 @@ export interface ServerToClientEvents {
   ) => void;
   // sender is the Player who sent the message to their currently selected friends
   miniMessageSent: (miniMessage: MiniMessage) => void;
+  // sent only to the sender of a MiniMessage, when one of its recipients receives or views it
+  miniMessageReceipt: (receipt: MiniMessageReceipt) => void;
+  // sent only to the recipients, when a friend starts (or keeps) typing a message to them; clients stop showing
+  // the indicator on their own if typingStopped never arrives
+  typingStarted: (notice: TypingNotice) => void;
+  // sent only to the recipients, when a friend stops typing a message to them
+  typingStopped: (notice: TypingNotice) => void;
+  // sent only to the player whose social event was forged or not allowed, unless their client asked for an acknowledgement
+  socialEventRejected: (rejection: SocialEventRejection) => void;
+  // sent only to a player whose client sent an event more often than its rate limit allows; the event was dropped.
+  // Not sent if the client asked for an acknowledgement, which reports the error instead.
+  rateLimited: (notice: RateLimitNotice) => void;
+  // sent only to a player whose client sent an event with a malformed payload; the event was dropped.
+  // Not sent if the client asked for an acknowledgement, which reports the error instead.
+  payloadRejected: (rejection: PayloadRejection) => void;
+  // sent to a client that was refused entry to the town (e.g. because it is full), just before it is disconnected
+  joinRejected: (reason: string) => void;
+  // sent only to a player whom the town's owner removed from the town, just before they are disconnected
+  playerKicked: (notice: ModerationNotice) => void;
+  // sent only to a player whom the town's owner banned from the town, just before they are disconnected
+  playerBanned: (notice: ModerationNotice) => void;
+  // sent only to a player whom the town's owner muted: their chat and mini messages are refused until the mute ends
+  playerMuted: (notice: MuteNotice) => void;
+  // sent to everyone in the town when one of the town owner's announcements starts
+  announcement: (announcement: Announcement) => void;
 }
+// The events that players act on may be sent with an acknowledgement callback, which the townService calls once it has
+// processed the event (@see SocketResult)
 export interface ClientToServerEvents {
-  chatMessage: (message: ChatMessage) => void;
+  chatMessage: (message: ChatMessageDraft, ack?: SocketAck) => void;
+  // the townService refuses movements that pass through blocked tiles or are faster than players can walk
   playerMovement: (movementData: PlayerLocation) => void;
+  // sent once the client's game is created; until then the townService assumes the frontend's default game size
+  viewportChanged: (viewportSize: ViewportSize) => void;
   interactableUpdate: (update: Interactable) => void;
   // actor is the Player who clicked accept
-  acceptFriendRequest(friendRequest: PlayerToPlayerUpdate);
+  acceptFriendRequest(friendRequest: PlayerToPlayerUpdate, ack?: SocketAck);
   // actor is the Player who clicked decline
-  declineFriendRequest(friendRequest: PlayerToPlayerUpdate);
+  declineFriendRequest(friendRequest: PlayerToPlayerUpdate, ack?: SocketAck);
   // actor is sender, affected is recipient
-  sendFriendRequest: (friendRequest: PlayerToPlayerUpdate) => void;
+  sendFriendRequest: (friendRequest: PlayerToPlayerUpdate, ack?: SocketAck) => void;
   // actor is sender / canceler, affected is original recipient
-  cancelFriendRequest: (friendRequest: PlayerToPlayerUpdate) => void;
+  cancelFriendRequest: (friendRequest: PlayerToPlayerUpdate, ack?: SocketAck) => void;
   // actor is the Player who clicked remove friend
-  removeFriend(removeFriend: PlayerToPlayerUpdate);
+  removeFriend(removeFriend: PlayerToPlayerUpdate, ack?: SocketAck);
+  // actor is the Player who clicked block; their friendship with the affected player, if any, ends
+  blockPlayer: (block: PlayerToPlayerUpdate, ack?: SocketAck) => void;
+  // actor is the Player who clicked unblock
+  unblockPlayer: (block: PlayerToPlayerUpdate, ack?: SocketAck) => void;
+  // actor is the Player who clicked teleport, who is moved to the affected friend's location
+  teleportToFriend: (teleport: PlayerToPlayerUpdate, ack?: SocketAck) => void;
   // requester is the Player who clicked to invite selected friends
-  inviteAllToConvArea(invite: ConversationAreaGroupInvite);
+  inviteAllToConvArea(invite: ConversationAreaGroupInvite, ack?: SocketAck);
   // requester is the Player who originally sent the invite
-  acceptConvAreaInvite(convAreaInvite: TeleportInviteSingular);
+  acceptConvAreaInvite(convAreaInvite: TeleportInviteSingular, ack?: SocketAck);
   // requester is the Player who originally sent the invite
-  declineConvAreaInvite(convAreaInvite: TeleportInviteSingular);
+  declineConvAreaInvite(convAreaInvite: TeleportInviteSingular, ack?: SocketAck);
   // sender is the Player who sent the message to their currently selected friends
-  sendMiniMessage: (miniMessage: MiniMessage) => void;
+  sendMiniMessage: (miniMessage: MiniMessageDraft, ack?: SocketAck) => void;
+  // sent when the player views their conversation with another player, so that its messages are no longer unread
+  readMiniMessages: (otherPlayerID: string) => void;
+  // typist is the Player who is typing; clients send typingStarted repeatedly, but no more often than they need to
+  typingStarted: (notice: TypingNotice) => void;
+  typingStopped: (notice: TypingNotice) => void;
 }
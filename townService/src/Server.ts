@@ -7,6 +7,8 @@ import { ValidateError } from 'tsoa';
 import fs from 'fs/promises';
 import { Server as SocketServer } from 'socket.io';
 import { RegisterRoutes } from '../generated/routes';
+import FileTownsStore from './lib/FileTownsStore';
+import InvalidMapError from './lib/InvalidMapError';
 import TownsStore from './lib/TownsStore';
 import { ClientToServerEvents, ServerToClientEvents } from './types/CoveyTownSocket';
 import { TownsController } from './town/TownsController';
@@ -20,8 +22,14 @@ const socketServer = new SocketServer<ClientToServerEvents, ServerToClientEvents
   cors: { origin: '*' },
 });
 
-// Initialize the towns store with a factory that creates a broadcast emitter for a town
-TownsStore.initializeTownsStore((townID: string) => socketServer.to(townID));
+// Initialize the towns store with a factory that creates a broadcast emitter for a town. If TOWNS_FILE
+// is set, towns are saved to that file, and the towns that were saved there are restored
+const emitterFactory = (townID: string) => socketServer.to(townID);
+if (process.env.TOWNS_FILE) {
+  FileTownsStore.initializeFileTownsStore(emitterFactory, process.env.TOWNS_FILE);
+} else {
+  TownsStore.initializeTownsStore(emitterFactory);
+}
 
 // Connect the socket server to the TownsController. We use here the same pattern as tsoa
 // (the library that we use for REST), which creates a new controller instance for each request
@@ -29,6 +37,9 @@ socketServer.on('connection', socket => {
   new TownsController().joinTown(socket);
 });
 
+// Uploaded maps include their tileset images, so allow large bodies on that route only
+app.post('/towns/maps', Express.json({ limit: '20mb' }));
+
 // Set the default content-type to JSON
 app.use(Express.json());
 
@@ -55,6 +66,12 @@ app.use(
         details: err?.fields,
       });
     }
+    if (err instanceof InvalidMapError) {
+      return res.status(400).json({
+        message: 'Invalid map',
+        details: err.problems,
+      });
+    }
     if (err instanceof Error) {
       logError(err);
       return res.status(500).json({
@@ -71,7 +88,7 @@ server.listen(process.env.PORT || 8081, () => {
   const address = server.address() as AddressInfo;
   // eslint-disable-next-line no-console
   console.log(`Listening on ${address.port}`);
-  if (process.env.DEMO_TOWN_ID) {
+  if (process.env.DEMO_TOWN_ID && !TownsStore.getInstance().getTownByID(process.env.DEMO_TOWN_ID)) {
     TownsStore.getInstance().createTown(process.env.DEMO_TOWN_ID, false);
   }
 });
@@ -1,3 +1,5 @@
+import { FriendRequest } from '../types/CoveyTownSocket';
+
 /**
  * The public-facing model that represents a town. More information about the town
  * is available for users who join it.
@@ -21,6 +23,61 @@ export interface Town {
   maximumOccupancy: number;
 }
 
+/**
+ * A map that towns can be created from
+ */
+export interface TownMap {
+  /**
+   * The ID to create a town with this map. Clients load the map from /towns/maps/{mapID}
+   */
+  mapID: string;
+  /**
+   * The name that users see when choosing a map for a new town
+   */
+  name: string;
+  /**
+   * A short description of the map
+   */
+  description: string;
+}
+
+/**
+ * The image of one of the tilesets of an uploaded map
+ */
+export interface TownMapTileset {
+  /**
+   * The path to the image, exactly as the map's tileset refers to it
+   */
+  image: string;
+  /**
+   * The contents of the image file (PNG, JPEG or GIF), base64-encoded
+   */
+  data: string;
+}
+
+/**
+ * Request body that specifies a new map to add to the catalog of maps that towns can be created from
+ */
+export interface TownMapUploadParams {
+  /**
+   * The name that users see when choosing a map for a new town
+   */
+  name: string;
+  /**
+   * A short description of the map
+   */
+  description: string;
+  /**
+   * The map, in Tiled's JSON format. Every tileset must be embedded in the map, and the map must have an
+   * "Objects" layer whose conversation and viewing areas have unique names and do not overlap.
+   */
+  map: unknown;
+  /**
+   * The image of each of the map's tilesets
+   */
+  tilesets: TownMapTileset[];
+}
+
 /**
  * Payload that is sent back to a client upon creating a town
  */
@@ -51,10 +108,80 @@ export interface TownCreateParams {
   isPubliclyListed: boolean;
 
   /**
-   * Reserved for future use, currently only used for testing: this parameter can be
-   * specified to control which Tiled map file is used for initializing the set of interactable areas
-   *
-   * Not currently used on frontend
+   * The maximum number of players allowed in the town at once, which must be a positive whole number.
+   * Defaults to 50 if not specified.
+   */
+  capacity?: number;
+
+  /**
+   * The ID of the map to create the town with, which must be one of the maps listed by the maps route.
+   * Defaults to the indoors map if not specified.
+   */
+  mapID?: string;
+}
+
+/**
+ * The friend requests that a player has sent or received, and that are still waiting for a response
+ */
+export interface PendingFriendRequests {
+  /**
+   * Requests that other players sent to this player
+   */
+  incoming: FriendRequest[];
+  /**
+   * Requests that this player sent to other players
+   */
+  outgoing: FriendRequest[];
+}
+
+/**
+ * Request body for a moderation action that the owner of a town takes against a player
+ */
+export interface ModerationRequest {
+  /**
+   * An explanation that is shown to the affected player
+   */
+  reason?: string;
+}
+
+/**
+ * Request body that specifies how long to mute a player for
+ */
+export interface MuteRequest extends ModerationRequest {
+  /**
+   * How long the player's chat and mini messages are refused for, which must be positive
+   */
+  durationSeconds: number;
+}
+
+/**
+ * Request body that specifies who to ban from a town. At least one of userName and userID must be given.
+ */
+export interface BanRequest extends ModerationRequest {
+  /**
+   * A user name to ban, which is matched regardless of case
+   */
+  userName?: string;
+  /**
+   * The user ID of an account to ban
+   */
+  userID?: string;
+}
+
+/**
+ * Request body for an announcement from the owner of a town to everyone in it
+ */
+export interface AnnouncementRequest {
+  /**
+   * The text of the announcement
+   */
+  message: string;
+  /**
+   * When to send the announcement, in milliseconds since the epoch; defaults to right away
+   */
+  startsAt?: number;
+  /**
+   * When the announcement should stop being shown, in milliseconds since the epoch; defaults to never
    */
-  mapFile?: string;
+  expiresAt?: number;
 }
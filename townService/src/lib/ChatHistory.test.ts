@@ -0,0 +1,69 @@
+import { nanoid } from 'nanoid';
+import { ChatMessage } from '../types/CoveyTownSocket';
+import ChatHistory, { CHAT_HISTORY_PAGE_SIZE } from './ChatHistory';
+
+describe('ChatHistory', () => {
+  function newMessage(): ChatMessage {
+    return {
+      author: nanoid(),
+      authorID: nanoid(),
+      body: nanoid(),
+      dateCreated: new Date(),
+      sid: nanoid(),
+      channel: { type: 'town' },
+    };
+  }
+
+  it('Returns the most recent page of messages, oldest first', () => {
+    const history = new ChatHistory(CHAT_HISTORY_PAGE_SIZE * 2);
+    const messages = Array.from({ length: CHAT_HISTORY_PAGE_SIZE + 5 }, newMessage);
+    messages.forEach(message => history.addMessage(message));
+    expect(history.getMessages()).toEqual(messages.slice(5));
+  });
+  it('Pages back through older messages', () => {
+    const history = new ChatHistory();
+    const messages = Array.from({ length: 7 }, newMessage);
+    messages.forEach(message => history.addMessage(message));
+    expect(history.getMessages(undefined, 3)).toEqual(messages.slice(4));
+    expect(history.getMessages(messages[4].sid, 3)).toEqual(messages.slice(1, 4));
+    expect(history.getMessages(messages[1].sid, 3)).toEqual(messages.slice(0, 1));
+    expect(history.getMessages(messages[0].sid, 3)).toEqual([]);
+    expect(history.getMessages(nanoid(), 3)).toEqual([]);
+  });
+  it('Only returns visible messages, and still fills each page', () => {
+    const history = new ChatHistory();
+    const messages = Array.from({ length: 10 }, newMessage);
+    messages.forEach(message => history.addMessage(message));
+    const isVisible = (message: ChatMessage) => messages.indexOf(message) % 2 === 0;
+    expect(history.getMessages(undefined, 3, isVisible)).toEqual([
+      messages[4],
+      messages[6],
+      messages[8],
+    ]);
+    expect(history.getMessages(messages[4].sid, 3, isVisible)).toEqual([messages[0], messages[2]]);
+  });
+  it('Forgets the oldest messages once it is full', () => {
+    const history = new ChatHistory(3);
+    const messages = Array.from({ length: 5 }, newMessage);
+    messages.forEach(message => history.addMessage(message));
+    expect(history.getMessages()).toEqual(messages.slice(2));
+  });
+  it('Forgets messages once they are too old', () => {
+    jest.useFakeTimers({ doNotFake: ['performance'] });
+    try {
+      const history = new ChatHistory(10, 60);
+      const oldMessage = newMessage();
+      history.addMessage(oldMessage);
+      jest.advanceTimersByTime(30 * 1000);
+      const newerMessage = newMessage();
+      history.addMessage(newerMessage);
+      expect(history.getMessages()).toEqual([oldMessage, newerMessage]);
+      jest.advanceTimersByTime(30 * 1000);
+      expect(history.getMessages()).toEqual([newerMessage]);
+      jest.advanceTimersByTime(30 * 1000);
+      expect(history.getMessages()).toEqual([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
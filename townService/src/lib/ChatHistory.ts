@@ -0,0 +1,112 @@
+import dotenv from 'dotenv';
+import { ChatMessage } from '../types/CoveyTownSocket';
+
+dotenv.config();
+
+/**
+ * The number of chat messages that a town keeps, unless CHAT_HISTORY_SIZE says otherwise
+ */
+export const DEFAULT_CHAT_HISTORY_SIZE = 200;
+
+/**
+ * How long a town keeps each chat message, unless CHAT_HISTORY_MAX_AGE_SECONDS says otherwise
+ */
+export const DEFAULT_CHAT_HISTORY_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * The number of messages in each page of chat history, @see ChatHistory.getMessages
+ */
+export const CHAT_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Reads a positive number from an environment variable, falling back to a default if the variable is
+ * unset or not a positive number
+ */
+function positiveNumberFromEnv(variableName: string, defaultValue: number): number {
+  const value = Number(process.env[variableName]);
+  return value > 0 ? value : defaultValue;
+}
+
+/**
+ * The recent chat messages of a town, so that players who join (or reload) the town can catch up on
+ * the conversation. The history is bounded both by the number of messages and by their age: once it
+ * is full, adding a message forgets the oldest one, and messages are forgotten once they are too old.
+ */
+export default class ChatHistory {
+  private readonly _maxMessages: number;
+
+  private readonly _maxAgeMs: number;
+
+  /** The messages in the history, oldest first, along with when the server received each one */
+  private _messages: { message: ChatMessage; receivedAt: number }[] = [];
+
+  /**
+   * Creates a new, empty chat history
+   *
+   * @param maxMessages the number of messages to keep, defaults to CHAT_HISTORY_SIZE
+   * @param maxAgeSeconds how long to keep each message for, defaults to CHAT_HISTORY_MAX_AGE_SECONDS
+   */
+  public constructor(
+    maxMessages = positiveNumberFromEnv('CHAT_HISTORY_SIZE', DEFAULT_CHAT_HISTORY_SIZE),
+    maxAgeSeconds = positiveNumberFromEnv(
+      'CHAT_HISTORY_MAX_AGE_SECONDS',
+      DEFAULT_CHAT_HISTORY_MAX_AGE_SECONDS,
+    ),
+  ) {
+    this._maxMessages = maxMessages;
+    this._maxAgeMs = maxAgeSeconds * 1000;
+  }
+
+  /**
+   * Adds a message to the end of the history, forgetting the oldest message if the history is full
+   *
+   * @param message the message that was just sent
+   */
+  public addMessage(message: ChatMessage): void {
+    this._messages.push({ message, receivedAt: Date.now() });
+    if (this._messages.length > this._maxMessages) {
+      this._messages.splice(0, this._messages.length - this._maxMessages);
+    }
+  }
+
+  /**
+   * Retrieve one page of the history. Without a cursor, this is the most recent page; to page back
+   * through older messages, pass the ID of the oldest message of the previous page.
+   *
+   * @param before the sid of a message: only messages sent before it are returned. If the message is
+   *  no longer in the history, there are no earlier messages to return.
+   * @param limit the maximum number of messages to return
+   * @param isVisible which messages to include, defaults to all of them
+   * @returns the latest messages that match, oldest first
+   */
+  public getMessages(
+    before?: string,
+    limit = CHAT_HISTORY_PAGE_SIZE,
+    isVisible: (message: ChatMessage) => boolean = () => true,
+  ): ChatMessage[] {
+    this._forgetExpiredMessages();
+    let end = this._messages.length;
+    if (before !== undefined) {
+      end = this._messages.findIndex(eachMessage => eachMessage.message.sid === before);
+      if (end === -1) {
+        return [];
+      }
+    }
+    const page: ChatMessage[] = [];
+    for (let index = end - 1; index >= 0 && page.length < limit; index--) {
+      const { message } = this._messages[index];
+      if (isVisible(message)) {
+        page.unshift(message);
+      }
+    }
+    return page;
+  }
+
+  private _forgetExpiredMessages(): void {
+    const oldestAllowed = Date.now() - this._maxAgeMs;
+    const firstKept = this._messages.findIndex(
+      eachMessage => eachMessage.receivedAt > oldestAllowed,
+    );
+    this._messages.splice(0, firstKept === -1 ? this._messages.length : firstKept);
+  }
+}
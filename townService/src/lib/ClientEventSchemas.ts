@@ -0,0 +1,98 @@
+import {
+  ChatChannel,
+  ClientToServerEvents,
+  ConversationArea,
+  Interactable,
+  PlayerLocation,
+  PlayerToPlayerUpdate,
+  TeleportInviteSingular,
+  TypingNotice,
+  ViewingArea,
+} from '../types/CoveyTownSocket';
+import { array, boolean, number, object, oneOf, optional, Schema, string, union } from './Schema';
+
+/**
+ * The schema for the payload of each event that a client may send. These mirror the types in
+ * CoveyTownSocket.d.ts: the compiler checks that there is a schema for every ClientToServerEvent, and
+ * that each schema only lets through values of its event's payload type, so a change to those types
+ * needs a matching change here.
+ */
+export type ClientEventSchemas = {
+  [Ev in keyof ClientToServerEvents]: Schema<Parameters<ClientToServerEvents[Ev]>[0]>;
+};
+
+const playerLocation: Schema<PlayerLocation> = object({
+  x: number(),
+  y: number(),
+  rotation: oneOf('front', 'back', 'left', 'right'),
+  moving: boolean(),
+  interactableID: optional(string()),
+});
+
+const chatChannel: Schema<ChatChannel> = union<ChatChannel>(
+  object({ type: oneOf('town') }),
+  object({ type: oneOf('conversationArea'), conversationAreaID: string() }),
+  object({ type: oneOf('direct'), playerIDs: array(string()) }),
+);
+
+const viewingArea: Schema<ViewingArea> = object({
+  id: string(),
+  video: optional(string()),
+  isPlaying: boolean(),
+  elapsedTimeSec: number(),
+});
+
+const conversationArea: Schema<ConversationArea> = object({
+  id: string(),
+  topic: optional(string()),
+  occupantsByID: array(string()),
+});
+
+const interactable: Schema<Interactable> = union<Interactable>(viewingArea, conversationArea);
+
+const playerToPlayerUpdate: Schema<PlayerToPlayerUpdate> = object({
+  actor: string(),
+  affected: string(),
+});
+
+const teleportInviteSingular: Schema<TeleportInviteSingular> = object({
+  requester: string(),
+  requested: string(),
+  requesterLocation: playerLocation,
+});
+
+const typingNotice: Schema<TypingNotice> = object({
+  typist: string(),
+  recipients: array(string()),
+});
+
+export const clientEventSchemas: ClientEventSchemas = {
+  chatMessage: object({ body: string(), channel: optional(chatChannel) }),
+  playerMovement: playerLocation,
+  viewportChanged: object({ width: number(), height: number() }),
+  interactableUpdate: interactable,
+  acceptFriendRequest: playerToPlayerUpdate,
+  declineFriendRequest: playerToPlayerUpdate,
+  sendFriendRequest: playerToPlayerUpdate,
+  cancelFriendRequest: playerToPlayerUpdate,
+  removeFriend: playerToPlayerUpdate,
+  blockPlayer: playerToPlayerUpdate,
+  unblockPlayer: playerToPlayerUpdate,
+  teleportToFriend: playerToPlayerUpdate,
+  inviteAllToConvArea: object({
+    requester: string(),
+    requested: array(string()),
+    requesterLocation: playerLocation,
+  }),
+  acceptConvAreaInvite: teleportInviteSingular,
+  declineConvAreaInvite: teleportInviteSingular,
+  sendMiniMessage: object({
+    sender: string(),
+    recipients: array(string()),
+    body: string(),
+    inReplyTo: optional(string()),
+  }),
+  readMiniMessages: string(),
+  typingStarted: typingNotice,
+  typingStopped: typingNotice,
+};
@@ -0,0 +1,118 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { nanoid } from 'nanoid';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MiniMessage } from '../types/CoveyTownSocket';
+import FileMiniMessageStore from './FileMiniMessageStore';
+
+function miniMessage(sender: string, recipients: string[], sentAt = Date.now()): MiniMessage {
+  return {
+    id: nanoid(),
+    sender,
+    recipients,
+    body: nanoid(),
+    sentAt,
+    receipts: Object.fromEntries(recipients.map(recipient => [recipient, 'pending'])),
+  };
+}
+
+describe('FileMiniMessageStore', () => {
+  let directory: string;
+  let filePath: string;
+  let store: FileMiniMessageStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'covey-mini-messages-'));
+    filePath = path.join(directory, 'miniMessages.json');
+    store = new FileMiniMessageStore(filePath);
+  });
+  afterEach(async () => {
+    await store.flush();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('getMessages', () => {
+    it('Includes only the messages that the user sent or received, oldest first', () => {
+      const sent = miniMessage('user1', ['user2', 'user3']);
+      const received = miniMessage('user2', ['user1']);
+      const other = miniMessage('user2', ['user3']);
+      store.addMessage(sent);
+      store.addMessage(other);
+      store.addMessage(received);
+      expect(store.getMessages('user1')).toEqual([sent, received]);
+      expect(store.getMessages('user3')).toEqual([sent, other]);
+      expect(store.getMessages('user4')).toEqual([]);
+    });
+    it('Includes a message once even if the user is its sender and one of its recipients', () => {
+      const message = miniMessage('user1', ['user1', 'user2']);
+      store.addMessage(message);
+      expect(store.getMessages('user1')).toEqual([message]);
+    });
+    it('Forgets messages once they are older than the maximum age', () => {
+      const shortLivedStore = new FileMiniMessageStore(undefined, 60);
+      const expired = miniMessage('user1', ['user2'], Date.now() - 61 * 1000);
+      const current = miniMessage('user2', ['user1'], Date.now() - 59 * 1000);
+      shortLivedStore.addMessage(expired);
+      shortLivedStore.addMessage(current);
+      expect(shortLivedStore.getMessages('user1')).toEqual([current]);
+      expect(shortLivedStore.getMessages('user2')).toEqual([current]);
+      expect(shortLivedStore.updateReceipt(expired.id, 'user2', 'read')).toBe(false);
+    });
+  });
+  describe('markRead', () => {
+    it('Records when the user last read each conversation', () => {
+      store.markRead('user1', 'user2', 100);
+      store.markRead('user1', 'user3', 200);
+      expect(store.getLastReadAt('user1')).toEqual({ user2: 100, user3: 200 });
+      expect(store.getLastReadAt('user2')).toEqual({});
+    });
+    it('Never moves the read time of a conversation backwards', () => {
+      store.markRead('user1', 'user2', 200);
+      store.markRead('user1', 'user2', 100);
+      expect(store.getLastReadAt('user1')).toEqual({ user2: 200 });
+    });
+  });
+  describe('updateReceipt', () => {
+    it('Moves the status of a message for a recipient forwards', () => {
+      const message = miniMessage('user1', ['user2', 'user3']);
+      store.addMessage(message);
+      expect(store.updateReceipt(message.id, 'user2', 'delivered')).toBe(true);
+      expect(store.updateReceipt(message.id, 'user3', 'read')).toBe(true);
+      expect(store.getMessages('user1')[0].receipts).toEqual({ user2: 'delivered', user3: 'read' });
+    });
+    it('Never moves the status of a message backwards', () => {
+      const message = miniMessage('user1', ['user2']);
+      store.addMessage(message);
+      store.updateReceipt(message.id, 'user2', 'read');
+      expect(store.updateReceipt(message.id, 'user2', 'delivered')).toBe(false);
+      expect(store.updateReceipt(message.id, 'user2', 'read')).toBe(false);
+      expect(store.getMessages('user1')[0].receipts).toEqual({ user2: 'read' });
+    });
+    it('Ignores unknown messages and players who are not recipients', () => {
+      const message = miniMessage('user1', ['user2']);
+      store.addMessage(message);
+      expect(store.updateReceipt(nanoid(), 'user2', 'read')).toBe(false);
+      expect(store.updateReceipt(message.id, 'user3', 'read')).toBe(false);
+      expect(store.getMessages('user1')[0].receipts).toEqual({ user2: 'pending' });
+    });
+  });
+  it('Restores messages and read times that were saved to the file', async () => {
+    const message = miniMessage('user1', ['user2']);
+    store.addMessage(message);
+    store.markRead('user2', 'user1', message.sentAt);
+    store.updateReceipt(message.id, 'user2', 'read');
+    await store.flush();
+
+    const reloadedStore = new FileMiniMessageStore(filePath);
+    expect(reloadedStore.getMessages('user2')).toEqual([message]);
+    expect(reloadedStore.getLastReadAt('user2')).toEqual({ user1: message.sentAt });
+  });
+  it('Does not restore messages that expired while the server was down', async () => {
+    const message = miniMessage('user1', ['user2'], Date.now() - 61 * 1000);
+    store.addMessage(message);
+    await store.flush();
+
+    expect(new FileMiniMessageStore(filePath).getMessages('user2')).toEqual([message]);
+    expect(new FileMiniMessageStore(filePath, 60).getMessages('user2')).toEqual([]);
+  });
+});
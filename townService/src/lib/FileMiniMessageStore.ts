@@ -0,0 +1,205 @@
+import dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { MiniMessage, MiniMessageReceiptStatus } from '../types/CoveyTownSocket';
+import IMiniMessageStore from './IMiniMessageStore';
+import JsonFileWriter from './JsonFileWriter';
+
+dotenv.config();
+
+/**
+ * The order that the status of a mini message for a recipient progresses in
+ */
+const RECEIPT_STATUS_ORDER: MiniMessageReceiptStatus[] = ['pending', 'delivered', 'read'];
+
+/**
+ * How long mini messages are kept for, unless MINI_MESSAGES_MAX_AGE_SECONDS says otherwise
+ */
+export const DEFAULT_MINI_MESSAGES_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Reads how long to keep mini messages for from MINI_MESSAGES_MAX_AGE_SECONDS, falling back to the
+ * default if it is unset or not a positive number
+ */
+function maxAgeSecondsFromEnv(): number {
+  const value = Number(process.env.MINI_MESSAGES_MAX_AGE_SECONDS);
+  return value > 0 ? value : DEFAULT_MINI_MESSAGES_MAX_AGE_SECONDS;
+}
+
+/**
+ * The contents of the file that a FileMiniMessageStore saves to
+ */
+type SavedMiniMessages = {
+  messages: MiniMessage[];
+  lastReadAt: Record<string, Record<string, number>>;
+};
+
+/**
+ * The default mini message store, which keeps every mini message in memory and saves them all to a
+ * single JSON file whenever they change. The file is read once, when the store is created. Messages
+ * are forgotten once they are older than MINI_MESSAGES_MAX_AGE_SECONDS, so the file stays bounded.
+ *
+ * If no file is configured (by setting MINI_MESSAGES_FILE), mini messages are only kept in memory.
+ */
+export default class FileMiniMessageStore implements IMiniMessageStore {
+  private static _instance: FileMiniMessageStore;
+
+  private readonly _maxAgeMs: number;
+
+  /** Every mini message that has been sent and not yet forgotten, oldest first */
+  private _messages: MiniMessage[] = [];
+
+  /** The same messages, by message ID */
+  private _messagesByID: Map<string, MiniMessage> = new Map();
+
+  /** The same messages, oldest first, by the ID of each user who sent or received them */
+  private _messagesByUserID: Map<string, MiniMessage[]> = new Map();
+
+  /**
+   * When each user last read their conversation with each other user, in milliseconds since the
+   * epoch, by the reader's user ID and then the other user's ID
+   */
+  private _lastReadAt: Map<string, Map<string, number>> = new Map();
+
+  /** Saves the mini messages to the file, if there is one */
+  private readonly _writer?: JsonFileWriter;
+
+  /**
+   * Creates a new store, loading any mini messages that were previously saved to the given file
+   *
+   * @param filePath the JSON file to persist mini messages to, or undefined to only keep them in
+   *  memory
+   * @param maxAgeSeconds how long to keep each message for, defaults to MINI_MESSAGES_MAX_AGE_SECONDS
+   */
+  public constructor(filePath?: string, maxAgeSeconds = maxAgeSecondsFromEnv()) {
+    this._maxAgeMs = maxAgeSeconds * 1000;
+    if (!filePath) {
+      return;
+    }
+    this._writer = new JsonFileWriter(
+      filePath,
+      (): SavedMiniMessages => ({
+        messages: this._messages,
+        lastReadAt: Object.fromEntries(
+          [...this._lastReadAt].map(([userID, lastReadAt]) => [
+            userID,
+            Object.fromEntries(lastReadAt),
+          ]),
+        ),
+      }),
+    );
+    if (existsSync(filePath)) {
+      const saved = JSON.parse(readFileSync(filePath, 'utf-8')) as SavedMiniMessages;
+      saved.messages.forEach(eachMessage => this._indexMessage(eachMessage));
+      Object.entries(saved.lastReadAt).forEach(([userID, lastReadAt]) =>
+        this._lastReadAt.set(userID, new Map(Object.entries(lastReadAt))),
+      );
+      this._forgetExpiredMessages();
+    }
+  }
+
+  /**
+   * Retrieve the singleton FileMiniMessageStore, which persists to the file named by MINI_MESSAGES_FILE
+   */
+  public static getInstance(): FileMiniMessageStore {
+    if (!FileMiniMessageStore._instance) {
+      FileMiniMessageStore._instance = new FileMiniMessageStore(process.env.MINI_MESSAGES_FILE);
+    }
+    return FileMiniMessageStore._instance;
+  }
+
+  addMessage(message: MiniMessage): void {
+    this._forgetExpiredMessages();
+    this._indexMessage(message);
+    this._save();
+  }
+
+  getMessages(userID: string): MiniMessage[] {
+    if (this._forgetExpiredMessages()) {
+      this._save();
+    }
+    return [...(this._messagesByUserID.get(userID) ?? [])];
+  }
+
+  getLastReadAt(userID: string): Record<string, number> {
+    return Object.fromEntries(this._lastReadAt.get(userID) ?? []);
+  }
+
+  markRead(userID: string, otherUserID: string, readAt: number): void {
+    let lastReadAt = this._lastReadAt.get(userID);
+    if (!lastReadAt) {
+      lastReadAt = new Map();
+      this._lastReadAt.set(userID, lastReadAt);
+    }
+    if ((lastReadAt.get(otherUserID) ?? 0) < readAt) {
+      lastReadAt.set(otherUserID, readAt);
+      this._save();
+    }
+  }
+
+  updateReceipt(messageID: string, recipientID: string, status: MiniMessageReceiptStatus): boolean {
+    const message = this._messagesByID.get(messageID);
+    if (!message || !message.recipients.includes(recipientID)) {
+      return false;
+    }
+    const currentStatus = message.receipts[recipientID] ?? 'pending';
+    if (RECEIPT_STATUS_ORDER.indexOf(status) <= RECEIPT_STATUS_ORDER.indexOf(currentStatus)) {
+      return false;
+    }
+    message.receipts[recipientID] = status;
+    this._save();
+    return true;
+  }
+
+  /**
+   * Wait for all changes made so far to be written to the file
+   */
+  public async flush(): Promise<void> {
+    await this._writer?.flush();
+  }
+
+  /**
+   * Add a message to the end of the list of messages, and to the indexes of it
+   */
+  private _indexMessage(message: MiniMessage): void {
+    this._messages.push(message);
+    this._messagesByID.set(message.id, message);
+    new Set([message.sender, ...message.recipients]).forEach(userID => {
+      const userMessages = this._messagesByUserID.get(userID);
+      if (userMessages) {
+        userMessages.push(message);
+      } else {
+        this._messagesByUserID.set(userID, [message]);
+      }
+    });
+  }
+
+  /**
+   * Forget the messages that are older than the maximum age. Messages are kept oldest first, so only
+   * the start of each list needs to be checked.
+   *
+   * @returns true if any messages were forgotten
+   */
+  private _forgetExpiredMessages(): boolean {
+    const expiredBefore = Date.now() - this._maxAgeMs;
+    const numExpired = this._messages.findIndex(eachMessage => eachMessage.sentAt >= expiredBefore);
+    const expired = this._messages.splice(
+      0,
+      numExpired === -1 ? this._messages.length : numExpired,
+    );
+    expired.forEach(eachMessage => {
+      this._messagesByID.delete(eachMessage.id);
+      new Set([eachMessage.sender, ...eachMessage.recipients]).forEach(userID => {
+        const userMessages = this._messagesByUserID.get(userID);
+        userMessages?.shift();
+        if (userMessages?.length === 0) {
+          this._messagesByUserID.delete(userID);
+        }
+      });
+    });
+    return expired.length > 0;
+  }
+
+  private _save(): void {
+    this._writer?.save();
+  }
+}
@@ -0,0 +1,88 @@
+import { mockDeep } from 'jest-mock-extended';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { TownEmitter } from '../types/CoveyTownSocket';
+import FileTownsStore from './FileTownsStore';
+
+describe('FileTownsStore', () => {
+  let directory: string;
+  let filePath: string;
+  let store: FileTownsStore;
+  const emitterFactory = () => mockDeep<TownEmitter>();
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'covey-towns-'));
+    filePath = path.join(directory, 'towns.json');
+    store = new FileTownsStore(emitterFactory, filePath);
+  });
+  afterEach(async () => {
+    await store.flush();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function restartStore(): Promise<FileTownsStore> {
+    await store.flush();
+    store = new FileTownsStore(emitterFactory, filePath);
+    return store;
+  }
+
+  it('Starts with no towns when there is no file yet', () => {
+    expect(store.getTowns()).toEqual([]);
+  });
+  it('Restores towns with their settings and update passwords', async () => {
+    const publicTown = await store.createTown('public', true, 'tuxemon-town', 5);
+    const privateTown = await store.createTown('private', false);
+
+    const restored = await restartStore();
+    const restoredPublic = restored.getTownByID(publicTown.townID);
+    const restoredPrivate = restored.getTownByID(privateTown.townID);
+    expect(restoredPublic?.friendlyName).toEqual('public');
+    expect(restoredPublic?.isPubliclyListed).toBe(true);
+    expect(restoredPublic?.capacity).toBe(5);
+    expect(restoredPublic?.mapID).toEqual('tuxemon-town');
+    expect(restoredPublic?.townUpdatePassword).toEqual(publicTown.townUpdatePassword);
+    expect(restoredPublic?.interactables.map(eachArea => eachArea.id)).toEqual(
+      publicTown.interactables.map(eachArea => eachArea.id),
+    );
+    expect(restoredPrivate?.isPubliclyListed).toBe(false);
+    expect(restoredPrivate?.capacity).toBe(privateTown.capacity);
+  });
+  it('Saves updates to town settings', async () => {
+    const town = await store.createTown('original', true);
+    expect(store.updateTown(town.townID, town.townUpdatePassword, 'renamed', false, 12)).toBe(true);
+
+    const restoredTown = (await restartStore()).getTownByID(town.townID);
+    expect(restoredTown?.friendlyName).toEqual('renamed');
+    expect(restoredTown?.isPubliclyListed).toBe(false);
+    expect(restoredTown?.capacity).toBe(12);
+  });
+  it('Does not save updates with the wrong password', async () => {
+    const town = await store.createTown('original', true);
+    expect(store.updateTown(town.townID, 'wrong', 'renamed')).toBe(false);
+
+    expect((await restartStore()).getTownByID(town.townID)?.friendlyName).toEqual('original');
+  });
+  it('Forgets deleted towns', async () => {
+    const deletedTown = await store.createTown('deleted', true);
+    const keptTown = await store.createTown('kept', true);
+    expect(store.deleteTown(deletedTown.townID, deletedTown.townUpdatePassword)).toBe(true);
+
+    const restored = await restartStore();
+    expect(restored.getTownByID(deletedTown.townID)).toBeUndefined();
+    expect(restored.getTownByID(keptTown.townID)).toBeDefined();
+  });
+  it('Skips saved towns whose map can no longer be loaded', async () => {
+    const town = await store.createTown('town', true);
+    await store.flush();
+    const savedTowns = JSON.parse(await readFile(filePath, 'utf-8'));
+    savedTowns.push({ ...savedTowns[0], townID: 'missingMap', mapID: 'noSuchMap' });
+    await writeFile(filePath, JSON.stringify(savedTowns), 'utf-8');
+    const consoleSpy = jest.spyOn(console, 'trace').mockImplementation(() => {});
+
+    const restored = await restartStore();
+    expect(restored.getTownByID(town.townID)).toBeDefined();
+    expect(restored.getTownByID('missingMap')).toBeUndefined();
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,133 @@
+import { existsSync, readFileSync } from 'fs';
+import Town from '../town/Town';
+import { TownEmitterFactory } from '../types/CoveyTownSocket';
+import { logError } from '../Utils';
+import JsonFileWriter from './JsonFileWriter';
+import MapCatalog from './MapCatalog';
+import TownsStore from './TownsStore';
+
+/**
+ * Everything that is needed to recreate a town when the server restarts
+ */
+type SavedTown = {
+  townID: string;
+  friendlyName: string;
+  isPubliclyListed: boolean;
+  townUpdatePassword: string;
+  capacity: number;
+  mapID: string;
+};
+
+/**
+ * A towns store that saves the settings, update password and map of every town to a single JSON
+ * file whenever they change, so that towns survive server restarts. The file is read once, when the
+ * store is created. Players, and what they do in a town, are not saved.
+ */
+export default class FileTownsStore extends TownsStore {
+  /** Saves the towns to the file */
+  private readonly _writer: JsonFileWriter;
+
+  /**
+   * Creates a new store, restoring any towns that were previously saved to the given file. A town
+   * whose map can no longer be loaded is skipped.
+   *
+   * @param emitterFactory a factory that creates a broadcast emitter for a town
+   * @param filePath the JSON file to persist towns to
+   */
+  public constructor(emitterFactory: TownEmitterFactory, filePath: string) {
+    super(emitterFactory);
+    this._writer = new JsonFileWriter(filePath, (): SavedTown[] =>
+      this._towns.map(town => ({
+        townID: town.townID,
+        friendlyName: town.friendlyName,
+        isPubliclyListed: town.isPubliclyListed,
+        townUpdatePassword: town.townUpdatePassword,
+        capacity: town.capacity,
+        mapID: town.mapID,
+      })),
+    );
+    if (existsSync(filePath)) {
+      const savedTowns = JSON.parse(readFileSync(filePath, 'utf-8')) as SavedTown[];
+      savedTowns.forEach(savedTown => {
+        try {
+          const mapFile = MapCatalog.getInstance().getMapFile(savedTown.mapID);
+          if (!mapFile) {
+            throw new Error(`There is no map with ID ${savedTown.mapID}`);
+          }
+          const town = new Town(
+            savedTown.friendlyName,
+            savedTown.isPubliclyListed,
+            savedTown.townID,
+            this._emitterFactory(savedTown.townID),
+            savedTown.capacity,
+            savedTown.mapID,
+            savedTown.townUpdatePassword,
+          );
+          this._addTown(town, JSON.parse(readFileSync(mapFile, 'utf-8')));
+        } catch (err) {
+          logError(err);
+        }
+      });
+    }
+  }
+
+  /**
+   * Initialize the singleton TownsStore as a FileTownsStore, @see TownsStore.getInstance
+   *
+   * @param emitterFactory a factory that creates a broadcast emitter for a town
+   * @param filePath the JSON file to persist towns to
+   */
+  static initializeFileTownsStore(emitterFactory: TownEmitterFactory, filePath: string) {
+    TownsStore._instance = new FileTownsStore(emitterFactory, filePath);
+  }
+
+  async createTown(
+    friendlyName: string,
+    isPubliclyListed: boolean,
+    mapID?: string,
+    capacity?: number,
+  ): Promise<Town> {
+    const newTown = await super.createTown(friendlyName, isPubliclyListed, mapID, capacity);
+    this._save();
+    return newTown;
+  }
+
+  updateTown(
+    townID: string,
+    townUpdatePassword: string,
+    friendlyName?: string,
+    makePublic?: boolean,
+    capacity?: number,
+  ): boolean {
+    const success = super.updateTown(
+      townID,
+      townUpdatePassword,
+      friendlyName,
+      makePublic,
+      capacity,
+    );
+    if (success) {
+      this._save();
+    }
+    return success;
+  }
+
+  deleteTown(townID: string, townUpdatePassword: string): boolean {
+    const success = super.deleteTown(townID, townUpdatePassword);
+    if (success) {
+      this._save();
+    }
+    return success;
+  }
+
+  /**
+   * Wait for all changes made so far to be written to the file
+   */
+  public async flush(): Promise<void> {
+    await this._writer.flush();
+  }
+
+  private _save(): void {
+    this._writer.save();
+  }
+}
@@ -0,0 +1,102 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import FileUserAccountStore from './FileUserAccountStore';
+
+describe('FileUserAccountStore', () => {
+  let directory: string;
+  let filePath: string;
+  let store: FileUserAccountStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'covey-accounts-'));
+    filePath = path.join(directory, 'accounts.json');
+    store = new FileUserAccountStore(filePath);
+  });
+  afterEach(async () => {
+    await store.flush();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('createAccount', () => {
+    it('Creates accounts with unique IDs and tokens', () => {
+      const account1 = store.createAccount('user');
+      const account2 = store.createAccount('user');
+      expect(account1.userID).not.toEqual(account2.userID);
+      expect(account1.accountToken).not.toEqual(account2.accountToken);
+      expect(account1.friendIDs).toEqual([]);
+    });
+    it('Makes the account retrievable by ID and by token', () => {
+      const account = store.createAccount('user');
+      expect(store.getAccountByID(account.userID)).toBe(account);
+      expect(store.getAccountByToken(account.accountToken)).toBe(account);
+      expect(store.getAccountByToken('not a token')).toBeUndefined();
+    });
+  });
+  describe('addFriendship and removeFriendship', () => {
+    it('Adds each user to the other users friends list, without duplicates', () => {
+      const account1 = store.createAccount('user1');
+      const account2 = store.createAccount('user2');
+      store.addFriendship(account1.userID, account2.userID);
+      store.addFriendship(account2.userID, account1.userID);
+      expect(account1.friendIDs).toEqual([account2.userID]);
+      expect(account2.friendIDs).toEqual([account1.userID]);
+    });
+    it('Removes each user from the other users friends list', () => {
+      const account1 = store.createAccount('user1');
+      const account2 = store.createAccount('user2');
+      store.addFriendship(account1.userID, account2.userID);
+      store.removeFriendship(account2.userID, account1.userID);
+      expect(account1.friendIDs).toEqual([]);
+      expect(account2.friendIDs).toEqual([]);
+    });
+    it('Ignores users that have no account', () => {
+      const account = store.createAccount('user');
+      store.addFriendship(account.userID, 'no such user');
+      expect(account.friendIDs).toEqual(['no such user']);
+      expect(store.getAccountByID('no such user')).toBeUndefined();
+    });
+  });
+  describe('blockUser and unblockUser', () => {
+    it('Adds the blocked user to the blockers block list only, without duplicates', () => {
+      const account1 = store.createAccount('user1');
+      const account2 = store.createAccount('user2');
+      store.blockUser(account1.userID, account2.userID);
+      store.blockUser(account1.userID, account2.userID);
+      expect(account1.blockedIDs).toEqual([account2.userID]);
+      expect(account2.blockedIDs).toEqual([]);
+    });
+    it('Removes the blocked user from the blockers block list', () => {
+      const account1 = store.createAccount('user1');
+      const account2 = store.createAccount('user2');
+      store.blockUser(account1.userID, account2.userID);
+      store.unblockUser(account1.userID, account2.userID);
+      expect(account1.blockedIDs).toEqual([]);
+    });
+  });
+  it('Restores accounts and friendships that were saved to the file', async () => {
+    const account1 = store.createAccount('user1');
+    const account2 = store.createAccount('user2');
+    store.addFriendship(account1.userID, account2.userID);
+    store.updateUserName(account2.userID, 'renamed');
+    store.blockUser(account2.userID, 'blocked user');
+    await store.flush();
+
+    const reloadedStore = new FileUserAccountStore(filePath);
+    expect(reloadedStore.getAccountByToken(account1.accountToken)).toEqual(account1);
+    expect(reloadedStore.getAccountByID(account2.userID)).toEqual({
+      ...account2,
+      userName: 'renamed',
+      blockedIDs: ['blocked user'],
+    });
+  });
+  it('Gives accounts that were saved without a block list an empty one', async () => {
+    await writeFile(
+      filePath,
+      JSON.stringify([{ userID: 'user', accountToken: 'token', userName: 'user', friendIDs: [] }]),
+      'utf-8',
+    );
+    const reloadedStore = new FileUserAccountStore(filePath);
+    expect(reloadedStore.getAccountByID('user')?.blockedIDs).toEqual([]);
+  });
+});
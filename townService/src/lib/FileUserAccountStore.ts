@@ -0,0 +1,137 @@
+import dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { nanoid } from 'nanoid';
+import IUserAccountStore, { UserAccount } from './IUserAccountStore';
+import JsonFileWriter from './JsonFileWriter';
+
+dotenv.config();
+
+/**
+ * The default user account store, which keeps every account in memory and saves them all to a
+ * single JSON file whenever they change. The file is read once, when the store is created.
+ *
+ * If no file is configured (by setting USER_ACCOUNTS_FILE), accounts are only kept in memory.
+ */
+export default class FileUserAccountStore implements IUserAccountStore {
+  private static _instance: FileUserAccountStore;
+
+  /** All known accounts, by user ID */
+  private _accounts: Map<string, UserAccount> = new Map();
+
+  /** Saves the accounts to the file, if there is one */
+  private readonly _writer?: JsonFileWriter;
+
+  /**
+   * Creates a new store, loading any accounts that were previously saved to the given file
+   *
+   * @param filePath the JSON file to persist accounts to, or undefined to only keep them in memory
+   */
+  public constructor(filePath?: string) {
+    if (!filePath) {
+      return;
+    }
+    this._writer = new JsonFileWriter(filePath, () => [...this._accounts.values()]);
+    if (existsSync(filePath)) {
+      const savedAccounts = JSON.parse(readFileSync(filePath, 'utf-8')) as UserAccount[];
+      // Accounts saved before blocking existed have no block list
+      savedAccounts.forEach(eachAccount =>
+        this._accounts.set(eachAccount.userID, {
+          ...eachAccount,
+          blockedIDs: eachAccount.blockedIDs ?? [],
+        }),
+      );
+    }
+  }
+
+  /**
+   * Retrieve the singleton FileUserAccountStore, which persists to the file named by USER_ACCOUNTS_FILE
+   */
+  public static getInstance(): FileUserAccountStore {
+    if (!FileUserAccountStore._instance) {
+      FileUserAccountStore._instance = new FileUserAccountStore(process.env.USER_ACCOUNTS_FILE);
+    }
+    return FileUserAccountStore._instance;
+  }
+
+  getAccountByToken(accountToken: string): UserAccount | undefined {
+    return [...this._accounts.values()].find(
+      eachAccount => eachAccount.accountToken === accountToken,
+    );
+  }
+
+  getAccountByID(userID: string): UserAccount | undefined {
+    return this._accounts.get(userID);
+  }
+
+  createAccount(userName: string): UserAccount {
+    const newAccount: UserAccount = {
+      userID: nanoid(),
+      accountToken: nanoid(),
+      userName,
+      friendIDs: [],
+      blockedIDs: [],
+    };
+    this._accounts.set(newAccount.userID, newAccount);
+    this._save();
+    return newAccount;
+  }
+
+  updateUserName(userID: string, userName: string): void {
+    const account = this._accounts.get(userID);
+    if (account && account.userName !== userName) {
+      account.userName = userName;
+      this._save();
+    }
+  }
+
+  addFriendship(userID: string, friendID: string): void {
+    const account = this._accounts.get(userID);
+    const friendAccount = this._accounts.get(friendID);
+    if (account && !account.friendIDs.includes(friendID)) {
+      account.friendIDs.push(friendID);
+    }
+    if (friendAccount && !friendAccount.friendIDs.includes(userID)) {
+      friendAccount.friendIDs.push(userID);
+    }
+    this._save();
+  }
+
+  removeFriendship(userID: string, friendID: string): void {
+    const account = this._accounts.get(userID);
+    const friendAccount = this._accounts.get(friendID);
+    if (account) {
+      account.friendIDs = account.friendIDs.filter(eachID => eachID !== friendID);
+    }
+    if (friendAccount) {
+      friendAccount.friendIDs = friendAccount.friendIDs.filter(eachID => eachID !== userID);
+    }
+    this._save();
+  }
+
+  blockUser(userID: string, blockedID: string): void {
+    const account = this._accounts.get(userID);
+    if (account && !account.blockedIDs.includes(blockedID)) {
+      account.blockedIDs.push(blockedID);
+      this._save();
+    }
+  }
+
+  unblockUser(userID: string, blockedID: string): void {
+    const account = this._accounts.get(userID);
+    if (account && account.blockedIDs.includes(blockedID)) {
+      account.blockedIDs = account.blockedIDs.filter(eachID => eachID !== blockedID);
+      this._save();
+    }
+  }
+
+  /**
+   * Wait for all changes made so far to be written to the file
+   */
+  public async flush(): Promise<void> {
+    await this._writer?.flush();
+  }
+
+  private _save(): void {
+    this._writer?.save();
+  }
+}
@@ -0,0 +1,52 @@
+import { MiniMessage, MiniMessageReceiptStatus } from '../types/CoveyTownSocket';
+
+/**
+ * An abstraction for a class that persists the mini messages that users send to each other, and
+ * how far each user has read their conversation with each other user
+ */
+export default interface IMiniMessageStore {
+  /**
+   * Record a mini message that was just sent
+   *
+   * @param message the message, with its ID and timestamp already assigned
+   */
+  addMessage(message: MiniMessage): void;
+
+  /**
+   * Retrieve every mini message that a user has sent or received
+   *
+   * @param userID the user whose messages are requested
+   * @returns the user's messages, oldest first
+   */
+  getMessages(userID: string): MiniMessage[];
+
+  /**
+   * Retrieve when a user last read each of their conversations, @see markRead
+   *
+   * @param userID the user who read the conversations
+   * @returns the time that the user last read their conversation with each other user, in
+   *  milliseconds since the epoch, by the other user's ID
+   */
+  getLastReadAt(userID: string): Record<string, number>;
+
+  /**
+   * Record that a user has read their conversation with another user, so that the messages in it
+   * that were sent up to now no longer count as unread
+   *
+   * @param userID the user who read the conversation
+   * @param otherUserID the other user in the conversation
+   * @param readAt when the conversation was read, in milliseconds since the epoch
+   */
+  markRead(userID: string, otherUserID: string, readAt: number): void;
+
+  /**
+   * Record the status of a mini message for one of its recipients. A status never goes backwards:
+   * a message that was read stays read, and a message that was delivered never becomes pending again.
+   *
+   * @param messageID the ID of the message
+   * @param recipientID the ID of the recipient
+   * @param status the new status of the message for the recipient
+   * @returns true if the status changed, or false if it did not or there is no such message or recipient
+   */
+  updateReceipt(messageID: string, recipientID: string, status: MiniMessageReceiptStatus): boolean;
+}
@@ -1,14 +1,77 @@
 import Town from '../town/Town';
 
+/**
+ * The public listing of every publicly visible town
+ */
+export type TownList = {
+  friendlyName: string;
+  townID: string;
+  currentOccupancy: number;
+  maximumOccupancy: number;
+}[];
+
 /**
  * An abstraction for a class that will track all of the towns
  */
 export default interface ITownsStore {
   /**
-   * Retrieve the Town for a given town ID. If no town exists,
-   * this method should create one.
+   * Retrieve the Town for a given town ID
+   *
+   * @param townID the ID of the requested town
+   * @returns the existing town, or undefined if there is no such town ID
+   */
+  getTownByID(townID: string): Town | undefined;
+
+  /**
+   * Retrieve a town on behalf of its owner, after checking the town's update password
    *
    * @param townID the ID of the requested town
+   * @param townUpdatePassword the password that was returned when the town was created
+   * @returns the existing town, or undefined if there is no such town ID or the password is wrong
+   */
+  getTownForOwner(townID: string, townUpdatePassword: string): Town | undefined;
+
+  /**
+   * @returns List of all publicly visible towns
+   */
+  getTowns(): TownList;
+
+  /**
+   * Creates a new town, registering it in the store, and returning that new town
+   *
+   * @param friendlyName the name of the new town, which may not be empty
+   * @param isPubliclyListed whether the town is included in the list of towns
+   * @param mapID the ID of the town's map, @see MapCatalog
+   * @param capacity the maximum number of players allowed in the town at once
+   * @throws Error if the name is empty
+   * @throws InvalidParametersError if the map or capacity is invalid
+   */
+  createTown(
+    friendlyName: string,
+    isPubliclyListed: boolean,
+    mapID?: string,
+    capacity?: number,
+  ): Promise<Town>;
+
+  /**
+   * Updates the settings of an existing town, after checking the town's update password. Settings that
+   * are undefined are left unchanged.
+   *
+   * @returns true upon success, or false if the town does not exist, the password is wrong, or a
+   * setting is invalid
+   */
+  updateTown(
+    townID: string,
+    townUpdatePassword: string,
+    friendlyName?: string,
+    makePublic?: boolean,
+    capacity?: number,
+  ): boolean;
+
+  /**
+   * Deletes a town, disconnecting all of its players, after checking the town's update password
+   *
+   * @returns true if the town existed and was deleted, false otherwise
    */
-  getTownByID(townID: string): Town;
+  deleteTown(townID: string, townUpdatePassword: string): boolean;
 }
@@ -0,0 +1,80 @@
+/**
+ * The persistent record of a single user. Unlike a Player, which only lives as long as its
+ * connection to a town, a UserAccount survives disconnects and server restarts.
+ */
+export interface UserAccount {
+  /** The stable identifier for this user, used as their player ID in every town they join */
+  userID: string;
+
+  /** The secret token that a client presents when joining a town to resume this identity */
+  accountToken: string;
+
+  /** The user name that this user most recently joined a town with */
+  userName: string;
+
+  /** The IDs of the users that this user is friends with */
+  friendIDs: string[];
+
+  /** The IDs of the users that this user has blocked */
+  blockedIDs: string[];
+}
+
+/**
+ * An abstraction for a class that persists user accounts, the friendships between them,
+ * and the users that each has blocked
+ */
+export default interface IUserAccountStore {
+  /**
+   * Retrieve the account that a client's secret account token belongs to
+   *
+   * @param accountToken the token that the client presented
+   * @returns the matching account, or undefined if the token is not known
+   */
+  getAccountByToken(accountToken: string): UserAccount | undefined;
+
+  /**
+   * Retrieve an account by its stable user ID
+   *
+   * @param userID the ID of the requested user
+   * @returns the matching account, or undefined if there is no such user
+   */
+  getAccountByID(userID: string): UserAccount | undefined;
+
+  /**
+   * Create and persist a new account, with a freshly generated user ID and account token
+   *
+   * @param userName the user name that the new user joined with
+   */
+  createAccount(userName: string): UserAccount;
+
+  /**
+   * Record the user name that an existing user most recently joined with
+   *
+   * @param userID the user to update
+   * @param userName their new user name
+   */
+  updateUserName(userID: string, userName: string): void;
+
+  /**
+   * Record that two users are now friends. Friendships are mutual, so each user is added to
+   * the other's list of friends. Users that have no account are ignored.
+   */
+  addFriendship(userID: string, friendID: string): void;
+
+  /**
+   * Record that two users are no longer friends, removing each from the other's list of friends.
+   * Users that have no account are ignored.
+   */
+  removeFriendship(userID: string, friendID: string): void;
+
+  /**
+   * Record that a user has blocked another user. Unlike friendships, blocks are one-sided.
+   * Users that have no account are ignored.
+   */
+  blockUser(userID: string, blockedID: string): void;
+
+  /**
+   * Record that a user has unblocked another user. Users that have no account are ignored.
+   */
+  unblockUser(userID: string, blockedID: string): void;
+}
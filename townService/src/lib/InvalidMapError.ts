@@ -0,0 +1,13 @@
+import InvalidParametersError from './InvalidParametersError';
+
+/**
+ * Thrown when towns can't be created from an uploaded map, listing every problem with the map
+ */
+export default class InvalidMapError extends InvalidParametersError {
+  public problems: string[];
+
+  public constructor(problems: string[]) {
+    super(`Invalid map: ${problems.join('; ')}`);
+    this.problems = problems;
+  }
+}
@@ -0,0 +1,19 @@
+import InvalidParametersError from './InvalidParametersError';
+
+/**
+ * Thrown when the payload of an event that a client sent does not match its schema, saying where in
+ * the payload the problem is
+ */
+export default class InvalidPayloadError extends InvalidParametersError {
+  /** Where in the payload the problem is, e.g. `requesterLocation.x`, or '' for the payload itself */
+  public path: string;
+
+  /** What is wrong with the value at the path */
+  public problem: string;
+
+  public constructor(path: string, problem: string) {
+    super(path ? `${path}: ${problem}` : problem);
+    this.path = path;
+    this.problem = problem;
+  }
+}
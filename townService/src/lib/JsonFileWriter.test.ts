@@ -0,0 +1,67 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import JsonFileWriter from './JsonFileWriter';
+
+describe('JsonFileWriter', () => {
+  let directory: string;
+  let filePath: string;
+  let value: number[];
+  let getValue: jest.Mock<number[], []>;
+  let writer: JsonFileWriter;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'covey-json-'));
+    filePath = path.join(directory, 'saved.json');
+    value = [];
+    getValue = jest.fn(() => value);
+    writer = new JsonFileWriter(filePath, getValue);
+  });
+  afterEach(async () => {
+    await writer.flush();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Saves the value as it is when the write starts', async () => {
+    writer.save();
+    value.push(1);
+    await writer.flush();
+    expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual([1]);
+  });
+  it('Coalesces the saves that are requested while a write is in progress into a single write', async () => {
+    for (let i = 0; i < 10; i++) {
+      value.push(i);
+      writer.save();
+    }
+    await writer.flush();
+    expect(getValue).toBeCalledTimes(1);
+    for (let i = 10; i < 20; i++) {
+      value.push(i);
+      writer.save();
+    }
+    await writer.flush();
+    expect(getValue).toBeCalledTimes(2);
+    expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual([...Array(20).keys()]);
+  });
+  it('Resolves write once the file contains every change made so far', async () => {
+    writer.save();
+    value.push(1);
+    const firstWrite = writer.write();
+    await firstWrite;
+    value.push(2);
+    await writer.write();
+    expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual([1, 2]);
+  });
+  it('Rejects write, and logs the failure, if the file can not be written', async () => {
+    const trace = jest.spyOn(console, 'trace').mockImplementation(() => {});
+    const brokenWriter = new JsonFileWriter(
+      path.join(directory, 'missing', 'saved.json'),
+      getValue,
+    );
+    await expect(brokenWriter.write()).rejects.toThrowError();
+    brokenWriter.save();
+    await brokenWriter.flush();
+    expect(trace).toBeCalledTimes(2);
+    trace.mockRestore();
+  });
+});
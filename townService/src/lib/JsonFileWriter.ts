@@ -0,0 +1,63 @@
+import * as fs from 'fs/promises';
+import { logError } from '../Utils';
+
+/**
+ * Saves a value to a JSON file, for the stores that keep their state in memory and persist it to a
+ * file. Writes never overlap, and every save that is requested while a write is waiting to start is
+ * coalesced into that write, so a burst of changes costs at most two writes of the file.
+ */
+export default class JsonFileWriter {
+  private readonly _filePath: string;
+
+  /** Produces the value to save, which is read when each write starts so that it is up to date */
+  private readonly _getValue: () => unknown;
+
+  /** The most recently started or scheduled write, which never rejects */
+  private _lastWrite: Promise<void> = Promise.resolve();
+
+  /** The write that has been scheduled but not yet started, if any */
+  private _nextWrite?: Promise<void>;
+
+  /**
+   * @param filePath the JSON file to save to
+   * @param getValue produces the value to save
+   */
+  public constructor(filePath: string, getValue: () => unknown) {
+    this._filePath = filePath;
+    this._getValue = getValue;
+  }
+
+  /**
+   * Save the current value to the file in the background, logging any failure
+   */
+  public save(): void {
+    this.write().catch(() => {
+      // Already logged by write
+    });
+  }
+
+  /**
+   * Save the current value to the file
+   *
+   * @returns a promise that resolves once the file contains every change made so far, and rejects if
+   *  that write fails
+   */
+  public write(): Promise<void> {
+    if (!this._nextWrite) {
+      const nextWrite = this._lastWrite.then(() => {
+        this._nextWrite = undefined;
+        return fs.writeFile(this._filePath, JSON.stringify(this._getValue()), 'utf-8');
+      });
+      this._nextWrite = nextWrite;
+      this._lastWrite = nextWrite.catch(logError);
+    }
+    return this._nextWrite;
+  }
+
+  /**
+   * Wait for all changes saved so far to be written to the file
+   */
+  public async flush(): Promise<void> {
+    await this._lastWrite;
+  }
+}
@@ -0,0 +1,111 @@
+import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { mockDeep } from 'jest-mock-extended';
+import { tmpdir } from 'os';
+import path from 'path';
+import Town from '../town/Town';
+import { TownEmitter } from '../types/CoveyTownSocket';
+import MapCatalog, { DEFAULT_MAP_ID } from './MapCatalog';
+
+describe('MapCatalog', () => {
+  let directory: string;
+  let catalog: MapCatalog;
+  let tuxemonTown: ITiledMap;
+  const tilesetImage = { image: '../tilesets/tuxmon-sample-32px-extruded.png', data: 'aW1hZ2U=' };
+
+  beforeAll(async () => {
+    tuxemonTown = ITiledMap.parse(
+      JSON.parse(await readFile('../frontend/public/assets/tilemaps/tuxemon-town.json', 'utf-8')),
+    );
+  });
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'covey-maps-'));
+    catalog = new MapCatalog(directory);
+  });
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('Includes the default map', () => {
+    expect(catalog.listMaps().map(eachMap => eachMap.mapID)).toContain(DEFAULT_MAP_ID);
+  });
+  it('Has no file for a map that is not in the catalog', () => {
+    expect(catalog.getMapFile('noSuchMap')).toBeUndefined();
+  });
+  it.each(MapCatalog.getInstance().listMaps())(
+    'Can initialize a town from $mapID',
+    async ({ mapID }) => {
+      const mapFile = catalog.getMapFile(mapID);
+      expect(mapFile).toBeDefined();
+      const map = ITiledMap.parse(JSON.parse(await readFile(mapFile as string, 'utf-8')));
+      const town = new Town(mapID, true, mapID, mockDeep<TownEmitter>(), undefined, mapID);
+      expect(() => town.initializeFromMap(map)).not.toThrow();
+    },
+  );
+  describe('getTilesetFile', () => {
+    it('Resolves the image of a tileset relative to the map file', async () => {
+      const imageFile = await catalog.getTilesetFile(DEFAULT_MAP_ID, 0);
+      expect(imageFile).toBeDefined();
+      await expect(readFile(imageFile as string)).resolves.toBeDefined();
+    });
+    it('Returns undefined for a tileset or map that does not exist', async () => {
+      await expect(catalog.getTilesetFile(DEFAULT_MAP_ID, 1000)).resolves.toBeUndefined();
+      await expect(catalog.getTilesetFile('noSuchMap', 0)).resolves.toBeUndefined();
+    });
+  });
+  describe('findTilesetProblems', () => {
+    it('Finds no problems when every tileset has an uploaded image', () => {
+      expect(MapCatalog.findTilesetProblems(tuxemonTown, [tilesetImage])).toEqual([]);
+    });
+    it('Reports each tileset whose image is missing, empty or of the wrong type', () => {
+      const map = {
+        ...tuxemonTown,
+        tilesets: [
+          { ...tuxemonTown.tilesets[0], name: 'missing', image: 'missing.png' },
+          { ...tuxemonTown.tilesets[0], name: 'empty', image: 'empty.png' },
+          { ...tuxemonTown.tilesets[0], name: 'wrongType', image: 'tiles.bmp' },
+        ],
+      };
+      const problems = MapCatalog.findTilesetProblems(map, [
+        { image: 'empty.png', data: '' },
+        { image: 'tiles.bmp', data: 'aW1hZ2U=' },
+      ]);
+      expect(problems.length).toBe(3);
+      expect(problems[0]).toContain('missing');
+      expect(problems[1]).toContain('empty');
+      expect(problems[2]).toContain('wrongType');
+    });
+  });
+  describe('addMap', () => {
+    it('Refuses maps if no directory is configured for uploaded maps', async () => {
+      const withoutUploads = new MapCatalog();
+      expect(withoutUploads.acceptsUploads).toBe(false);
+      await expect(
+        withoutUploads.addMap('Uploaded', 'A test map', tuxemonTown, [tilesetImage]),
+      ).rejects.toThrowError();
+      expect(catalog.acceptsUploads).toBe(true);
+    });
+    it('Lists the new map, whose file can be used to initialize a town', async () => {
+      const newMap = await catalog.addMap('Uploaded', 'A test map', tuxemonTown, [tilesetImage]);
+      expect(catalog.listMaps()).toContainEqual(newMap);
+      const mapFile = catalog.getMapFile(newMap.mapID);
+      expect(mapFile).toBeDefined();
+      const map = ITiledMap.parse(JSON.parse(await readFile(mapFile as string, 'utf-8')));
+      const town = new Town('town', true, 'town', mockDeep<TownEmitter>(), undefined, newMap.mapID);
+      expect(() => town.initializeFromMap(map)).not.toThrow();
+    });
+    it('Saves the uploaded tileset images', async () => {
+      const newMap = await catalog.addMap('Uploaded', 'A test map', tuxemonTown, [tilesetImage]);
+      const imageFile = await catalog.getTilesetFile(newMap.mapID, 0);
+      expect(imageFile).toBeDefined();
+      expect((await readFile(imageFile as string)).toString()).toEqual('image');
+      expect(MapCatalog.tilesetImageType(imageFile as string)).toEqual('image/png');
+    });
+    it('Restores uploaded maps when a new catalog is created from the same directory', async () => {
+      const newMap = await catalog.addMap('Uploaded', 'A test map', tuxemonTown, [tilesetImage]);
+      const restored = new MapCatalog(directory);
+      expect(restored.listMaps()).toContainEqual(newMap);
+      expect(restored.getMapFile(newMap.mapID)).toEqual(catalog.getMapFile(newMap.mapID));
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import dotenv from 'dotenv';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import * as fs from 'fs/promises';
+import { customAlphabet } from 'nanoid';
+import path from 'path';
+import { TownMap, TownMapTileset } from '../api/Model';
+import JsonFileWriter from './JsonFileWriter';
+
+dotenv.config();
+
+/**
+ * The map that towns are created from, unless another map is chosen
+ */
+export const DEFAULT_MAP_ID = 'indoors';
+
+/**
+ * The directory of the Tiled JSON maps that are bundled with the frontend. The townService reads the
+ * same files, so that a town's interactable areas match the map that its players see.
+ */
+const TILEMAPS_DIRECTORY = '../frontend/public/assets/tilemaps';
+
+/**
+ * The name of the file, in the uploaded maps directory, that lists every uploaded map
+ */
+const UPLOADED_MAPS_INDEX = 'maps.json';
+
+/**
+ * The content type of each kind of image that tilesets may use, by file extension
+ */
+const tilesetImageTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+};
+
+const uploadedMapNanoID = customAlphabet('1234567890abcdef', 8);
+
+/**
+ * A map in the catalog, along with the Tiled JSON file that it is read from. Paths to tileset images
+ * in the file are relative to the file.
+ */
+export type CatalogEntry = TownMap & { mapFile: string };
+
+/**
+ * The maps that are bundled with the frontend, which every catalog includes unless it is created with
+ * other maps in their place
+ */
+export const BUNDLED_MAPS: CatalogEntry[] = [
+  {
+    mapID: DEFAULT_MAP_ID,
+    name: 'Indoors',
+    description: 'A two-floor office, with conversation tables and viewing areas',
+  },
+  {
+    mapID: 'tuxemon-town',
+    name: 'Tuxemon Town',
+    description: 'A small outdoor town, with a statue and a fountain',
+  },
+].map(eachMap => ({ ...eachMap, mapFile: `${TILEMAPS_DIRECTORY}/${eachMap.mapID}.json` }));
+
+/**
+ * The catalog of maps that towns can be created from: the maps that are bundled with the frontend, and
+ * maps that have been uploaded (@see addMap).
+ *
+ * Uploaded maps are saved to the directory named by UPLOADED_MAPS_DIRECTORY, and read back from it when
+ * the catalog is created. If no directory is configured, the catalog does not accept uploaded maps.
+ */
+export default class MapCatalog {
+  private static _instance: MapCatalog;
+
+  /** Every map in the catalog, by map ID */
+  private _maps: Map<string, CatalogEntry>;
+
+  private readonly _uploadedMapsDirectory?: string;
+
+  /** The maps that have been uploaded, in the order that they were uploaded */
+  private _uploadedMaps: TownMap[] = [];
+
+  /** Saves the list of uploaded maps to the index in the uploaded maps directory, if there is one */
+  private readonly _indexWriter?: JsonFileWriter;
+
+  /**
+   * Creates a new catalog, including any maps that were previously uploaded to the given directory
+   *
+   * @param uploadedMapsDirectory the directory to save uploaded maps to, or undefined to not accept
+   *  uploaded maps
+   * @param bundledMaps the maps that are available without being uploaded
+   */
+  public constructor(uploadedMapsDirectory?: string, bundledMaps = BUNDLED_MAPS) {
+    this._maps = new Map(bundledMaps.map(eachMap => [eachMap.mapID, eachMap]));
+    if (!uploadedMapsDirectory) {
+      return;
+    }
+    mkdirSync(uploadedMapsDirectory, { recursive: true });
+    this._uploadedMapsDirectory = uploadedMapsDirectory;
+    const indexFile = path.join(uploadedMapsDirectory, UPLOADED_MAPS_INDEX);
+    this._indexWriter = new JsonFileWriter(indexFile, () => this._uploadedMaps);
+    if (existsSync(indexFile)) {
+      this._uploadedMaps = JSON.parse(readFileSync(indexFile, 'utf-8')) as TownMap[];
+      this._uploadedMaps.forEach(eachMap => this._addEntry(uploadedMapsDirectory, eachMap));
+    }
+  }
+
+  /**
+   * Retrieve the singleton MapCatalog, which saves uploaded maps to the directory named by
+   * UPLOADED_MAPS_DIRECTORY
+   */
+  public static getInstance(): MapCatalog {
+    if (!MapCatalog._instance) {
+      MapCatalog._instance = new MapCatalog(process.env.UPLOADED_MAPS_DIRECTORY);
+    }
+    return MapCatalog._instance;
+  }
+
+  /**
+   * Replaces the singleton MapCatalog with a new catalog
+   *
+   * @param uploadedMapsDirectory the directory to save uploaded maps to, or undefined to not accept
+   *  uploaded maps
+   * @param bundledMaps the maps that are available without being uploaded
+   */
+  public static initializeMapCatalog(
+    uploadedMapsDirectory?: string,
+    bundledMaps = BUNDLED_MAPS,
+  ): void {
+    MapCatalog._instance = new MapCatalog(uploadedMapsDirectory, bundledMaps);
+  }
+
+  /**
+   * Whether maps can be added to the catalog, which requires a directory to save them to
+   */
+  public get acceptsUploads(): boolean {
+    return this._uploadedMapsDirectory !== undefined;
+  }
+
+  /**
+   * @returns every map in the catalog
+   */
+  public listMaps(): TownMap[] {
+    return [...this._maps.values()].map(({ mapID, name, description }) => ({
+      mapID,
+      name,
+      description,
+    }));
+  }
+
+  /**
+   * Retrieve the Tiled JSON file of a map in the catalog
+   *
+   * @param mapID the ID of the requested map
+   * @returns the path to the map's file, or undefined if there is no such map
+   */
+  public getMapFile(mapID: string): string | undefined {
+    return this._maps.get(mapID)?.mapFile;
+  }
+
+  /**
+   * Retrieve the image file of one of the tilesets of a map in the catalog
+   *
+   * @param mapID the ID of the map
+   * @param tilesetIndex the position of the tileset in the map's list of tilesets
+   * @returns the path to the tileset's image, or undefined if there is no such map or tileset, or the
+   *  tileset has no image
+   */
+  public async getTilesetFile(mapID: string, tilesetIndex: number): Promise<string | undefined> {
+    const mapFile = this.getMapFile(mapID);
+    if (!mapFile) {
+      return undefined;
+    }
+    const map = ITiledMap.parse(JSON.parse(await fs.readFile(mapFile, 'utf-8')));
+    const image = map.tilesets[tilesetIndex]?.image;
+    if (!image) {
+      return undefined;
+    }
+    return path.join(path.dirname(mapFile), image);
+  }
+
+  /**
+   * @returns the content type of a tileset image file, based on its extension
+   */
+  public static tilesetImageType(imageFile: string): string {
+    return tilesetImageTypes[path.extname(imageFile).toLowerCase()] ?? 'application/octet-stream';
+  }
+
+  /**
+   * Checks that every tileset of a map that is about to be uploaded has an image among the uploaded
+   * images. Tilesets that are not embedded in the map have no image, so the map would not have parsed.
+   *
+   * @param map the map to check
+   * @param tilesets the uploaded tileset images
+   * @returns a description of each problem with the map's tilesets, or an empty list if there are none
+   */
+  public static findTilesetProblems(map: ITiledMap, tilesets: TownMapTileset[]): string[] {
+    const problems: string[] = [];
+    map.tilesets.forEach(({ name, image }) => {
+      const uploadedImage = tilesets.find(eachImage => eachImage.image === image);
+      if (!uploadedImage) {
+        problems.push(`Missing the image ${image} of tileset ${name}`);
+      } else if (!tilesetImageTypes[path.extname(image).toLowerCase()]) {
+        problems.push(`The image ${image} of tileset ${name} must be a PNG, JPEG or GIF file`);
+      } else if (uploadedImage.data.length === 0) {
+        problems.push(`The image ${image} of tileset ${name} is empty`);
+      }
+    });
+    return problems;
+  }
+
+  /**
+   * Adds a map to the catalog, saving the map and its tileset images to the uploaded maps directory.
+   * The map must already have been validated, @see findTilesetProblems and Town.findMapProblems
+   *
+   * @param name the name that users see when choosing a map for a new town
+   * @param description a short description of the map
+   * @param map the map to add
+   * @param tilesets the image of each of the map's tilesets, by the image path in the map
+   * @returns the newly added map
+   * @throws Error if the catalog does not accept uploaded maps (@see acceptsUploads)
+   */
+  public async addMap(
+    name: string,
+    description: string,
+    map: ITiledMap,
+    tilesets: TownMapTileset[],
+  ): Promise<TownMap> {
+    const uploadedMapsDirectory = this._uploadedMapsDirectory;
+    if (!uploadedMapsDirectory) {
+      throw new Error('No directory is configured for uploaded maps');
+    }
+    const newMap: TownMap = { mapID: `uploaded-${uploadedMapNanoID()}`, name, description };
+    const imagesDirectory = path.join(uploadedMapsDirectory, newMap.mapID);
+    await fs.mkdir(imagesDirectory);
+    // Store each image under a name of our choosing, rather than trusting the paths in the map
+    const savedMap = {
+      ...map,
+      tilesets: await Promise.all(
+        map.tilesets.map(async (eachTileset, index) => {
+          const tileset = tilesets.find(eachImage => eachImage.image === eachTileset.image);
+          if (!tileset) {
+            return eachTileset;
+          }
+          const imageName = `${index}${path.extname(tileset.image)}`;
+          await fs.writeFile(
+            path.join(imagesDirectory, imageName),
+            Buffer.from(tileset.data, 'base64'),
+          );
+          return { ...eachTileset, image: `${newMap.mapID}/${imageName}` };
+        }),
+      ),
+    };
+    await fs.writeFile(
+      path.join(uploadedMapsDirectory, `${newMap.mapID}.json`),
+      JSON.stringify(savedMap),
+      'utf-8',
+    );
+    this._uploadedMaps.push(newMap);
+    this._addEntry(uploadedMapsDirectory, newMap);
+    await this._indexWriter?.write();
+    return newMap;
+  }
+
+  private _addEntry(uploadedMapsDirectory: string, uploadedMap: TownMap): void {
+    this._maps.set(uploadedMap.mapID, {
+      ...uploadedMap,
+      mapFile: path.join(uploadedMapsDirectory, `${uploadedMap.mapID}.json`),
+    });
+  }
+}
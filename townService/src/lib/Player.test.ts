@@ -105,6 +105,26 @@ describe('Player', () => {
     });
   });
   // Potential TODO: remove when refactoring
+  describe('block', () => {
+    it('Adds the given player to this players block list only', () => {
+      player.block(player2.id);
+      expect(player.hasBlocked(player2.id)).toBe(true);
+      expect(player2.hasBlocked(player.id)).toBe(false);
+    });
+    it('Does not add the repeated player to this players block list', () => {
+      player.block(player2.id);
+      player.block(player2.id);
+      expect(player.blockedIDs).toEqual([player2.id]);
+    });
+  });
+  describe('unblock', () => {
+    it('Removes the given player from this players block list', () => {
+      player.block(player2.id);
+      player.block(player3.id);
+      player.unblock(player2.id);
+      expect(player.blockedIDs).toEqual([player3.id]);
+    });
+  });
   describe('selectFriends', () => {
     it('Adds the other player to the current players selected friends list', () => {
       player.addFriend(player2);
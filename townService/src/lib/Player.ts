@@ -27,6 +27,9 @@ export default class Player {
   /** The current set of friends this player has. */
   private _friends: Player[] = [];
 
+  /** The IDs of the players that this player has blocked, who may not send this player anything. */
+  private _blockedIDs: string[] = [];
+
   // Potential TODO: remove when refactoring
   /** The current set of selected friends this player has. This list is used for requesting multiple friends
    * at once to join a conversation area, or sending a message to multiple friends. */
@@ -35,10 +38,18 @@ export default class Player {
   /** The current list of invites to conversation areas that this player has recieved. */
   private _conversationAreaInvites: TeleportInviteSingular[] = [];
 
-  /** A special town emitter that will emit events to the entire town BUT NOT to this player. */
-  public readonly townEmitter: TownEmitter;
+  /**
+   * A special town emitter that will emit events to the entire town BUT NOT to this player. It is
+   * replaced whenever the player resumes their session on a new socket.
+   */
+  public townEmitter: TownEmitter;
 
-  constructor(userName: string, townEmitter: TownEmitter) {
+  /**
+   * @param userName the name this player chose when joining the town
+   * @param townEmitter an emitter for events to the entire town except this player
+   * @param id the stable ID of this player's account, or a freshly generated ID if they have none
+   */
+  constructor(userName: string, townEmitter: TownEmitter, id: string = nanoid()) {
     this.location = {
       x: 0,
       y: 0,
@@ -46,7 +57,7 @@ export default class Player {
       rotation: 'front',
     };
     this._userName = userName;
-    this._id = nanoid();
+    this._id = id;
     this._sessionToken = nanoid();
     this.townEmitter = townEmitter;
   }
@@ -83,6 +94,10 @@ export default class Player {
     return this._friends;
   }
 
+  get blockedIDs(): string[] {
+    return this._blockedIDs;
+  }
+
   // Potential TODO: remove when refactoring
   get selectedFriends(): Player[] {
     return this._selectedFriends;
@@ -123,6 +138,36 @@ export default class Player {
     }
   }
 
+  /**
+   * Add the player with the given ID to this player's block list. Ignores the request if they are
+   * already blocked.
+   *
+   * @param playerID the ID of the player to block.
+   */
+  public block(playerID: string): void {
+    if (!this._blockedIDs.includes(playerID)) {
+      this._blockedIDs.push(playerID);
+    }
+  }
+
+  /**
+   * Remove the player with the given ID from this player's block list.
+   *
+   * @param playerID the ID of the player to unblock.
+   */
+  public unblock(playerID: string): void {
+    this._blockedIDs = this._blockedIDs.filter(blockedID => blockedID !== playerID);
+  }
+
+  /**
+   * Returns true if this player has blocked the player with the given ID.
+   *
+   * @param playerID the ID of the player to check.
+   */
+  public hasBlocked(playerID: string): boolean {
+    return this._blockedIDs.includes(playerID);
+  }
+
   // Potential TODO: remove when refactoring
   /**
    * Add the given friend to this player's selected friends list. Assumes this player is already a
@@ -0,0 +1,55 @@
+import RateLimiter, { defaultRateLimits } from './RateLimiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['performance'] });
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('tryConsume', () => {
+    it('Allows a burst of events, and then one more each time the limit refills', () => {
+      const rateLimiter = new RateLimiter({ default: { burst: 2, perSecond: 4 } });
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(0);
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(0);
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(250);
+      jest.advanceTimersByTime(100);
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(150);
+      jest.advanceTimersByTime(150);
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(0);
+    });
+    it('Never refills beyond the burst', () => {
+      const rateLimiter = new RateLimiter({ default: { burst: 1, perSecond: 1 } });
+      jest.advanceTimersByTime(10 * 1000);
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(0);
+      expect(rateLimiter.tryConsume('chatMessage')).toBeGreaterThan(0);
+    });
+    it('Uses the limit for each kind of event, falling back to the default', () => {
+      const rateLimiter = new RateLimiter({
+        default: { burst: 1, perSecond: 1 },
+        playerMovement: { burst: 3, perSecond: 1 },
+      });
+      for (let i = 0; i < 3; i += 1) {
+        expect(rateLimiter.tryConsume('playerMovement')).toBe(0);
+      }
+      expect(rateLimiter.tryConsume('playerMovement')).toBeGreaterThan(0);
+      expect(rateLimiter.tryConsume('chatMessage')).toBe(0);
+      expect(rateLimiter.tryConsume('chatMessage')).toBeGreaterThan(0);
+    });
+  });
+  describe('recordViolation', () => {
+    it('Says to disconnect the client once it has too many violations', () => {
+      const rateLimiter = new RateLimiter(defaultRateLimits, 2);
+      expect(rateLimiter.recordViolation()).toBe(false);
+      expect(rateLimiter.recordViolation()).toBe(false);
+      expect(rateLimiter.recordViolation()).toBe(true);
+    });
+  });
+  describe('dropsSilently', () => {
+    it('Drops movements silently, but not events that other players are told about', () => {
+      expect(RateLimiter.dropsSilently('playerMovement')).toBe(true);
+      expect(RateLimiter.dropsSilently('chatMessage')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import dotenv from 'dotenv';
+import { ClientToServerEvents } from '../types/CoveyTownSocket';
+import { logError } from '../Utils';
+import TokenBucket, { RateLimit } from './TokenBucket';
+
+dotenv.config();
+
+/**
+ * The limit for each kind of event that a client may send, plus a default for every other kind
+ */
+export type RateLimits = Partial<Record<keyof ClientToServerEvents, RateLimit>> & {
+  default: RateLimit;
+};
+
+/**
+ * The limits that each client is held to, unless RATE_LIMITS overrides some of them. The frontend
+ * sends its player's movement up to 20 times a second, so movement is allowed far more often than the
+ * events that other players are told about.
+ */
+export const defaultRateLimits: RateLimits = {
+  default: { burst: 20, perSecond: 5 },
+  playerMovement: { burst: 60, perSecond: 30 },
+  chatMessage: { burst: 5, perSecond: 1 },
+  sendMiniMessage: { burst: 5, perSecond: 1 },
+  sendFriendRequest: { burst: 5, perSecond: 0.2 },
+  inviteAllToConvArea: { burst: 5, perSecond: 0.2 },
+};
+
+/**
+ * The events that clients send continuously while their player moves. Those over the limit are dropped
+ * without counting as violations: the client sends a newer one soon after, and a client that sends one
+ * on every frame of a fast display is not misbehaving.
+ */
+const SILENTLY_LIMITED_EVENTS: (keyof ClientToServerEvents)[] = ['playerMovement'];
+
+/**
+ * How many events a client may have dropped before it is disconnected, unless
+ * RATE_LIMIT_MAX_VIOLATIONS says otherwise
+ */
+export const DEFAULT_RATE_LIMIT_MAX_VIOLATIONS = 20;
+
+/**
+ * How often a client is forgiven one of the events that it had dropped
+ */
+export const RATE_LIMIT_VIOLATION_DECAY_MS = 10 * 1000;
+
+/**
+ * Reads the rate limits from RATE_LIMITS, a JSON object with the same shape as defaultRateLimits
+ * whose limits replace the default ones. Falls back to the defaults if it is unset or not valid JSON.
+ */
+function rateLimitsFromEnv(): RateLimits {
+  if (!process.env.RATE_LIMITS) {
+    return defaultRateLimits;
+  }
+  try {
+    return { ...defaultRateLimits, ...JSON.parse(process.env.RATE_LIMITS) };
+  } catch (e) {
+    logError(e);
+    return defaultRateLimits;
+  }
+}
+
+/**
+ * Reads the maximum number of violations from RATE_LIMIT_MAX_VIOLATIONS, falling back to the default
+ * if it is unset or not a positive number
+ */
+function maxViolationsFromEnv(): number {
+  const value = Number(process.env.RATE_LIMIT_MAX_VIOLATIONS);
+  return value > 0 ? value : DEFAULT_RATE_LIMIT_MAX_VIOLATIONS;
+}
+
+/**
+ * Limits how often a single client may send each kind of event, with a separate token bucket for
+ * each kind of event. Events over the limit are counted as violations, and a client that racks up
+ * too many violations should be disconnected.
+ */
+export default class RateLimiter {
+  private readonly _limits: RateLimits;
+
+  private _buckets: Map<string, TokenBucket> = new Map();
+
+  private _violations: TokenBucket;
+
+  /**
+   * Creates a new rate limiter for one client, with full buckets
+   *
+   * @param limits the limit for each kind of event, defaults to RATE_LIMITS
+   * @param maxViolations how many events may be over the limit before the client should be
+   *  disconnected, defaults to RATE_LIMIT_MAX_VIOLATIONS
+   */
+  public constructor(limits = rateLimitsFromEnv(), maxViolations = maxViolationsFromEnv()) {
+    this._limits = limits;
+    this._violations = new TokenBucket({
+      burst: maxViolations,
+      perSecond: 1000 / RATE_LIMIT_VIOLATION_DECAY_MS,
+    });
+  }
+
+  /**
+   * Records that the client sent an event, if it is within the limit for that kind of event
+   *
+   * @param event the kind of event that the client sent
+   * @returns 0 if the event is within the limit, or else how many milliseconds until the client may
+   *  send another event of this kind
+   */
+  public tryConsume(event: keyof ClientToServerEvents): number {
+    let bucket = this._buckets.get(event);
+    if (!bucket) {
+      bucket = new TokenBucket(this._limits[event] ?? this._limits.default);
+      this._buckets.set(event, bucket);
+    }
+    return bucket.take();
+  }
+
+  /**
+   * @returns true if events of this kind that are over the limit should be dropped without telling the
+   *  client or recording a violation
+   */
+  public static dropsSilently(event: keyof ClientToServerEvents): boolean {
+    return SILENTLY_LIMITED_EVENTS.includes(event);
+  }
+
+  /**
+   * Records that the client sent an event that was over the limit
+   *
+   * @returns true if the client has now sent too many events over the limit, and should be disconnected
+   */
+  public recordViolation(): boolean {
+    return this._violations.take() > 0;
+  }
+}
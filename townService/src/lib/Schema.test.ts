@@ -0,0 +1,84 @@
+import InvalidPayloadError from './InvalidPayloadError';
+import { array, boolean, number, object, oneOf, optional, Schema, string, union } from './Schema';
+
+/**
+ * Expects that the schema rejects the value, with an error about the given path
+ */
+function expectRejected<T>(schema: Schema<T>, value: unknown, path: string) {
+  try {
+    schema(value, '');
+  } catch (e) {
+    expect(e).toBeInstanceOf(InvalidPayloadError);
+    expect((e as InvalidPayloadError).path).toBe(path);
+    return;
+  }
+  throw new Error(`Expected ${JSON.stringify(value)} to be rejected`);
+}
+
+describe('Schema', () => {
+  describe('Primitives', () => {
+    it('Accepts values of the right type', () => {
+      expect(string()('hello', '')).toBe('hello');
+      expect(number()(-1.5, '')).toBe(-1.5);
+      expect(boolean()(false, '')).toBe(false);
+      expect(oneOf('front', 'back')('back', '')).toBe('back');
+    });
+    it('Rejects values of the wrong type', () => {
+      expectRejected(string(), 1, '');
+      expectRejected(number(), '1', '');
+      expectRejected(boolean(), 'true', '');
+      expectRejected(oneOf('front', 'back'), 'up', '');
+    });
+    it('Rejects numbers that are not finite', () => {
+      expectRejected(number(), NaN, '');
+      expectRejected(number(), Infinity, '');
+    });
+  });
+  describe('optional', () => {
+    it('Accepts undefined, or a value that matches the schema', () => {
+      expect(optional(string())(undefined, '')).toBeUndefined();
+      expect(optional(string())('hello', '')).toBe('hello');
+    });
+    it('Rejects null and values that do not match the schema', () => {
+      expectRejected(optional(string()), null, '');
+      expectRejected(optional(string()), 1, '');
+    });
+  });
+  describe('array', () => {
+    it('Checks each element, saying which one is wrong', () => {
+      expect(array(string())(['a', 'b'], '')).toEqual(['a', 'b']);
+      expectRejected(array(string()), ['a', 2], '[1]');
+      expectRejected(array(string()), 'a', '');
+    });
+  });
+  describe('object', () => {
+    const schema = object({
+      id: string(),
+      location: object({ x: number(), y: number() }),
+      topic: optional(string()),
+    });
+    it('Checks each property, saying which one is wrong', () => {
+      expectRejected(schema, { id: 'a', location: { x: 1 } }, 'location.y');
+      expectRejected(schema, { id: 'a', location: { x: 1, y: 2 }, topic: 3 }, 'topic');
+      expectRejected(schema, null, '');
+      expectRejected(schema, [], '');
+    });
+    it('Drops properties that are not in the schema, and optional properties that are missing', () => {
+      const checked = schema({ id: 'a', location: { x: 1, y: 2, z: 3 }, extra: true }, '');
+      expect(checked).toStrictEqual({ id: 'a', location: { x: 1, y: 2 } });
+    });
+  });
+  describe('union', () => {
+    const schema = union<{ type: 'a'; a: string } | { type: 'b'; b: number }>(
+      object({ type: oneOf('a'), a: string() }),
+      object({ type: oneOf('b'), b: number() }),
+    );
+    it('Accepts a value that matches any of the schemas', () => {
+      expect(schema({ type: 'a', a: 'x' }, '')).toEqual({ type: 'a', a: 'x' });
+      expect(schema({ type: 'b', b: 1 }, '')).toEqual({ type: 'b', b: 1 });
+    });
+    it('Rejects a value that matches none of the schemas', () => {
+      expectRejected(schema, { type: 'b', b: 'x' }, '');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import InvalidPayloadError from './InvalidPayloadError';
+
+/**
+ * Checks at runtime that a value that a client sent has the type T. A schema returns a copy of the
+ * value that has only the properties that the schema knows about, so that nothing it did not check
+ * reaches the rest of the townService.
+ *
+ * @param value the value to check
+ * @param path where the value is in the payload that it came from, for error messages
+ * @returns the checked value
+ * @throws InvalidPayloadError if the value does not have the type T
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * The type that a schema checks for
+ */
+export type SchemaType<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Appends a property name to a path, @see Schema
+ */
+function propertyPath(path: string, property: string): string {
+  return path ? `${path}.${property}` : property;
+}
+
+export function string(): Schema<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') {
+      throw new InvalidPayloadError(path, 'Expected a string');
+    }
+    return value;
+  };
+}
+
+/**
+ * A schema for numbers, which must be finite
+ */
+export function number(): Schema<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidPayloadError(path, 'Expected a finite number');
+    }
+    return value;
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') {
+      throw new InvalidPayloadError(path, 'Expected true or false');
+    }
+    return value;
+  };
+}
+
+/**
+ * A schema for a union of string literals, e.g. `oneOf('front', 'back')`
+ */
+export function oneOf<T extends string>(...allowed: T[]): Schema<T> {
+  return (value, path) => {
+    if (!allowed.includes(value as T)) {
+      throw new InvalidPayloadError(path, `Expected one of ${allowed.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * A schema for a value that may be left out, which must otherwise match the given schema
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : schema(value, path));
+}
+
+/**
+ * A schema for an array, each of whose elements must match the given schema
+ */
+export function array<T>(elementSchema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new InvalidPayloadError(path, 'Expected an array');
+    }
+    return value.map((element, index) => elementSchema(element, `${path}[${index}]`));
+  };
+}
+
+/**
+ * A schema for an object with the given properties, each of which must match its own schema.
+ * Properties that are not in the schema are dropped, and so are optional properties that are missing.
+ */
+export function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape,
+): Schema<{ [Property in keyof Shape]: SchemaType<Shape[Property]> }> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new InvalidPayloadError(path, 'Expected an object');
+    }
+    const checked: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([property, propertySchema]) => {
+      const propertyValue = propertySchema(
+        (value as Record<string, unknown>)[property],
+        propertyPath(path, property),
+      );
+      if (propertyValue !== undefined) {
+        checked[property] = propertyValue;
+      }
+    });
+    return checked as { [Property in keyof Shape]: SchemaType<Shape[Property]> };
+  };
+}
+
+/**
+ * A schema for a value that must match at least one of the given schemas, which are tried in order
+ */
+export function union<T>(...schemas: Schema<T>[]): Schema<T> {
+  return (value, path) => {
+    const problems: string[] = [];
+    for (const schema of schemas) {
+      try {
+        return schema(value, path);
+      } catch (e) {
+        if (!(e instanceof InvalidPayloadError)) {
+          throw e;
+        }
+        problems.push(e.message);
+      }
+    }
+    throw new InvalidPayloadError(path, `Expected one of: ${problems.join(' or ')}`);
+  };
+}
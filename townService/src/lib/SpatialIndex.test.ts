@@ -0,0 +1,47 @@
+import SpatialIndex from './SpatialIndex';
+
+describe('SpatialIndex', () => {
+  let index: SpatialIndex;
+  beforeEach(() => {
+    index = new SpatialIndex(100);
+    index.update('inside', 150, 150);
+    index.update('onEdge', 300, 50);
+    index.update('outside', 450, 150);
+    index.update('negative', -50, -50);
+  });
+
+  describe('within', () => {
+    it('Finds the points inside of a box, including those on its edges', () => {
+      expect(index.within({ x: 0, y: 0, width: 300, height: 300 }).sort()).toEqual([
+        'inside',
+        'onEdge',
+      ]);
+    });
+    it('Finds points at negative coordinates', () => {
+      expect(index.within({ x: -60, y: -60, width: 20, height: 20 })).toEqual(['negative']);
+    });
+    it('Finds nothing in a box without any points', () => {
+      expect(index.within({ x: 500, y: 500, width: 1000, height: 1000 })).toEqual([]);
+    });
+  });
+  describe('update', () => {
+    it('Moves points that are already in the index, between cells or within one', () => {
+      index.update('inside', 950, 950);
+      index.update('outside', 460, 160);
+      expect(index.within({ x: 0, y: 0, width: 300, height: 300 })).toEqual(['onEdge']);
+      expect(index.within({ x: 900, y: 900, width: 100, height: 100 })).toEqual(['inside']);
+      expect(index.within({ x: 455, y: 155, width: 10, height: 10 })).toEqual(['outside']);
+    });
+  });
+  describe('remove', () => {
+    it('Removes points, and ignores points that are not in the index', () => {
+      index.remove('inside');
+      index.remove('missing');
+      expect(index.within({ x: -100, y: -100, width: 1000, height: 1000 }).sort()).toEqual([
+        'negative',
+        'onEdge',
+        'outside',
+      ]);
+    });
+  });
+});
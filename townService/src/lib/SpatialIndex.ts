@@ -0,0 +1,113 @@
+import { BoundingBox } from '../types/CoveyTownSocket';
+
+/**
+ * The width and height of each cell of a spatial index, in pixels, unless the index is created with
+ * another cell size
+ */
+export const DEFAULT_CELL_SIZE = 256;
+
+/**
+ * An index of points by where they are: a grid of square cells, each holding the IDs of the points
+ * inside of it, so that finding the points in a box only looks at the cells that the box overlaps
+ */
+export default class SpatialIndex {
+  private readonly _cellSize: number;
+
+  /* The IDs of the points in each cell that has any, by cell key (@see _cellKey) */
+  private _cells: Map<string, Set<string>> = new Map();
+
+  /* Where each point is, by ID */
+  private _points: Map<string, { x: number; y: number }> = new Map();
+
+  /**
+   * Creates a new, empty index
+   *
+   * @param cellSize the width and height of each cell, in pixels
+   */
+  constructor(cellSize = DEFAULT_CELL_SIZE) {
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Adds a point to the index, or moves a point that is already in it
+   *
+   * @param id the ID of the point
+   * @param x the x coordinate of the point
+   * @param y the y coordinate of the point
+   */
+  update(id: string, x: number, y: number): void {
+    const previousPoint = this._points.get(id);
+    const cellKey = this._cellKey(x, y);
+    if (previousPoint) {
+      const previousCellKey = this._cellKey(previousPoint.x, previousPoint.y);
+      if (previousCellKey !== cellKey) {
+        this._removeFromCell(previousCellKey, id);
+      }
+    }
+    this._points.set(id, { x, y });
+    const cell = this._cells.get(cellKey);
+    if (cell) {
+      cell.add(id);
+    } else {
+      this._cells.set(cellKey, new Set([id]));
+    }
+  }
+
+  /**
+   * Removes a point from the index, if it is in it
+   *
+   * @param id the ID of the point
+   */
+  remove(id: string): void {
+    const point = this._points.get(id);
+    if (point) {
+      this._removeFromCell(this._cellKey(point.x, point.y), id);
+      this._points.delete(id);
+    }
+  }
+
+  /**
+   * Finds the points inside of a box, including those on its edges
+   *
+   * @param box the box to search
+   * @returns the ID of each point in the box, in no particular order
+   */
+  within({ x, y, width, height }: BoundingBox): string[] {
+    const ids: string[] = [];
+    const [firstColumn, firstRow] = this._cellOf(x, y);
+    const [lastColumn, lastRow] = this._cellOf(x + width, y + height);
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      for (let row = firstRow; row <= lastRow; row++) {
+        this._cells.get(`${column},${row}`)?.forEach(id => {
+          const point = this._points.get(id);
+          if (
+            point &&
+            point.x >= x &&
+            point.x <= x + width &&
+            point.y >= y &&
+            point.y <= y + height
+          ) {
+            ids.push(id);
+          }
+        });
+      }
+    }
+    return ids;
+  }
+
+  private _cellOf(x: number, y: number): [number, number] {
+    return [Math.floor(x / this._cellSize), Math.floor(y / this._cellSize)];
+  }
+
+  private _cellKey(x: number, y: number): string {
+    return this._cellOf(x, y).join(',');
+  }
+
+  private _removeFromCell(cellKey: string, id: string): void {
+    const cell = this._cells.get(cellKey);
+    cell?.delete(id);
+    if (cell?.size === 0) {
+      this._cells.delete(cellKey);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * The limit on how often something may happen: up to `burst` times at once, and then `perSecond`
+ * more times each second
+ */
+export type RateLimit = {
+  burst: number;
+  perSecond: number;
+};
+
+/**
+ * A token bucket: it starts full, each event takes tokens out of it (one, unless the event is bigger
+ * than others), and it refills at a steady rate up to its capacity
+ */
+export default class TokenBucket {
+  private readonly _limit: RateLimit;
+
+  private _tokens: number;
+
+  private _refilledAt: number;
+
+  /**
+   * Creates a new, full bucket
+   *
+   * @param limit the capacity of the bucket (burst) and how fast it refills (perSecond)
+   */
+  constructor(limit: RateLimit) {
+    this._limit = limit;
+    this._tokens = limit.burst;
+    this._refilledAt = Date.now();
+  }
+
+  /**
+   * Takes tokens out of the bucket, if there are enough of them
+   *
+   * @param tokens how many tokens to take
+   * @returns 0 if the tokens were taken, or else how many milliseconds until there are enough tokens
+   */
+  take(tokens = 1): number {
+    const now = Date.now();
+    this._tokens = Math.min(
+      this._limit.burst,
+      this._tokens + ((now - this._refilledAt) / 1000) * this._limit.perSecond,
+    );
+    this._refilledAt = now;
+    if (this._tokens >= tokens) {
+      this._tokens -= tokens;
+      return 0;
+    }
+    return Math.ceil(((tokens - this._tokens) / this._limit.perSecond) * 1000);
+  }
+}
@@ -1,8 +1,11 @@
 import { ITiledMap } from '@jonbell/tiled-map-type-guard';
 import * as fs from 'fs/promises';
 import { customAlphabet } from 'nanoid';
-import Town from '../town/Town';
+import Town, { DEFAULT_TOWN_CAPACITY } from '../town/Town';
 import { TownEmitterFactory } from '../types/CoveyTownSocket';
+import InvalidParametersError from './InvalidParametersError';
+import ITownsStore, { TownList } from './ITownsStore';
+import MapCatalog, { DEFAULT_MAP_ID } from './MapCatalog';
 
 function passwordMatches(provided: string, expected: string): boolean {
   if (provided === expected) {
@@ -14,21 +17,22 @@ function passwordMatches(provided: string, expected: string): boolean {
   return false;
 }
 
-const friendlyNanoID = customAlphabet('1234567890ABCDEF', 8);
+function isValidCapacity(capacity: number): boolean {
+  return Number.isInteger(capacity) && capacity > 0;
+}
 
-export type TownList = {
-  friendlyName: string;
-  townID: string;
-  currentOccupancy: number;
-  maximumOccupancy: number;
-}[];
+const friendlyNanoID = customAlphabet('1234567890ABCDEF', 8);
 
-export default class TownsStore {
-  private static _instance: TownsStore;
+/**
+ * The default towns store, which only keeps towns in memory: all towns are lost when the server restarts.
+ * @see FileTownsStore for a store that saves towns to a file.
+ */
+export default class TownsStore implements ITownsStore {
+  protected static _instance: TownsStore;
 
-  private _towns: Town[] = [];
+  protected _towns: Town[] = [];
 
-  private _emitterFactory: TownEmitterFactory;
+  protected _emitterFactory: TownEmitterFactory;
 
   static initializeTownsStore(emitterFactory: TownEmitterFactory) {
     TownsStore._instance = new TownsStore(emitterFactory);
@@ -46,7 +50,7 @@ export default class TownsStore {
     return TownsStore._instance;
   }
 
-  private constructor(emitterFactory: TownEmitterFactory) {
+  protected constructor(emitterFactory: TownEmitterFactory) {
     this._emitterFactory = emitterFactory;
   }
 
@@ -60,6 +64,22 @@ export default class TownsStore {
     return this._towns.find(town => town.townID === townID);
   }
 
+  /**
+   * Given a town ID and the town's update password, fetch the town model
+   *
+   * @param townID town ID to fetch
+   * @param townUpdatePassword the town's update password
+   * @returns the existing town controller, or undefined if there is no such town ID or the password is
+   *  wrong
+   */
+  getTownForOwner(townID: string, townUpdatePassword: string): Town | undefined {
+    const existingTown = this.getTownByID(townID);
+    if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePassword)) {
+      return existingTown;
+    }
+    return undefined;
+  }
+
   /**
    * @returns List of all publicly visible towns
    */
@@ -78,31 +98,59 @@ export default class TownsStore {
    * Creates a new town, registering it in the Town Store, and returning that new town
    * @param friendlyName
    * @param isPubliclyListed
+   * @param mapID the ID of the town's map, @see MapCatalog
+   * @param capacity the maximum number of players allowed in the town at once
    * @returns the new town controller
+   * @throws InvalidParametersError if there is no map with the given ID, or the capacity is invalid
    */
   async createTown(
     friendlyName: string,
     isPubliclyListed: boolean,
-    mapFile = '../frontend/public/assets/tilemaps/indoors.json',
+    mapID = DEFAULT_MAP_ID,
+    capacity = DEFAULT_TOWN_CAPACITY,
   ): Promise<Town> {
     if (friendlyName.length === 0) {
       throw new Error('FriendlyName must be specified');
     }
+    const mapFile = MapCatalog.getInstance().getMapFile(mapID);
+    if (!mapFile) {
+      throw new InvalidParametersError(`There is no map with ID ${mapID}`);
+    }
+    if (!isValidCapacity(capacity)) {
+      throw new InvalidParametersError('Capacity must be a positive whole number');
+    }
     const townID = process.env.DEMO_TOWN_ID === friendlyName ? friendlyName : friendlyNanoID();
-    const newTown = new Town(friendlyName, isPubliclyListed, townID, this._emitterFactory(townID));
-    const data = JSON.parse(await fs.readFile(mapFile, 'utf-8'));
-    const map = ITiledMap.parse(data);
-    newTown.initializeFromMap(map);
-    this._towns.push(newTown);
+    const newTown = new Town(
+      friendlyName,
+      isPubliclyListed,
+      townID,
+      this._emitterFactory(townID),
+      capacity,
+      mapID,
+    );
+    this._addTown(newTown, JSON.parse(await fs.readFile(mapFile, 'utf-8')));
     return newTown;
   }
 
+  /**
+   * Initializes a town's interactable areas from its map, and registers the town in this store
+   *
+   * @param town the town to register
+   * @param mapData the contents of the town's Tiled map file
+   */
+  protected _addTown(town: Town, mapData: unknown): void {
+    const map = ITiledMap.parse(mapData);
+    town.initializeFromMap(map);
+    this._towns.push(town);
+  }
+
   /**
    * Updates an existing town. Validates that the provided password is valid
    * @param townID
    * @param townUpdatePassword
    * @param friendlyName
    * @param makePublic
+   * @param capacity
    * @returns true upon success, or false otherwise
    */
   updateTown(
@@ -110,9 +158,13 @@ export default class TownsStore {
     townUpdatePassword: string,
     friendlyName?: string,
     makePublic?: boolean,
+    capacity?: number,
   ): boolean {
     const existingTown = this.getTownByID(townID);
     if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePassword)) {
+      if (capacity !== undefined && !isValidCapacity(capacity)) {
+        return false;
+      }
       if (friendlyName !== undefined) {
         if (friendlyName.length === 0) {
           return false;
@@ -122,6 +174,9 @@ export default class TownsStore {
       if (makePublic !== undefined) {
         existingTown.isPubliclyListed = makePublic;
       }
+      if (capacity !== undefined) {
+        existingTown.capacity = capacity;
+      }
       return true;
     }
     return false;
@@ -0,0 +1,20 @@
+import WordFilter from './WordFilter';
+
+describe('WordFilter', () => {
+  it('Masks blocked words regardless of case', () => {
+    const filter = new WordFilter(['darn', 'heck']);
+    expect(filter.filter('Darn it, what the HECK')).toEqual('**** it, what the ****');
+  });
+  it('Only masks whole words', () => {
+    const filter = new WordFilter(['heck']);
+    expect(filter.filter('Check the hecks')).toEqual('Check the hecks');
+    expect(filter.filter('heck.')).toEqual('****.');
+  });
+  it('Treats blocked words literally, rather than as patterns', () => {
+    const filter = new WordFilter(['a.c', ' ', '']);
+    expect(filter.filter('abc a.c')).toEqual('abc ***');
+  });
+  it('Leaves text unchanged when no words are blocked', () => {
+    expect(new WordFilter([]).filter('Anything goes')).toEqual('Anything goes');
+  });
+});
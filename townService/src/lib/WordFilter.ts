@@ -0,0 +1,50 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Masks words that are not allowed in chat messages, replacing each of their characters with an
+ * asterisk. Words are matched regardless of case, and only as whole words, so that blocking "heck"
+ * does not mask "check".
+ */
+export default class WordFilter {
+  private static _instance: WordFilter;
+
+  /** Matches any of the blocked words, or undefined if no words are blocked */
+  private readonly _blockedWordsPattern?: RegExp;
+
+  /**
+   * Creates a new filter
+   *
+   * @param blockedWords the words to mask; blank words are ignored
+   */
+  public constructor(blockedWords: string[]) {
+    const escapedWords = blockedWords
+      .map(eachWord => eachWord.trim())
+      .filter(eachWord => eachWord.length > 0)
+      .map(eachWord => eachWord.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (escapedWords.length > 0) {
+      this._blockedWordsPattern = new RegExp(`(?<!\\w)(?:${escapedWords.join('|')})(?!\\w)`, 'gi');
+    }
+  }
+
+  /**
+   * Retrieve the singleton WordFilter, which blocks the comma-separated words in CHAT_WORD_FILTER
+   */
+  public static getInstance(): WordFilter {
+    if (!WordFilter._instance) {
+      WordFilter._instance = new WordFilter((process.env.CHAT_WORD_FILTER ?? '').split(','));
+    }
+    return WordFilter._instance;
+  }
+
+  /**
+   * @returns the given text, with every blocked word masked
+   */
+  public filter(text: string): string {
+    if (!this._blockedWordsPattern) {
+      return text;
+    }
+    return text.replace(this._blockedWordsPattern, blockedWord => '*'.repeat(blockedWord.length));
+  }
+}
@@ -0,0 +1,105 @@
+import { ITiledMap, ITiledMapTileLayer } from '@jonbell/tiled-map-type-guard';
+import { deflateSync } from 'zlib';
+import CollisionMap from './CollisionMap';
+
+// Tiles with global ID 2 collide; tiles with global ID 1 do not
+const tileset: ITiledMap['tilesets'][number] = {
+  name: 'walls',
+  image: 'walls.png',
+  firstgid: 1,
+  tiles: [{ id: 1, properties: [{ name: 'collides', type: 'bool', value: true }] }],
+};
+
+function tileLayer(name: string, data: ITiledMapTileLayer['data']): ITiledMapTileLayer {
+  return { id: 1, name, data, width: 3, height: 2, opacity: 1, type: 'tilelayer', visible: true };
+}
+
+function mapWithLayers(...layers: ITiledMapTileLayer[]): ITiledMap {
+  return {
+    tiledversion: '1.9.0',
+    tilewidth: 32,
+    tileheight: 32,
+    width: 3,
+    height: 2,
+    type: 'map',
+    tilesets: [tileset],
+    layers,
+  };
+}
+
+describe('CollisionMap', () => {
+  it('Blocks the colliding tiles of every collision layer', () => {
+    const collisionMap = CollisionMap.fromMap(
+      mapWithLayers(tileLayer('Walls', [2, 1, 1, 1, 1, 1]), tileLayer('World', [1, 1, 1, 1, 1, 2])),
+    );
+    expect(collisionMap.isBlocked(10, 10)).toBe(true);
+    expect(collisionMap.isBlocked(40, 10)).toBe(false);
+    expect(collisionMap.isBlocked(70, 40)).toBe(true);
+  });
+  it('Ignores layers that players do not collide with', () => {
+    const collisionMap = CollisionMap.fromMap(
+      mapWithLayers(tileLayer('Below Player', [2, 2, 2, 2, 2, 2])),
+    );
+    expect(collisionMap.isBlocked(10, 10)).toBe(false);
+    expect(collisionMap.isBlocked(-10, 10)).toBe(false);
+  });
+  it('Blocks positions outside of the map', () => {
+    const collisionMap = CollisionMap.fromMap(
+      mapWithLayers(tileLayer('World', [1, 1, 1, 1, 1, 1])),
+    );
+    expect(collisionMap.isBlocked(-1, 10)).toBe(true);
+    expect(collisionMap.isBlocked(10, 64)).toBe(true);
+    expect(collisionMap.isBlocked(95, 63)).toBe(false);
+  });
+  it('Ignores whether tiles are flipped or rotated', () => {
+    const flippedWall = 0x80000000 + 2;
+    const collisionMap = CollisionMap.fromMap(
+      mapWithLayers(tileLayer('World', [flippedWall, 1, 1, 1, 1, 1])),
+    );
+    expect(collisionMap.isBlocked(10, 10)).toBe(true);
+  });
+  it('Reads base64 encoded layers, compressed or not', () => {
+    const bytes = Buffer.alloc(24);
+    [1, 2, 1, 1, 1, 1].forEach((tileID, index) => bytes.writeUInt32LE(tileID, index * 4));
+    const uncompressed = CollisionMap.fromMap(
+      mapWithLayers({ ...tileLayer('World', bytes.toString('base64')), encoding: 'base64' }),
+    );
+    const compressed = CollisionMap.fromMap(
+      mapWithLayers({
+        ...tileLayer('World', deflateSync(bytes).toString('base64')),
+        encoding: 'base64',
+        compression: 'zlib',
+      }),
+    );
+    [uncompressed, compressed].forEach(collisionMap => {
+      expect(collisionMap.isBlocked(40, 10)).toBe(true);
+      expect(collisionMap.isBlocked(10, 10)).toBe(false);
+    });
+  });
+  it('Reports collision layers that can not be read, and refuses to read them', () => {
+    const map = mapWithLayers({
+      ...tileLayer('World', 'KLUv/Q=='),
+      encoding: 'base64',
+      compression: 'zstd',
+    });
+    expect(CollisionMap.findProblems(map)).toEqual([
+      'Collision layer World uses compression zstd, which is not supported',
+    ]);
+    expect(() => CollisionMap.fromMap(map)).toThrowError();
+  });
+  describe('isPathBlocked', () => {
+    const collisionMap = CollisionMap.fromMap(
+      mapWithLayers(tileLayer('World', [1, 2, 1, 1, 1, 1])),
+    );
+    it('Finds blocked tiles part way along the path', () => {
+      expect(collisionMap.isPathBlocked({ x: 10, y: 10 }, { x: 80, y: 10 })).toBe(true);
+    });
+    it('Finds a blocked tile at the end of the path', () => {
+      expect(collisionMap.isPathBlocked({ x: 10, y: 10 }, { x: 40, y: 10 })).toBe(true);
+    });
+    it('Lets paths go around blocked tiles', () => {
+      expect(collisionMap.isPathBlocked({ x: 10, y: 10 }, { x: 10, y: 50 })).toBe(false);
+      expect(collisionMap.isPathBlocked({ x: 10, y: 50 }, { x: 80, y: 50 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { ITiledMap, ITiledMapTileLayer } from '@jonbell/tiled-map-type-guard';
+import { gunzipSync, inflateSync } from 'zlib';
+
+/**
+ * The layers of a map that players collide with, as in the frontend's TownGameScene: a tile on one
+ * of these layers blocks players if its tileset gives it the property "collides"
+ */
+export const COLLISION_LAYER_NAMES = ['Walls', 'On The Walls', 'World', 'Above Player'];
+
+/**
+ * Tiled stores whether a tile is flipped or rotated in the top four bits of its global tile ID, so
+ * the ID itself is the remainder after dividing by this
+ */
+const TILE_FLAGS_START = 0x10000000;
+
+/**
+ * The compressions that Tiled may use for base64 encoded layers, other than zstd, which Node can not
+ * decompress
+ */
+const decompressors: Record<string, (data: Buffer) => Buffer> = {
+  '': data => data,
+  'zlib': data => inflateSync(data),
+  'gzip': data => gunzipSync(data),
+};
+
+/**
+ * @returns the collision layers of a map that it actually has
+ */
+function collisionLayers(map: ITiledMap): ITiledMapTileLayer[] {
+  return map.layers.filter(
+    eachLayer => eachLayer.type === 'tilelayer' && COLLISION_LAYER_NAMES.includes(eachLayer.name),
+  ) as ITiledMapTileLayer[];
+}
+
+/**
+ * Finds every problem that prevents the tiles of a map's collision layers from being read
+ *
+ * @returns a description of each problem, or an empty list if there are none
+ */
+function findCollisionLayerProblems(map: ITiledMap): string[] {
+  const problems: string[] = [];
+  collisionLayers(map).forEach(({ name, data, chunks, encoding, compression }) => {
+    if (chunks) {
+      problems.push(`Collision layer ${name} is infinite, which is not supported`);
+    } else if (typeof data === 'string' && encoding !== 'base64') {
+      problems.push(`Collision layer ${name} has an unsupported encoding`);
+    } else if (typeof data === 'string' && !decompressors[compression ?? '']) {
+      problems.push(
+        `Collision layer ${name} uses compression ${compression}, which is not supported`,
+      );
+    }
+  });
+  return problems;
+}
+
+/**
+ * @returns the global tile ID of each tile of a layer, row by row, without any flip or rotation flags
+ */
+function layerTileIDs({ data, compression }: ITiledMapTileLayer): number[] {
+  if (typeof data !== 'string') {
+    return data.map(tileID => tileID % TILE_FLAGS_START);
+  }
+  const bytes = decompressors[compression ?? ''](Buffer.from(data.trim(), 'base64'));
+  const tileIDs: number[] = [];
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+    tileIDs.push(bytes.readUInt32LE(offset) % TILE_FLAGS_START);
+  }
+  return tileIDs;
+}
+
+/**
+ * Which tiles of a town's map block players from walking through them, so that the town can refuse
+ * movements that the frontend would never have allowed. Positions outside of the map are blocked
+ * too, unless the map has no collision layers at all.
+ */
+export default class CollisionMap {
+  private readonly _tileWidth: number;
+
+  private readonly _tileHeight: number;
+
+  /* The width of the map, in tiles */
+  private readonly _width: number;
+
+  /* The height of the map, in tiles */
+  private readonly _height: number;
+
+  /* Whether each tile blocks players, row by row, or undefined if the map has no collision layers */
+  private readonly _blockedTiles?: boolean[];
+
+  private constructor(
+    tileWidth: number,
+    tileHeight: number,
+    width: number,
+    height: number,
+    blockedTiles?: boolean[],
+  ) {
+    this._tileWidth = tileWidth;
+    this._tileHeight = tileHeight;
+    this._width = width;
+    this._height = height;
+    this._blockedTiles = blockedTiles;
+  }
+
+  /**
+   * Reads which tiles block players from the collision layers of a map
+   *
+   * @param map the map to read
+   * @throws Error if the tiles of a collision layer can not be read (@see findProblems)
+   */
+  public static fromMap(map: ITiledMap): CollisionMap {
+    const problems = findCollisionLayerProblems(map);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+    const layers = collisionLayers(map);
+    const tileWidth = map.tilewidth ?? 32;
+    const tileHeight = map.tileheight ?? 32;
+    if (layers.length === 0) {
+      return new CollisionMap(tileWidth, tileHeight, 0, 0);
+    }
+    const width = map.width ?? Math.max(...layers.map(eachLayer => eachLayer.width));
+    const height = map.height ?? Math.max(...layers.map(eachLayer => eachLayer.height));
+
+    const collidingTileIDs = new Set<number>();
+    map.tilesets.forEach(({ firstgid, tiles }) =>
+      tiles
+        ?.filter(eachTile =>
+          eachTile.properties?.find(
+            eachProperty => eachProperty.name === 'collides' && eachProperty.value === true,
+          ),
+        )
+        .forEach(eachTile => collidingTileIDs.add((firstgid ?? 1) + eachTile.id)),
+    );
+
+    const blockedTiles: boolean[] = new Array(width * height).fill(false);
+    layers.forEach(eachLayer =>
+      layerTileIDs(eachLayer).forEach((tileID, index) => {
+        const column = index % eachLayer.width;
+        const row = Math.floor(index / eachLayer.width);
+        if (collidingTileIDs.has(tileID) && column < width && row < height) {
+          blockedTiles[row * width + column] = true;
+        }
+      }),
+    );
+    return new CollisionMap(tileWidth, tileHeight, width, height, blockedTiles);
+  }
+
+  /**
+   * Checks a map for everything that would make fromMap throw, without reading its tiles
+   *
+   * @param map the map to check
+   * @returns a description of each problem with the map's collision layers, or an empty list if
+   *  there are none
+   */
+  public static findProblems(map: ITiledMap): string[] {
+    return findCollisionLayerProblems(map);
+  }
+
+  /**
+   * @returns true if a player can not stand at the given position, in pixels
+   */
+  public isBlocked(x: number, y: number): boolean {
+    if (!this._blockedTiles) {
+      return false;
+    }
+    const column = Math.floor(x / this._tileWidth);
+    const row = Math.floor(y / this._tileHeight);
+    if (column < 0 || row < 0 || column >= this._width || row >= this._height) {
+      return true;
+    }
+    return this._blockedTiles[row * this._width + column];
+  }
+
+  /**
+   * Checks whether a player walking in a straight line between two positions, in pixels, would pass
+   * through a blocked tile. The line is checked every half a tile, and at its end.
+   *
+   * @returns true if any part of the line is blocked
+   */
+  public isPathBlocked(from: { x: number; y: number }, to: { x: number; y: number }): boolean {
+    const steps = Math.ceil(
+      Math.max(
+        Math.abs(to.x - from.x) / (this._tileWidth / 2),
+        Math.abs(to.y - from.y) / (this._tileHeight / 2),
+      ),
+    );
+    for (let step = 1; step <= steps; step++) {
+      const fraction = step / steps;
+      if (
+        this.isBlocked(from.x + (to.x - from.x) * fraction, from.y + (to.y - from.y) * fraction)
+      ) {
+        return true;
+      }
+    }
+    return this.isBlocked(to.x, to.y);
+  }
+}
@@ -114,11 +114,27 @@ export default abstract class InteractableArea {
    * @returns true if location is within this area
    */
   public contains(location: PlayerLocation): boolean {
+    return InteractableArea.boundingBoxContains(this.boundingBox, location);
+  }
+
+  /**
+   * Tests if any part of a player at the given location is within a bounding box, in the same way as
+   * contains, for parts of the map that are not InteractableAreas
+   *
+   * @param box the bounding box to check
+   * @param location the location of the player
+   *
+   * @returns true if the player is within the box
+   */
+  public static boundingBoxContains(
+    { x, y, width, height }: BoundingBox,
+    location: PlayerLocation,
+  ): boolean {
     return (
-      location.x + PLAYER_SPRITE_WIDTH / 2 > this._x &&
-      location.x - PLAYER_SPRITE_WIDTH / 2 < this._x + this._width &&
-      location.y + PLAYER_SPRITE_HEIGHT / 2 > this._y &&
-      location.y - PLAYER_SPRITE_HEIGHT / 2 < this._y + this._height
+      location.x + PLAYER_SPRITE_WIDTH / 2 > x &&
+      location.x - PLAYER_SPRITE_WIDTH / 2 < x + width &&
+      location.y + PLAYER_SPRITE_HEIGHT / 2 > y &&
+      location.y - PLAYER_SPRITE_HEIGHT / 2 < y + height
     );
   }
 
@@ -133,14 +149,23 @@ export default abstract class InteractableArea {
    * @returns true if a player could be contained within both InteractableAreas simultaneously
    */
   public overlaps(otherInteractable: InteractableArea): boolean {
-    const toRectPoints = ({ _x, _y, _width, _height }: InteractableArea) => ({
-      x1: _x - PLAYER_SPRITE_WIDTH / 2,
-      x2: _x + _width + PLAYER_SPRITE_WIDTH / 2,
-      y1: _y - PLAYER_SPRITE_HEIGHT / 2,
-      y2: _y + _height + PLAYER_SPRITE_HEIGHT / 2,
+    return InteractableArea.boundingBoxesOverlap(this.boundingBox, otherInteractable.boundingBox);
+  }
+
+  /**
+   * Tests if two InteractableAreas with the given bounding boxes would overlap, @see overlaps
+   *
+   * @returns true if a player could be contained within both bounding boxes simultaneously
+   */
+  public static boundingBoxesOverlap(box1: BoundingBox, box2: BoundingBox): boolean {
+    const toRectPoints = ({ x, y, width, height }: BoundingBox) => ({
+      x1: x - PLAYER_SPRITE_WIDTH / 2,
+      x2: x + width + PLAYER_SPRITE_WIDTH / 2,
+      y1: y - PLAYER_SPRITE_HEIGHT / 2,
+      y2: y + height + PLAYER_SPRITE_HEIGHT / 2,
     });
-    const rect1 = toRectPoints(this);
-    const rect2 = toRectPoints(otherInteractable);
+    const rect1 = toRectPoints(box1);
+    const rect2 = toRectPoints(box2);
     const noOverlap =
       rect1.x1 >= rect2.x2 || rect2.x1 >= rect1.x2 || rect1.y1 >= rect2.y2 || rect2.y1 >= rect1.y2;
     return !noOverlap;
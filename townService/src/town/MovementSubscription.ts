@@ -0,0 +1,92 @@
+import Player from '../lib/Player';
+import {
+  BoundingBox,
+  CoveyTownSocket,
+  Player as PlayerModel,
+  PlayerLocation,
+  ViewportSize,
+} from '../types/CoveyTownSocket';
+
+/**
+ * The size of a client's viewport until it reports its own: the size of the frontend's game
+ */
+export const defaultViewportSize: ViewportSize = { width: 800, height: 600 };
+
+/**
+ * The largest viewport that a client may report, in each direction, so that a client can not ask to
+ * hear about every player in the town as soon as they move
+ */
+export const MAX_VIEWPORT_SIZE = 2048;
+
+/**
+ * Which of the other players' movements a client hears about as soon as they happen: those within its
+ * area of interest, which is centred on its player and twice the size of its viewport in each
+ * direction. That covers the whole viewport even where the camera stops at the edge of the map, and
+ * the players who are about to come into view. The town sends the client the movements of players
+ * outside of its area of interest less often (@see Town).
+ */
+export default class MovementSubscription {
+  private readonly _player: Player;
+
+  private readonly _socket: CoveyTownSocket;
+
+  private _viewportSize: ViewportSize = defaultViewportSize;
+
+  /**
+   * Creates a new subscription, for a client whose viewport is the default size
+   *
+   * @param player the player whose client is subscribing
+   * @param socket the socket that the client is connected on
+   */
+  constructor(player: Player, socket: CoveyTownSocket) {
+    this._player = player;
+    this._socket = socket;
+  }
+
+  get viewportSize(): ViewportSize {
+    return this._viewportSize;
+  }
+
+  /**
+   * The size of the client's viewport, which is clamped to MAX_VIEWPORT_SIZE
+   */
+  set viewportSize({ width, height }: ViewportSize) {
+    this._viewportSize = {
+      width: Math.min(Math.max(width, 0), MAX_VIEWPORT_SIZE),
+      height: Math.min(Math.max(height, 0), MAX_VIEWPORT_SIZE),
+    };
+  }
+
+  /**
+   * The area of interest of a client with the largest possible viewport around the given location.
+   * Any client whose area of interest includes the location is within this area.
+   */
+  public static maxAreaOfInterest({ x, y }: PlayerLocation): BoundingBox {
+    return {
+      x: x - MAX_VIEWPORT_SIZE,
+      y: y - MAX_VIEWPORT_SIZE,
+      width: MAX_VIEWPORT_SIZE * 2,
+      height: MAX_VIEWPORT_SIZE * 2,
+    };
+  }
+
+  /**
+   * @returns true if the location is within the client's area of interest
+   */
+  public isInterestedIn({ x, y }: PlayerLocation): boolean {
+    const { location } = this._player;
+    return (
+      Math.abs(x - location.x) <= this._viewportSize.width &&
+      Math.abs(y - location.y) <= this._viewportSize.height
+    );
+  }
+
+  /**
+   * Sends a player's movement to the client
+   *
+   * @param movedPlayer the player who moved, as they were just after the movement
+   */
+  public send(movedPlayer: PlayerModel): void {
+    this._socket.emit('playerMoved', movedPlayer);
+  }
+}
@@ -1,9 +1,17 @@
-import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import { ITiledMap, ITiledMapObjectLayer, ITiledMapTileLayer } from '@jonbell/tiled-map-type-guard';
 import { DeepMockProxy, mockClear, mockDeep, mockReset } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
 import Player from '../lib/Player';
+import {
+  defaultRateLimits,
+  DEFAULT_RATE_LIMIT_MAX_VIOLATIONS,
+  RATE_LIMIT_VIOLATION_DECAY_MS,
+} from '../lib/RateLimiter';
+import { RateLimit } from '../lib/TokenBucket';
 import TwilioVideo from '../lib/TwilioVideo';
+import WordFilter from '../lib/WordFilter';
 import {
+  clearEmittedEvents,
   ClientEventTypes,
   expectArraysToContainSameMembers,
   getEventListener,
@@ -13,17 +21,28 @@ import {
 } from '../TestUtils';
 import {
   MiniMessage,
-  ChatMessage,
+  MiniMessageDraft,
+  ChatChannel,
+  ChatMessageDraft,
+  ClientToServerEvents,
   ConversationAreaGroupInvite,
   Interactable,
+  Player as PlayerModel,
   PlayerLocation,
   PlayerToPlayerUpdate,
+  ServerToClientEvents,
   TeleportInviteSingular,
   TownEmitter,
   ViewingArea as ViewingAreaModel,
 } from '../types/CoveyTownSocket';
 import ConversationArea from './ConversationArea';
-import Town from './Town';
+import Town, {
+  DISTANT_MOVEMENT_INTERVAL_MS,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_MINI_MESSAGE_LENGTH,
+  PLAYER_SPEED,
+  RECONNECT_GRACE_PERIOD_MS,
+} from './Town';
 
 const mockTwilioVideo = mockDeep<TwilioVideo>();
 jest.spyOn(TwilioVideo, 'getInstance').mockReturnValue(mockTwilioVideo);
@@ -346,8 +365,96 @@ const testingMaps: TestMapDict = {
       },
     ],
   },
+  // A 20x20 tile map with a wall down the sixth column of tiles, from x=160 to x=192
+  walled: {
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilewidth: 32,
+    width: 20,
+    height: 20,
+    type: 'map',
+    tilesets: [
+      {
+        name: 'walls',
+        image: 'walls.png',
+        firstgid: 1,
+        tiles: [{ id: 1, properties: [{ name: 'collides', type: 'bool', value: true }] }],
+      },
+    ],
+    layers: [
+      {
+        id: 1,
+        name: 'World',
+        data: Array.from({ length: 400 }, (_, index) => (index % 20 === 5 ? 2 : 1)),
+        height: 20,
+        width: 20,
+        opacity: 1,
+        type: 'tilelayer',
+        visible: true,
+      },
+      {
+        id: 2,
+        name: 'Objects',
+        objects: [
+          {
+            type: '',
+            id: 1,
+            name: 'Spawn Point',
+            point: true,
+            rotation: 0,
+            visible: true,
+            x: 48,
+            y: 48,
+          },
+          {
+            type: 'Transporter',
+            id: 2,
+            name: 'Over the wall',
+            properties: [{ name: 'target', type: 'object', value: 3 }],
+            rotation: 0,
+            visible: true,
+            width: 32,
+            height: 32,
+            x: 32,
+            y: 320,
+          },
+          {
+            type: '',
+            id: 3,
+            name: 'target',
+            point: true,
+            rotation: 0,
+            visible: true,
+            x: 272,
+            y: 48,
+          },
+        ],
+        opacity: 1,
+        type: 'objectgroup',
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+  },
 };
 
+/**
+ * Moves a player to a location in steps that they could walk, advancing the fake clock by as long as
+ * each step takes. Requires fake timers.
+ */
+function walkTo(playerData: MockedPlayer, x: number, y: number) {
+  const from = { ...(playerData.player as Player).location };
+  const steps = Math.ceil(Math.hypot(x - from.x, y - from.y) / PLAYER_SPEED);
+  for (let step = 1; step <= steps; step++) {
+    jest.advanceTimersByTime(1000);
+    playerData.moveTo(
+      from.x + ((x - from.x) * step) / steps,
+      from.y + ((y - from.y) * step) / steps,
+    );
+  }
+}
+
 describe('Town', () => {
   const townEmitter: DeepMockProxy<TownEmitter> = mockDeep<TownEmitter>();
   let town: Town;
@@ -399,6 +506,34 @@ describe('Town', () => {
     mockReset(townEmitter);
   });
 
+  /**
+   * Expect that the given event was emitted with the given payload to exactly the given players, and
+   * not to the rest of the town
+   */
+  function expectEmittedOnlyTo(
+    recipients: MockedPlayer[],
+    event: keyof ServerToClientEvents,
+    payload: unknown,
+  ) {
+    [playerTestData, playerTestData2, playerTestData3].forEach(eachPlayer => {
+      if (recipients.includes(eachPlayer)) {
+        expect(eachPlayer.socket.emit).toBeCalledWith(event, payload);
+      } else {
+        expect(eachPlayer.socket.emit).not.toBeCalledWith(event, payload);
+      }
+    });
+    expect(townEmitter.emit).not.toBeCalledWith(event, expect.anything());
+  }
+
+  /**
+   * Make the given players friends, by having the sender send a friend request that the recipient
+   * accepts
+   */
+  function makeFriends(sender: Player, recipient: Player) {
+    town.sendFriendRequest({ actor: sender.id, affected: recipient.id });
+    town.acceptFriendRequest({ actor: recipient.id, affected: sender.id });
+  }
+
   it('constructor should set its properties', () => {
     const townName = `FriendlyNameTest-${nanoid()}`;
     const townID = nanoid();
@@ -431,6 +566,12 @@ describe('Town', () => {
         'acceptConvAreaInvite',
         'declineConvAreaInvite',
         'sendMiniMessage',
+        'readMiniMessages',
+        'typingStarted',
+        'typingStopped',
+        'blockPlayer',
+        'unblockPlayer',
+        'teleportToFriend',
       ];
       expectedEvents.forEach(eachEvent =>
         expect(getEventListener(playerTestData.socket, eachEvent)).toBeDefined(),
@@ -507,10 +648,17 @@ describe('Town', () => {
   });
   describe('Socket event listeners created in addPlayer', () => {
     describe('on socket disconnect', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
       function disconnectPlayer(playerToLeave: MockedPlayer) {
-        // Call the disconnect event handler
+        // Call the disconnect event handler, and give up on the player resuming their session
         const disconnectHandler = getEventListener(playerToLeave.socket, 'disconnect');
         disconnectHandler('unknown');
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
       }
       it("Invalidates the players's session token", async () => {
         const token = player.sessionToken;
@@ -527,6 +675,11 @@ describe('Town', () => {
         const callToDisconnect = getLastEmittedEvent(townEmitter, 'playerDisconnect');
         expect(callToDisconnect.id).toEqual(playerToLeaveID);
       });
+      it("Removes the player from their friends' friends lists", () => {
+        makeFriends(player2, player);
+        disconnectPlayer(playerTestData);
+        expect(player2.friends).toEqual([]);
+      });
       it('Removes the player from any active conversation area', () => {
         // Load in a map with a conversation area
         town.initializeFromMap(testingMaps.twoConvOneViewing);
@@ -545,7 +698,7 @@ describe('Town', () => {
       it('Removes the player from any active viewing area', () => {
         // Load in a map with a conversation area
         town.initializeFromMap(testingMaps.twoConvOneViewing);
-        playerTestData.moveTo(156, 567); // Inside of "Name3" area
+        walkTo(playerTestData, 156, 567); // Inside of "Name3" area
         expect(
           town.addViewingArea({ id: 'Name3', isPlaying: true, elapsedTimeSec: 0, video: nanoid() }),
         ).toBeTruthy();
@@ -555,6 +708,108 @@ describe('Town', () => {
         expect(viewingArea.occupantsByID).toEqual([]);
       });
     });
+    describe('Resuming a session after a disconnect', () => {
+      let resumedSocket: MockedPlayer['socket'];
+      beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+        makeFriends(player2, player);
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+        resumedSocket = mockPlayer(town.townID).socket;
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Keeps the player in the town, with their friends, during the grace period', () => {
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS - 1);
+        expect(town.players).toContain(player);
+        expect(town.isReconnecting(player)).toBe(true);
+        expect(player2.friends).toEqual([player]);
+        expect(townEmitter.emit).not.toBeCalledWith('playerDisconnect', expect.anything());
+      });
+      it('Does not remove the player once they have resumed their session', () => {
+        town.resumePlayer(player, resumedSocket);
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+        expect(town.players).toContain(player);
+        expect(town.isReconnecting(player)).toBe(false);
+        expect(town.getPlayerBySessionToken(player.sessionToken)).toBe(player);
+        expect(townEmitter.emit).not.toBeCalledWith('playerDisconnect', expect.anything());
+      });
+      it('Replays private events that the player missed while disconnected', () => {
+        town.sendFriendRequest({ actor: player3.id, affected: player.id });
+        const missedMessage: MiniMessageDraft = {
+          sender: player2.id,
+          recipients: [player.id],
+          body: nanoid(),
+        };
+        getEventListener(playerTestData2.socket, 'sendMiniMessage')(missedMessage);
+
+        town.resumePlayer(player, resumedSocket);
+        expect(resumedSocket.emit).toBeCalledWith('friendRequestSent', {
+          actor: player3.id,
+          affected: player.id,
+        });
+        expect(resumedSocket.emit).toBeCalledWith(
+          'miniMessageSent',
+          expect.objectContaining(missedMessage),
+        );
+      });
+      it('Marks mini messages that the player missed as delivered once they resume', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'sendMiniMessage',
+        )({ sender: player2.id, recipients: [player.id], body: nanoid() });
+        const missedMessage = getLastEmittedEvent(playerTestData2.socket, 'miniMessageSent');
+        expect(missedMessage.receipts).toEqual({ [player.id]: 'pending' });
+
+        town.resumePlayer(player, resumedSocket);
+        expect(getLastEmittedEvent(playerTestData2.socket, 'miniMessageReceipt')).toEqual({
+          messageID: missedMessage.id,
+          recipient: player.id,
+          status: 'delivered',
+        });
+      });
+      it('Handles events from the new socket on behalf of the player', () => {
+        town.resumePlayer(player, resumedSocket);
+        getEventListener(
+          resumedSocket,
+          'sendFriendRequest',
+        )({
+          actor: player.id,
+          affected: player3.id,
+        });
+        expect(town.pendingFriendRequestsFor(player3.id)).toEqual([
+          expect.objectContaining({ sender: player.id, recipient: player3.id }),
+        ]);
+      });
+      it("Ignores a late disconnect from the player's previous socket", () => {
+        town.resumePlayer(player, resumedSocket);
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+        expect(town.isReconnecting(player)).toBe(false);
+      });
+      it("Disconnects the player's previous socket if it is still connected", () => {
+        town.resumePlayer(player2, resumedSocket);
+        expect(playerTestData2.socket.disconnect).toBeCalled();
+        getEventListener(playerTestData2.socket, 'disconnect')('server namespace disconnect');
+        expect(town.isReconnecting(player2)).toBe(false);
+      });
+      it('Removes a player who leaves deliberately without waiting for the grace period', () => {
+        town.resumePlayer(player, resumedSocket);
+        getEventListener(resumedSocket, 'disconnect')('client namespace disconnect');
+        expect(town.players).not.toContain(player);
+        expect(town.isReconnecting(player)).toBe(false);
+      });
+      it('Removes the player and informs the town once the grace period expires', () => {
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+        expect(town.players).not.toContain(player);
+        expect(getLastEmittedEvent(townEmitter, 'playerDisconnect').id).toEqual(player.id);
+        expect(() => town.resumePlayer(player, resumedSocket)).toThrowError();
+      });
+      it('Stops waiting for reconnecting players when the town closes', () => {
+        town.disconnectAllPlayers();
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+        expect(townEmitter.emit).not.toBeCalledWith('playerDisconnect', expect.anything());
+      });
+    });
     describe('playerMovement', () => {
       const newLocation: PlayerLocation = {
         x: 100,
@@ -573,7 +828,7 @@ describe('Town', () => {
       });
 
       it('Emits a playerMoved event', () => {
-        const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
+        const lastEmittedMovement = getLastEmittedEvent(playerTestData.socket, 'playerMoved');
         expect(lastEmittedMovement.id).toEqual(playerTestData.player?.id);
         expect(lastEmittedMovement.location).toEqual(newLocation);
       });
@@ -581,6 +836,226 @@ describe('Town', () => {
         expect(player.location).toEqual(newLocation);
       });
     });
+    describe('Interest management', () => {
+      // A town of its own, so that no movements are pending from before the clock was faked
+      let interestTown: Town;
+      let moverData: MockedPlayer;
+      let nearData: MockedPlayer;
+      let farData: MockedPlayer;
+      let mover: Player;
+      let far: Player;
+      beforeEach(async () => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+        interestTown = new Town(nanoid(), false, nanoid(), townEmitter);
+        [moverData, nearData, farData] = [1, 2, 3].map(() => mockPlayer(interestTown.townID));
+        mover = await interestTown.addPlayer(moverData.userName, moverData.socket);
+        nearData.player = await interestTown.addPlayer(nearData.userName, nearData.socket);
+        far = await interestTown.addPlayer(farData.userName, farData.socket);
+        moverData.player = mover;
+        farData.player = far;
+        walkTo(farData, 5000, 5000);
+        jest.advanceTimersByTime(DISTANT_MOVEMENT_INTERVAL_MS);
+        [moverData, nearData, farData].forEach(eachPlayer =>
+          clearEmittedEvents(eachPlayer.socket, 'playerMoved'),
+        );
+      });
+      afterEach(() => {
+        interestTown.disconnectAllPlayers();
+        jest.useRealTimers();
+      });
+      function movementsSentTo(recipient: MockedPlayer, movedPlayer: Player): PlayerLocation[] {
+        return recipient.socket.emit.mock.calls
+          .filter(([event]) => event === 'playerMoved')
+          .map(([, model]) => model as PlayerModel)
+          .filter(model => model.id === movedPlayer.id)
+          .map(model => model.location);
+      }
+      it('Sends movements right away to the clients whose area of interest the player is in', () => {
+        moverData.moveTo(10, 10);
+        expect(movementsSentTo(nearData, mover)).toEqual([
+          expect.objectContaining({ x: 10, y: 10 }),
+        ]);
+        expect(movementsSentTo(farData, mover)).toEqual([]);
+      });
+      it('Sends players their own movements right away', () => {
+        farData.moveTo(5000, 5010);
+        expect(movementsSentTo(farData, far)).toEqual([
+          expect.objectContaining({ x: 5000, y: 5010 }),
+        ]);
+      });
+      it('Sends only the latest movement of distant players, once per interval', () => {
+        farData.moveTo(5000, 5010);
+        farData.moveTo(5000, 5020);
+        expect(movementsSentTo(moverData, far)).toEqual([]);
+        jest.advanceTimersByTime(DISTANT_MOVEMENT_INTERVAL_MS);
+        expect(movementsSentTo(moverData, far)).toEqual([
+          expect.objectContaining({ x: 5000, y: 5020 }),
+        ]);
+      });
+      it('Sends each movement to a nearby client exactly once', () => {
+        moverData.moveTo(10, 10);
+        moverData.moveTo(20, 20);
+        jest.advanceTimersByTime(DISTANT_MOVEMENT_INTERVAL_MS);
+        moverData.moveTo(30, 30);
+        jest.advanceTimersByTime(DISTANT_MOVEMENT_INTERVAL_MS * 2);
+        expect(movementsSentTo(nearData, mover)).toEqual([
+          expect.objectContaining({ x: 10, y: 10 }),
+          expect.objectContaining({ x: 20, y: 20 }),
+          expect.objectContaining({ x: 30, y: 30 }),
+        ]);
+        expect(movementsSentTo(farData, mover)).toEqual([
+          expect.objectContaining({ x: 20, y: 20 }),
+          expect.objectContaining({ x: 30, y: 30 }),
+        ]);
+      });
+      it('Does not send movements again that were already sent right away', () => {
+        moverData.moveTo(10, 10);
+        jest.advanceTimersByTime(DISTANT_MOVEMENT_INTERVAL_MS);
+        expect(movementsSentTo(nearData, mover)).toEqual([
+          expect.objectContaining({ x: 10, y: 10 }),
+        ]);
+        expect(movementsSentTo(farData, mover)).toEqual([
+          expect.objectContaining({ x: 10, y: 10 }),
+        ]);
+      });
+      it("Always sends friends' movements right away", () => {
+        interestTown.sendFriendRequest({ actor: mover.id, affected: far.id });
+        interestTown.acceptFriendRequest({ actor: far.id, affected: mover.id });
+        farData.moveTo(5000, 5010);
+        expect(movementsSentTo(moverData, far)).toEqual([
+          expect.objectContaining({ x: 5000, y: 5010 }),
+        ]);
+        expect(movementsSentTo(nearData, far)).toEqual([]);
+      });
+      it("Uses the size of each client's viewport, up to a limit", () => {
+        getEventListener(moverData.socket, 'viewportChanged')({ width: 10000, height: 10000 });
+        farData.moveTo(5000, 5010);
+        expect(movementsSentTo(moverData, far)).toEqual([]);
+        walkTo(farData, 2000, 2000);
+        [moverData, nearData].forEach(eachPlayer =>
+          clearEmittedEvents(eachPlayer.socket, 'playerMoved'),
+        );
+        farData.moveTo(1990, 1990);
+        expect(movementsSentTo(moverData, far)).toEqual([
+          expect.objectContaining({ x: 1990, y: 1990 }),
+        ]);
+        expect(movementsSentTo(nearData, far)).toEqual([]);
+      });
+      it('Does not send the movements of players who have left', () => {
+        farData.moveTo(5000, 5010);
+        getEventListener(farData.socket, 'disconnect')('client namespace disconnect');
+        jest.advanceTimersByTime(DISTANT_MOVEMENT_INTERVAL_MS);
+        expect(movementsSentTo(moverData, far)).toEqual([]);
+      });
+    });
+    describe('Validating movement', () => {
+      let walkerData: MockedPlayer;
+      let walker: Player;
+      let friendData: MockedPlayer;
+      let friend: Player;
+      const spawnPoint = { x: 48, y: 48 };
+      beforeEach(async () => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+        town.initializeFromMap(testingMaps.walled);
+        walkerData = mockPlayer(town.townID);
+        walker = await town.addPlayer(walkerData.userName, walkerData.socket);
+        walkerData.player = walker;
+        friendData = mockPlayer(town.townID);
+        friend = await town.addPlayer(friendData.userName, friendData.socket);
+        friendData.player = friend;
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      function expectRejected() {
+        expect(walker.location).toMatchObject(spawnPoint);
+        expect(getLastEmittedEvent(walkerData.socket, 'movementRejected')).toBe(walker.location);
+      }
+      it('Places new players at the spawn point', () => {
+        expect(walker.location).toMatchObject(spawnPoint);
+      });
+      it('Accepts movements that the player could walk in the time since their last one', () => {
+        jest.advanceTimersByTime(1000);
+        walkerData.moveTo(48, 48 + PLAYER_SPEED);
+        expect(walker.location).toMatchObject({ x: 48, y: 48 + PLAYER_SPEED });
+        expect(walkerData.socket.emit).not.toBeCalledWith('movementRejected', expect.anything());
+      });
+      it('Accepts movements that were held up and arrive together', () => {
+        walkerData.moveTo(48, 148);
+        walkerData.moveTo(48, 248);
+        expect(walker.location).toMatchObject({ x: 48, y: 248 });
+      });
+      it('Rejects movements that are faster than players can walk', () => {
+        walkerData.moveTo(48, 448);
+        expectRejected();
+      });
+      it('Rejects movements once the player has used up their allowance', () => {
+        walkerData.moveTo(48, 48 + 2 * PLAYER_SPEED);
+        expect(walker.location).toMatchObject({ x: 48, y: 48 + 2 * PLAYER_SPEED });
+        walkerData.moveTo(48, 98 + 2 * PLAYER_SPEED);
+        expect(walker.location).toMatchObject({ x: 48, y: 48 + 2 * PLAYER_SPEED });
+        expect(getLastEmittedEvent(walkerData.socket, 'movementRejected')).toBe(walker.location);
+      });
+      it('Rejects movements into blocked tiles and off the map', () => {
+        walkerData.moveTo(176, 48);
+        expectRejected();
+        walkerData.moveTo(48, -20);
+        expectRejected();
+      });
+      it('Rejects movements through blocked tiles', () => {
+        jest.advanceTimersByTime(2000);
+        walkerData.moveTo(248, 48);
+        expectRejected();
+      });
+      it('Lets players step onto a transporter to go to its target', () => {
+        walkTo(walkerData, 48, 336);
+        walkerData.moveTo(272, 48);
+        expect(walker.location).toMatchObject({ x: 272, y: 48 });
+        walkerData.moveTo(272, 148);
+        expect(walker.location).toMatchObject({ x: 272, y: 148 });
+      });
+      it('Only lets players go to the target of a transporter that they are on', () => {
+        walkerData.moveTo(272, 48);
+        expectRejected();
+      });
+      describe('teleportToFriend (listener)', () => {
+        beforeEach(() => {
+          walkTo(friendData, 48, 500);
+          makeFriends(walker, friend);
+        });
+        it("Moves the player to their friend's location, from where they may walk on", () => {
+          const ack = jest.fn();
+          getEventListener(walkerData.socket, 'teleportToFriend')(
+            { actor: walker.id, affected: friend.id },
+            ack,
+          );
+          expect(ack).toBeCalledWith({ ok: true });
+          expect(walker.location).toMatchObject({ x: 48, y: 500 });
+          expect(walker.location).not.toBe(friend.location);
+          walkerData.moveTo(148, 500);
+          expect(walker.location).toMatchObject({ x: 148, y: 500 });
+        });
+        it('Rejects teleporting to players who are not friends', () => {
+          town.removeFriend({ actor: walker.id, affected: friend.id });
+          const ack = jest.fn();
+          getEventListener(walkerData.socket, 'teleportToFriend')(
+            { actor: walker.id, affected: friend.id },
+            ack,
+          );
+          expect(ack).toBeCalledWith({ ok: false, code: 'rejected', message: expect.any(String) });
+          expect(walker.location).toMatchObject(spawnPoint);
+        });
+        it('Rejects teleporting other players', () => {
+          const ack = jest.fn();
+          getEventListener(friendData.socket, 'teleportToFriend')(
+            { actor: walker.id, affected: friend.id },
+            ack,
+          );
+          expect(ack).toBeCalledWith({ ok: false, code: 'rejected', message: expect.any(String) });
+          expect(walker.location).toMatchObject(spawnPoint);
+        });
+      });
+    });
     describe('interactableUpdate', () => {
       let interactableUpdateCallback: (update: Interactable) => void;
       let update: ViewingAreaModel;
@@ -616,6 +1091,7 @@ describe('Town', () => {
     });
     describe('acceptFriendRequest (listener)', () => {
       beforeEach(() => {
+        playerTestData2.sendFriendRequest(player2, player);
         playerTestData.acceptedFriendRequest(player, player2);
       });
       it('Should add each Player to each others friends lists', () => {
@@ -623,7 +1099,7 @@ describe('Town', () => {
         expect(player2.friends.includes(player)).toBeTruthy();
       });
       it('TownService should emit a friendRequestAccepted event', () => {
-        expect(townEmitter.emit).toBeCalledWith('friendRequestAccepted', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestAccepted', {
           actor: player.id,
           affected: player2.id,
         });
@@ -631,6 +1107,7 @@ describe('Town', () => {
     });
     describe('declineFriendRequest (listener)', () => {
       beforeEach(() => {
+        playerTestData2.sendFriendRequest(player2, player);
         playerTestData.declinedFriendRequest(player, player2);
       });
       it('Should NOT modify either of the Players friends lists', () => {
@@ -638,7 +1115,7 @@ describe('Town', () => {
         expect(player2.friends.includes(player)).toBeFalsy();
       });
       it('TownService should emit a friendRequestDeclined event', () => {
-        expect(townEmitter.emit).toBeCalledWith('friendRequestDeclined', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestDeclined', {
           actor: player.id,
           affected: player2.id,
         });
@@ -653,7 +1130,7 @@ describe('Town', () => {
         expect(player2.friends.includes(player)).toBeFalsy();
       });
       it('TownService should emit a friendRequestSent event', () => {
-        expect(townEmitter.emit).toBeCalledWith('friendRequestSent', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestSent', {
           actor: player.id,
           affected: player2.id,
         });
@@ -669,14 +1146,14 @@ describe('Town', () => {
       });
       it('TownService should emit a canceledFriendRequest event', () => {
         // expect the request was sent
-        expect(townEmitter.emit).toBeCalledWith('friendRequestSent', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestSent', {
           actor: player.id,
           affected: player2.id,
         });
         // cancel the request
         playerTestData.cancelFriendRequest(player, player2);
         // expect it to be canceled
-        expect(townEmitter.emit).toBeCalledWith('friendRequestCanceled', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestCanceled', {
           actor: player.id,
           affected: player2.id,
         });
@@ -684,7 +1161,9 @@ describe('Town', () => {
     });
     describe('removeFriend', () => {
       beforeEach(() => {
+        playerTestData2.sendFriendRequest(player2, player);
         playerTestData.acceptedFriendRequest(player, player2);
+        playerTestData3.sendFriendRequest(player3, player);
         playerTestData.acceptedFriendRequest(player, player3);
         playerTestData.removedFriend(player, player3);
       });
@@ -695,7 +1174,7 @@ describe('Town', () => {
         expect(player3.friends.includes(player)).toBeFalsy();
       });
       it('TownService should emit a friendRemoved event', () => {
-        expect(townEmitter.emit).toHaveBeenCalledWith('friendRemoved', {
+        expectEmittedOnlyTo([playerTestData, playerTestData3], 'friendRemoved', {
           actor: player.id,
           affected: player3.id,
         });
@@ -703,6 +1182,10 @@ describe('Town', () => {
     });
     describe('inviteAllToConvArea (listener)', () => {
       beforeEach(() => {
+        // Players can only invite their friends
+        makeFriends(player2, player);
+        makeFriends(player3, player);
+        makeFriends(player3, player2);
         // Set up all of the invites between players
         playerTestData.invitedAllToConvArea({
           requester: player.id,
@@ -739,17 +1222,25 @@ describe('Town', () => {
         expect(player.location).toBe(playerLocation);
       });
       it('TownService should emit a conversationAreaRequestSent event', () => {
-        expect(townEmitter.emit).toHaveBeenCalledWith('conversationAreaRequestSent', {
-          requester: player.id,
-          requested: [player2.id, player3.id],
-          requesterLocation: playerLocation,
-        });
-        expect(townEmitter.emit).toHaveBeenCalledWith('conversationAreaRequestSent', {
-          requester: player2.id,
-          requested: [player3.id, player.id],
-          requesterLocation: player2Location,
-        });
-        expect(townEmitter.emit).toHaveBeenCalledWith('conversationAreaRequestSent', {
+        expectEmittedOnlyTo(
+          [playerTestData, playerTestData2, playerTestData3],
+          'conversationAreaRequestSent',
+          {
+            requester: player.id,
+            requested: [player2.id, player3.id],
+            requesterLocation: playerLocation,
+          },
+        );
+        expectEmittedOnlyTo(
+          [playerTestData, playerTestData2, playerTestData3],
+          'conversationAreaRequestSent',
+          {
+            requester: player2.id,
+            requested: [player3.id, player.id],
+            requesterLocation: player2Location,
+          },
+        );
+        expectEmittedOnlyTo([playerTestData2, playerTestData3], 'conversationAreaRequestSent', {
           requester: player3.id,
           requested: [player2.id],
           requesterLocation: player3.location,
@@ -758,7 +1249,9 @@ describe('Town', () => {
     });
     describe('acceptConvAreaInvite (listener)', () => {
       beforeEach(() => {
-        playerTestData.acceptedConvAreaInvite(player.id, player2.id, playerLocation);
+        makeFriends(player2, player);
+        playerTestData.invitedAllToConvArea(conversationRequest);
+        playerTestData2.acceptedConvAreaInvite(player.id, player2.id, playerLocation);
       });
       it('Should remove the invite from the requested Player list of conv area invites', () => {
         expect(
@@ -770,11 +1263,11 @@ describe('Town', () => {
         ).toBeFalsy();
       });
       it('Should teleport the requested Player to the requesterLocation', () => {
-        expect(townEmitter.emit).toBeCalledWith('playerMoved', player2.toPlayerModel());
+        expect(playerTestData2.socket.emit).toBeCalledWith('playerMoved', player2.toPlayerModel());
         expect(player2.location).toBe(playerLocation);
       });
       it('TownService should emit a conversationAreaRequestAccepted event', () => {
-        expect(townEmitter.emit).toBeCalledWith('conversationAreaRequestAccepted', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'conversationAreaRequestAccepted', {
           requester: player.id,
           requested: player2.id,
           requesterLocation: playerLocation,
@@ -783,7 +1276,9 @@ describe('Town', () => {
     });
     describe('declineConvAreaInvite (listener)', () => {
       beforeEach(() => {
-        playerTestData.declinedConvAreaInvite(player.id, player2.id, playerLocation);
+        makeFriends(player2, player);
+        playerTestData.invitedAllToConvArea(conversationRequest);
+        playerTestData2.declinedConvAreaInvite(player.id, player2.id, playerLocation);
       });
       it('Should remove the invite from the requested Player list of conv area invites', () => {
         expect(
@@ -795,33 +1290,171 @@ describe('Town', () => {
         ).toBeFalsy();
       });
       it('Should not move the invited Player', () => {
-        expect(townEmitter.emit).not.toBeCalledWith('playerMoved', player2.toPlayerModel());
+        expect(playerTestData2.socket.emit).not.toBeCalledWith('playerMoved', {
+          ...player2.toPlayerModel(),
+          location: playerLocation,
+        });
       });
       it('TownService should emit a conversationAreaRequestDeclined event', () => {
-        expect(townEmitter.emit).toBeCalledWith('conversationAreaRequestDeclined', {
+        expectEmittedOnlyTo([playerTestData, playerTestData2], 'conversationAreaRequestDeclined', {
           requester: player.id,
           requested: player2.id,
           requesterLocation: playerLocation,
         });
       });
     });
-    it('Forwards chat messages to all players in the same town', async () => {
-      const chatHandler = getEventListener(playerTestData.socket, 'chatMessage');
-      const chatMessage: ChatMessage = {
-        author: player.id,
-        body: 'Test message',
-        dateCreated: new Date(),
-        sid: 'test message id',
-      };
+    describe('chatMessage', () => {
+      it('Forwards chat messages to all players in the same town, as written by the sender', () => {
+        const chatHandler = getEventListener(playerTestData.socket, 'chatMessage');
+        const before = Date.now();
 
-      chatHandler(chatMessage);
+        chatHandler({ body: '  Test message ' });
+
+        const emittedMessage = getLastEmittedEvent(townEmitter, 'chatMessage');
+        expect(emittedMessage).toEqual({
+          author: player.userName,
+          authorID: player.id,
+          body: 'Test message',
+          dateCreated: expect.any(Date),
+          sid: expect.any(String),
+          channel: { type: 'town' },
+        });
+        expect(emittedMessage.dateCreated.getTime()).toBeGreaterThanOrEqual(before);
+      });
+      it('Ignores the author, ID and timestamp that the client claims', () => {
+        const forgedMessage = {
+          author: player2.userName,
+          authorID: player2.id,
+          body: 'Test message',
+          dateCreated: new Date(0),
+          sid: 'forged message id',
+        };
+
+        getEventListener(playerTestData.socket, 'chatMessage')(forgedMessage);
+
+        const emittedMessage = getLastEmittedEvent(townEmitter, 'chatMessage');
+        expect(emittedMessage.author).toEqual(player.userName);
+        expect(emittedMessage.authorID).toEqual(player.id);
+        expect(emittedMessage.sid).not.toEqual(forgedMessage.sid);
+        expect(emittedMessage.dateCreated).not.toEqual(forgedMessage.dateCreated);
+      });
+      it('Remembers chat messages for players who join later', () => {
+        getEventListener(playerTestData.socket, 'chatMessage')({ body: 'Test message' });
+
+        expect(town.getChatMessages(player2.id)).toEqual([
+          getLastEmittedEvent(townEmitter, 'chatMessage'),
+        ]);
+      });
+      it.each(['', '   ', 'x'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1)])(
+        'Rejects empty and overly long messages',
+        body => {
+          getEventListener(playerTestData.socket, 'chatMessage')({ body });
 
-      const emittedMessage = getLastEmittedEvent(townEmitter, 'chatMessage');
-      expect(emittedMessage).toEqual(chatMessage);
+          expect(getLastEmittedEvent(playerTestData.socket, 'socialEventRejected').event).toEqual(
+            'chatMessage',
+          );
+          expect(townEmitter.emit).not.toBeCalledWith('chatMessage', expect.anything());
+          expect(town.getChatMessages(player.id)).toEqual([]);
+        },
+      );
+      it('Masks blocked words', async () => {
+        const getWordFilter = jest
+          .spyOn(WordFilter, 'getInstance')
+          .mockReturnValue(new WordFilter(['heck']));
+        try {
+          const filteredTown = new Town(nanoid(), false, nanoid(), townEmitter);
+          const filteredPlayer = mockPlayer(filteredTown.townID);
+          await filteredTown.addPlayer(filteredPlayer.userName, filteredPlayer.socket);
+
+          getEventListener(filteredPlayer.socket, 'chatMessage')({ body: 'What the heck' });
+
+          expect(getLastEmittedEvent(townEmitter, 'chatMessage').body).toEqual('What the ****');
+        } finally {
+          getWordFilter.mockRestore();
+        }
+      });
+      describe('Conversation area channels', () => {
+        const channel: ChatChannel = { type: 'conversationArea', conversationAreaID: 'Name1' };
+        beforeEach(() => {
+          town.initializeFromMap(testingMaps.twoConvOneViewing);
+          playerTestData.moveTo(45, 122); // Inside of "Name1" area
+          playerTestData2.moveTo(46, 123);
+          town.addConversationArea({ id: 'Name1', topic: 'test', occupantsByID: [] });
+          mockReset(townEmitter);
+        });
+        it('Sends messages only to the occupants of the area, and does not remember them', () => {
+          getEventListener(playerTestData.socket, 'chatMessage')({ body: 'Psst', channel });
+
+          const message = getLastEmittedEvent(playerTestData2.socket, 'chatMessage');
+          expect(message.body).toEqual('Psst');
+          expect(message.channel).toEqual(channel);
+          expectEmittedOnlyTo([playerTestData, playerTestData2], 'chatMessage', message);
+          expect(town.getChatMessages(player.id)).toEqual([]);
+        });
+        it('Rejects messages from players outside of the area', () => {
+          getEventListener(playerTestData3.socket, 'chatMessage')({ body: 'Psst', channel });
+          getEventListener(
+            playerTestData3.socket,
+            'chatMessage',
+          )({ body: 'Psst', channel: { type: 'conversationArea', conversationAreaID: nanoid() } });
+
+          expect(playerTestData3.socket.emit).toBeCalledWith('socialEventRejected', {
+            event: 'chatMessage',
+            message: expect.any(String),
+          });
+          expect(playerTestData.socket.emit).not.toBeCalledWith('chatMessage', expect.anything());
+          expect(townEmitter.emit).not.toBeCalledWith('chatMessage', expect.anything());
+        });
+      });
+      describe('Direct channels', () => {
+        it('Sends messages only to the two friends, and remembers them only for the two', () => {
+          makeFriends(player, player2);
+          getEventListener(
+            playerTestData.socket,
+            'chatMessage',
+          )({ body: 'Hi friend', channel: { type: 'direct', playerIDs: [player2.id, player.id] } });
+
+          const message = getLastEmittedEvent(playerTestData2.socket, 'chatMessage');
+          expect(message.channel).toEqual({
+            type: 'direct',
+            playerIDs: [player.id, player2.id].sort(),
+          });
+          expectEmittedOnlyTo([playerTestData, playerTestData2], 'chatMessage', message);
+          expect(town.getChatMessages(player.id)).toEqual([message]);
+          expect(town.getChatMessages(player2.id)).toEqual([message]);
+          expect(town.getChatMessages(player3.id)).toEqual([]);
+        });
+        it('Rejects messages to players who are not friends, or to more than one player', () => {
+          makeFriends(player, player2);
+          const chatHandler = getEventListener(playerTestData.socket, 'chatMessage');
+          chatHandler({
+            body: 'Hi',
+            channel: { type: 'direct', playerIDs: [player.id, player3.id] },
+          });
+          chatHandler({
+            body: 'Hi',
+            channel: { type: 'direct', playerIDs: [player.id, player2.id, player3.id] },
+          });
+          chatHandler({
+            body: 'Hi',
+            channel: { type: 'direct', playerIDs: [player.id, player.id] },
+          });
+
+          expect(
+            (playerTestData.socket.emit as jest.Mock).mock.calls.filter(
+              ([event]) => event === 'socialEventRejected',
+            ),
+          ).toHaveLength(3);
+          expect(playerTestData2.socket.emit).not.toBeCalledWith('chatMessage', expect.anything());
+          expect(playerTestData3.socket.emit).not.toBeCalledWith('chatMessage', expect.anything());
+        });
+      });
     });
-    it('Forwards mini message events to all players in the same town', async () => {
+    it('Forwards mini message events to the sender and all of the recipients', async () => {
+      makeFriends(player2, player);
+      makeFriends(player3, player);
       const miniMessageHandler = getEventListener(playerTestData.socket, 'sendMiniMessage');
-      const testMiniMessage: MiniMessage = {
+      const testMiniMessage: MiniMessageDraft = {
         sender: player.id,
         recipients: [player2.id, player3.id],
         body: nanoid(),
@@ -829,8 +1462,811 @@ describe('Town', () => {
 
       miniMessageHandler(testMiniMessage);
 
-      const emittedMessage = getLastEmittedEvent(townEmitter, 'miniMessageSent');
-      expect(emittedMessage).toEqual(testMiniMessage);
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2, playerTestData3],
+        'miniMessageSent',
+        expect.objectContaining(testMiniMessage),
+      );
+    });
+    it('Does not send mini messages to players who are not recipients', async () => {
+      makeFriends(player2, player);
+      const miniMessageHandler = getEventListener(playerTestData.socket, 'sendMiniMessage');
+      const testMiniMessage: MiniMessageDraft = {
+        sender: player.id,
+        recipients: [player2.id],
+        body: nanoid(),
+      };
+
+      miniMessageHandler(testMiniMessage);
+
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2],
+        'miniMessageSent',
+        expect.objectContaining(testMiniMessage),
+      );
+    });
+    describe('Mini message inbox', () => {
+      let miniMessageHandler: (miniMessage: MiniMessageDraft) => void;
+      beforeEach(() => {
+        makeFriends(player2, player);
+        miniMessageHandler = getEventListener(playerTestData.socket, 'sendMiniMessage');
+      });
+      it('Assigns each mini message an ID and a timestamp', () => {
+        const before = Date.now();
+        miniMessageHandler({ sender: player.id, recipients: [player2.id], body: nanoid() });
+        miniMessageHandler({ sender: player.id, recipients: [player2.id], body: nanoid() });
+        const [first, second] = town.getMiniMessageInbox(player.id).messages;
+        expect(first.id).not.toEqual(second.id);
+        expect(first.sentAt).toBeGreaterThanOrEqual(before);
+        expect(first.sentAt).toBeLessThanOrEqual(Date.now());
+        expect(getLastEmittedEvent(playerTestData2.socket, 'miniMessageSent')).toEqual(second);
+      });
+      it('Keeps the mini messages that each player sent and received', () => {
+        miniMessageHandler({ sender: player.id, recipients: [player2.id], body: nanoid() });
+        const [message] = town.getMiniMessageInbox(player.id).messages;
+        expect(town.getMiniMessageInbox(player2.id).messages).toEqual([message]);
+        expect(town.getMiniMessageInbox(player3.id).messages).toEqual([]);
+      });
+      it('Trims the message, and ignores repeated recipients', () => {
+        const body = nanoid();
+        miniMessageHandler({
+          sender: player.id,
+          recipients: [player2.id, player2.id],
+          body: ` ${body} `,
+        });
+        expect(getLastEmittedEvent(playerTestData2.socket, 'miniMessageSent')).toEqual(
+          expect.objectContaining({ recipients: [player2.id], body }),
+        );
+      });
+      it('Remembers when each player last read their conversation with another player', () => {
+        const before = Date.now();
+        getEventListener(playerTestData2.socket, 'readMiniMessages')(player.id);
+        const { lastReadAt } = town.getMiniMessageInbox(player2.id);
+        expect(lastReadAt[player.id]).toBeGreaterThanOrEqual(before);
+        expect(town.getMiniMessageInbox(player.id).lastReadAt).toEqual({});
+      });
+    });
+    describe('Mini message receipts', () => {
+      let message: MiniMessage;
+      beforeEach(() => {
+        makeFriends(player2, player);
+        makeFriends(player3, player);
+        getEventListener(
+          playerTestData.socket,
+          'sendMiniMessage',
+        )({ sender: player.id, recipients: [player2.id, player3.id], body: nanoid() });
+        message = getLastEmittedEvent(playerTestData.socket, 'miniMessageSent');
+      });
+      it('Marks the message as delivered to recipients who are connected', () => {
+        expect(message.receipts).toEqual({ [player2.id]: 'delivered', [player3.id]: 'delivered' });
+      });
+      it('Lets the sender know when a recipient reads the message', () => {
+        getEventListener(playerTestData2.socket, 'readMiniMessages')(player.id);
+        expect(getLastEmittedEvent(playerTestData.socket, 'miniMessageReceipt')).toEqual({
+          messageID: message.id,
+          recipient: player2.id,
+          status: 'read',
+        });
+        expect(town.getMiniMessageInbox(player.id).messages[0].receipts).toEqual({
+          [player2.id]: 'read',
+          [player3.id]: 'delivered',
+        });
+        expect(playerTestData2.socket.emit).not.toBeCalledWith(
+          'miniMessageReceipt',
+          expect.anything(),
+        );
+      });
+      it('Only lets the sender know the first time that a recipient reads the message', () => {
+        const readHandler = getEventListener(playerTestData2.socket, 'readMiniMessages');
+        readHandler(player.id);
+        readHandler(player.id);
+        expect(playerTestData.socket.emit).toBeCalledWith('miniMessageReceipt', expect.anything());
+        expect(
+          (playerTestData.socket.emit as jest.Mock).mock.calls.filter(
+            ([event]) => event === 'miniMessageReceipt',
+          ),
+        ).toHaveLength(1);
+      });
+      it("Does not mark messages as read when the recipient reads another player's messages", () => {
+        getEventListener(playerTestData2.socket, 'readMiniMessages')(player3.id);
+        expect(playerTestData.socket.emit).not.toBeCalledWith(
+          'miniMessageReceipt',
+          expect.anything(),
+        );
+      });
+    });
+    describe('Typing indicators', () => {
+      beforeEach(() => {
+        makeFriends(player2, player);
+        makeFriends(player3, player);
+      });
+      it('Forwards typingStarted and typingStopped to the recipients only', () => {
+        const notice = { typist: player.id, recipients: [player2.id] };
+        getEventListener(playerTestData.socket, 'typingStarted')(notice);
+        expectEmittedOnlyTo([playerTestData2], 'typingStarted', notice);
+        getEventListener(playerTestData.socket, 'typingStopped')(notice);
+        expectEmittedOnlyTo([playerTestData2], 'typingStopped', notice);
+      });
+      it('Rejects forged typing indicators, and those to players who are not friends', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'typingStarted',
+        )({ typist: player.id, recipients: [player3.id] });
+        expect(getLastEmittedEvent(playerTestData2.socket, 'socialEventRejected').event).toEqual(
+          'typingStarted',
+        );
+        getEventListener(
+          playerTestData2.socket,
+          'typingStarted',
+        )({ typist: player2.id, recipients: [player3.id] });
+        expect(playerTestData3.socket.emit).not.toBeCalledWith('typingStarted', expect.anything());
+      });
+      it('Does not replay typing indicators to players who are reconnecting', () => {
+        getEventListener(playerTestData2.socket, 'disconnect')('transport close');
+        getEventListener(
+          playerTestData.socket,
+          'typingStarted',
+        )({ typist: player.id, recipients: [player2.id] });
+        const resumedSocket = mockPlayer(town.townID).socket;
+        town.resumePlayer(player2, resumedSocket);
+        expect(resumedSocket.emit).not.toBeCalledWith('typingStarted', expect.anything());
+      });
+    });
+    describe('Mini message replies', () => {
+      let original: MiniMessage;
+      beforeEach(() => {
+        makeFriends(player2, player);
+        makeFriends(player3, player);
+        makeFriends(player3, player2);
+        getEventListener(
+          playerTestData.socket,
+          'sendMiniMessage',
+        )({ sender: player.id, recipients: [player2.id, player3.id], body: nanoid() });
+        original = getLastEmittedEvent(playerTestData2.socket, 'miniMessageSent');
+      });
+      it('Forwards replies with the ID of the message that they reply to', () => {
+        const reply: MiniMessageDraft = {
+          sender: player2.id,
+          recipients: [player.id],
+          body: nanoid(),
+          inReplyTo: original.id,
+        };
+        getEventListener(playerTestData2.socket, 'sendMiniMessage')(reply);
+        expectEmittedOnlyTo(
+          [playerTestData, playerTestData2],
+          'miniMessageSent',
+          expect.objectContaining(reply),
+        );
+      });
+      it('Forwards replies to every original recipient of a group message', () => {
+        const reply: MiniMessageDraft = {
+          sender: player2.id,
+          recipients: [player.id, player3.id],
+          body: nanoid(),
+          inReplyTo: original.id,
+        };
+        getEventListener(playerTestData2.socket, 'sendMiniMessage')(reply);
+        expectEmittedOnlyTo(
+          [playerTestData, playerTestData2, playerTestData3],
+          'miniMessageSent',
+          expect.objectContaining(reply),
+        );
+      });
+      it('Rejects replies to messages that the sender never received', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'sendMiniMessage',
+        )({ sender: player2.id, recipients: [player.id], body: nanoid(), inReplyTo: nanoid() });
+        expect(getLastEmittedEvent(playerTestData2.socket, 'socialEventRejected').event).toEqual(
+          'sendMiniMessage',
+        );
+        expect(town.getMiniMessageInbox(player2.id).messages).toEqual([original]);
+      });
+    });
+    describe('Blocking', () => {
+      beforeEach(() => {
+        makeFriends(player2, player);
+        makeFriends(player3, player);
+        makeFriends(player3, player2);
+        getEventListener(playerTestData.socket, 'blockPlayer')(friendRequest);
+        [playerTestData, playerTestData2, playerTestData3].forEach(eachPlayer =>
+          clearEmittedEvents(eachPlayer.socket),
+        );
+      });
+      it('Tells only the blocker, and ends the friendship', () => {
+        expect(player.hasBlocked(player2.id)).toBe(true);
+        expect(player.friends).not.toContain(player2);
+        expect(player2.friends).not.toContain(player);
+        getEventListener(playerTestData.socket, 'blockPlayer')(friendRequest);
+        expectEmittedOnlyTo([playerTestData], 'playerBlocked', friendRequest);
+      });
+      it('Silently drops friend requests from the blocked player', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'sendFriendRequest',
+        )({ actor: player2.id, affected: player.id });
+        expect(town.pendingFriendRequestsFor(player.id)).toEqual([]);
+        expect(playerTestData.socket.emit).not.toBeCalledWith(
+          'friendRequestSent',
+          expect.anything(),
+        );
+        expect(playerTestData2.socket.emit).not.toBeCalled();
+      });
+      it('Silently drops conversation area invites from the blocked player', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'inviteAllToConvArea',
+        )({ requester: player2.id, requested: [player.id], requesterLocation: player2.location });
+        expect(player.conversationAreaInvites).toEqual([]);
+        expect(playerTestData.socket.emit).not.toBeCalled();
+        expect(playerTestData2.socket.emit).not.toBeCalled();
+      });
+      it('Silently drops mini messages from the blocked player', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'sendMiniMessage',
+        )({ sender: player2.id, recipients: [player.id], body: nanoid() });
+        expect(town.getMiniMessageInbox(player.id).messages).toEqual([]);
+        expect(playerTestData.socket.emit).not.toBeCalled();
+        expect(playerTestData2.socket.emit).not.toBeCalled();
+      });
+      it('Still delivers group mini messages to the recipients who have not blocked the sender', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'sendMiniMessage',
+        )({ sender: player2.id, recipients: [player.id, player3.id], body: nanoid() });
+        expectEmittedOnlyTo(
+          [playerTestData2, playerTestData3],
+          'miniMessageSent',
+          expect.objectContaining({ recipients: [player3.id] }),
+        );
+        expect(playerTestData.socket.emit).not.toBeCalled();
+      });
+      it('Accepts events from the blocked player again once they are unblocked', () => {
+        getEventListener(playerTestData.socket, 'unblockPlayer')(friendRequest);
+        expectEmittedOnlyTo([playerTestData], 'playerUnblocked', friendRequest);
+        getEventListener(
+          playerTestData2.socket,
+          'sendFriendRequest',
+        )({ actor: player2.id, affected: player.id });
+        expect(town.pendingFriendRequestsFor(player.id).length).toBe(1);
+      });
+      it('Rejects forged block and unblock requests', () => {
+        getEventListener(
+          playerTestData2.socket,
+          'blockPlayer',
+        )({ actor: player3.id, affected: player2.id });
+        expect(getLastEmittedEvent(playerTestData2.socket, 'socialEventRejected').event).toEqual(
+          'blockPlayer',
+        );
+        expect(player3.hasBlocked(player2.id)).toBe(false);
+        getEventListener(playerTestData2.socket, 'unblockPlayer')(friendRequest);
+        expect(getLastEmittedEvent(playerTestData2.socket, 'socialEventRejected').event).toEqual(
+          'unblockPlayer',
+        );
+        expect(player.hasBlocked(player2.id)).toBe(true);
+      });
+    });
+    describe('Rate limiting', () => {
+      const chatLimit = defaultRateLimits.chatMessage as RateLimit;
+      const sendChatMessage = (sender: MockedPlayer) =>
+        getEventListener(sender.socket, 'chatMessage')({ body: nanoid() });
+      const broadcastChatMessageCount = () =>
+        townEmitter.emit.mock.calls.filter(([event]) => event === 'chatMessage').length;
+      beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Drops events over the limit, and tells only the sender when they may try again', () => {
+        for (let i = 0; i <= chatLimit.burst; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        expect(broadcastChatMessageCount()).toBe(chatLimit.burst);
+        expect(getLastEmittedEvent(playerTestData.socket, 'rateLimited')).toEqual({
+          event: 'chatMessage',
+          retryAfterMs: 1000 / chatLimit.perSecond,
+        });
+        expect(playerTestData2.socket.emit).not.toBeCalledWith('rateLimited', expect.anything());
+      });
+      it('Accepts events again once the limit refills', () => {
+        for (let i = 0; i <= chatLimit.burst; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        jest.advanceTimersByTime(1000 / chatLimit.perSecond);
+        sendChatMessage(playerTestData);
+        expect(broadcastChatMessageCount()).toBe(chatLimit.burst + 1);
+      });
+      it('Limits each kind of event and each player separately', () => {
+        for (let i = 0; i <= chatLimit.burst; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        sendChatMessage(playerTestData2);
+        expect(broadcastChatMessageCount()).toBe(chatLimit.burst + 1);
+        playerTestData.moveTo(5, 5);
+        expect(playerTestData.socket.emit).toBeCalledWith('playerMoved', player.toPlayerModel());
+      });
+      it.each([60, 144])(
+        'Does not kick players whose client sends a movement on every frame at %i frames per second',
+        framesPerSecond => {
+          const start = { ...player.location };
+          const frames = framesPerSecond * 10;
+          for (let frame = 1; frame <= frames; frame += 1) {
+            jest.advanceTimersByTime(1000 / framesPerSecond);
+            playerTestData.moveTo(start.x + (PLAYER_SPEED * frame) / framesPerSecond, start.y);
+          }
+          expect(town.players).toContain(player);
+          expect(playerTestData.socket.emit).not.toBeCalledWith('playerKicked', expect.anything());
+          expect(playerTestData.socket.emit).not.toBeCalledWith('rateLimited', expect.anything());
+          expect(playerTestData.socket.emit).not.toBeCalledWith(
+            'movementRejected',
+            expect.anything(),
+          );
+          expect(player.location.x).toBeGreaterThan(start.x + PLAYER_SPEED * 9);
+        },
+      );
+      it('Kicks players who keep sending events over the limit', () => {
+        for (let i = 0; i < chatLimit.burst + DEFAULT_RATE_LIMIT_MAX_VIOLATIONS; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        expect(town.players).toContain(player);
+        sendChatMessage(playerTestData);
+        expect(playerTestData.socket.emit).toBeCalledWith('playerKicked', {
+          reason: expect.any(String),
+        });
+        expect(playerTestData.socket.disconnect).toBeCalledWith(true);
+        expect(town.players).not.toContain(player);
+      });
+      it('Keeps limiting a player whose client resumes its session on a new socket', () => {
+        for (let i = 0; i < chatLimit.burst + DEFAULT_RATE_LIMIT_MAX_VIOLATIONS; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+        const resumed = mockPlayer(town.townID);
+        town.resumePlayer(player, resumed.socket);
+        sendChatMessage(resumed);
+        expect(broadcastChatMessageCount()).toBe(chatLimit.burst);
+        expect(resumed.socket.emit).toBeCalledWith('playerKicked', { reason: expect.any(String) });
+        expect(town.players).not.toContain(player);
+      });
+      it('Starts a player who rejoins after leaving with fresh limits', async () => {
+        for (let i = 0; i <= chatLimit.burst; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        getEventListener(playerTestData.socket, 'disconnect')('client namespace disconnect');
+        const rejoined = mockPlayer(town.townID);
+        await town.addPlayer(rejoined.userName, rejoined.socket, player.id);
+        sendChatMessage(rejoined);
+        expect(broadcastChatMessageCount()).toBe(chatLimit.burst + 1);
+      });
+      it('Forgives events over the limit after a while', () => {
+        for (let i = 0; i < chatLimit.burst + DEFAULT_RATE_LIMIT_MAX_VIOLATIONS; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        jest.advanceTimersByTime(RATE_LIMIT_VIOLATION_DECAY_MS);
+        // The limit for chat messages has refilled by now, so use up the burst again first
+        for (let i = 0; i <= chatLimit.burst; i += 1) {
+          sendChatMessage(playerTestData);
+        }
+        expect(town.players).toContain(player);
+      });
+    });
+    describe('Validating payloads', () => {
+      it('Rejects a malformed location, telling only the sender where the problem is', () => {
+        const locationBefore = { ...player.location };
+        clearEmittedEvents(playerTestData.socket, 'playerMoved');
+        getEventListener(
+          playerTestData.socket,
+          'playerMovement',
+        )({ ...locationBefore, x: 'far away' } as unknown as PlayerLocation);
+        expect(getLastEmittedEvent(playerTestData.socket, 'payloadRejected')).toEqual({
+          event: 'playerMovement',
+          path: 'x',
+          message: expect.any(String),
+        });
+        expect(player.location).toEqual(locationBefore);
+        expect(playerTestData.socket.emit).not.toBeCalledWith('playerMoved', expect.anything());
+        expect(playerTestData2.socket.emit).not.toBeCalledWith(
+          'payloadRejected',
+          expect.anything(),
+        );
+      });
+      it('Rejects a missing payload', () => {
+        getEventListener(
+          playerTestData.socket,
+          'sendFriendRequest',
+        )(undefined as unknown as PlayerToPlayerUpdate);
+        expect(getLastEmittedEvent(playerTestData.socket, 'payloadRejected')).toEqual({
+          event: 'sendFriendRequest',
+          path: '',
+          message: expect.any(String),
+        });
+      });
+      it('Rejects a player ID that is not a string', () => {
+        getEventListener(playerTestData.socket, 'readMiniMessages')(42 as unknown as string);
+        expect(getLastEmittedEvent(playerTestData.socket, 'payloadRejected')).toEqual({
+          event: 'readMiniMessages',
+          path: '',
+          message: expect.any(String),
+        });
+      });
+      it('Rejects an invite whose list of requested players is malformed', () => {
+        makeFriends(player2, player);
+        getEventListener(
+          playerTestData.socket,
+          'inviteAllToConvArea',
+        )({
+          requester: player.id,
+          requested: [player2.id, { id: player3.id }],
+          requesterLocation: player.location,
+        } as unknown as ConversationAreaGroupInvite);
+        expect(getLastEmittedEvent(playerTestData.socket, 'payloadRejected')).toEqual({
+          event: 'inviteAllToConvArea',
+          path: 'requested[1]',
+          message: expect.any(String),
+        });
+        expect(player2.conversationAreaInvites).toEqual([]);
+      });
+      it('Rejects a nested location that is not finite', () => {
+        getEventListener(
+          playerTestData.socket,
+          'acceptConvAreaInvite',
+        )({
+          requester: player2.id,
+          requested: player.id,
+          requesterLocation: { ...player2.location, y: Infinity },
+        });
+        expect(getLastEmittedEvent(playerTestData.socket, 'payloadRejected')).toEqual({
+          event: 'acceptConvAreaInvite',
+          path: 'requesterLocation.y',
+          message: expect.any(String),
+        });
+      });
+      it('Rejects an interactable that is neither a viewing area nor a conversation area', () => {
+        town.initializeFromMap(testingMaps.twoConvOneViewing);
+        getEventListener(
+          playerTestData.socket,
+          'interactableUpdate',
+        )({ id: 'Name3', isPlaying: 'yes' } as unknown as Interactable);
+        expect(getLastEmittedEvent(playerTestData.socket, 'payloadRejected')).toEqual({
+          event: 'interactableUpdate',
+          path: '',
+          message: expect.any(String),
+        });
+        expect(playerTestData.socketToRoomMock.emit).not.toBeCalled();
+        expect(town.getInteractable('Name3').toModel()).toMatchObject({ isPlaying: false });
+      });
+      it('Passes on only the properties that are in the schema', () => {
+        getEventListener(
+          playerTestData.socket,
+          'playerMovement',
+        )({ ...player.location, x: 5, userName: 'forged' } as unknown as PlayerLocation);
+        expect(player.location.x).toBe(5);
+        expect(player.location).not.toHaveProperty('userName');
+      });
+    });
+    describe('Acknowledgements', () => {
+      const sendFriendRequestWithAck = (sender: MockedPlayer, update: PlayerToPlayerUpdate) => {
+        const ack = jest.fn();
+        (
+          getEventListener(
+            sender.socket,
+            'sendFriendRequest',
+          ) as ClientToServerEvents['sendFriendRequest']
+        )(update, ack);
+        return ack;
+      };
+      it('Acknowledges events that succeed', () => {
+        const ack = sendFriendRequestWithAck(playerTestData, {
+          actor: player.id,
+          affected: player2.id,
+        });
+        expect(ack).toBeCalledWith({ ok: true });
+        expect(town.pendingFriendRequestsFor(player2.id)).toHaveLength(1);
+      });
+      it('Reports rejected events through the acknowledgement instead of socialEventRejected', () => {
+        const ack = sendFriendRequestWithAck(playerTestData, {
+          actor: player2.id,
+          affected: player3.id,
+        });
+        expect(ack).toBeCalledWith({ ok: false, code: 'rejected', message: expect.any(String) });
+        expect(playerTestData.socket.emit).not.toBeCalledWith(
+          'socialEventRejected',
+          expect.anything(),
+        );
+      });
+      it('Reports malformed payloads through the acknowledgement', () => {
+        const ack = sendFriendRequestWithAck(playerTestData, {
+          actor: player.id,
+        } as PlayerToPlayerUpdate);
+        expect(ack).toBeCalledWith({
+          ok: false,
+          code: 'invalidPayload',
+          message: expect.stringContaining('affected'),
+        });
+        expect(playerTestData.socket.emit).not.toBeCalledWith('payloadRejected', expect.anything());
+      });
+      it('Reports events over the rate limit through the acknowledgement', () => {
+        const limit = defaultRateLimits.sendFriendRequest as RateLimit;
+        let ack = jest.fn();
+        for (let i = 0; i <= limit.burst; i += 1) {
+          ack = sendFriendRequestWithAck(playerTestData, {
+            actor: player.id,
+            affected: player2.id,
+          });
+        }
+        expect(ack).toBeCalledWith({ ok: false, code: 'rateLimited', message: expect.any(String) });
+        expect(playerTestData.socket.emit).not.toBeCalledWith('rateLimited', expect.anything());
+      });
+      it('Reports events that fail unexpectedly through the acknowledgement', () => {
+        jest.spyOn(town, 'sendFriendRequest').mockImplementation(() => {
+          throw new Error('Account store is unavailable');
+        });
+        const ack = sendFriendRequestWithAck(playerTestData, {
+          actor: player.id,
+          affected: player2.id,
+        });
+        expect(ack).toBeCalledWith({ ok: false, code: 'serverError', message: expect.any(String) });
+      });
+      it('Reports a failure to accept an invite from a player who has left the town', () => {
+        makeFriends(player2, player);
+        playerTestData2.invitedAllToConvArea({
+          requester: player2.id,
+          requested: [player.id],
+          requesterLocation: player2.location,
+        });
+        const [invite] = player.conversationAreaInvites;
+        town.kickPlayer(player2.id);
+        const ack = jest.fn();
+        (
+          getEventListener(
+            playerTestData.socket,
+            'acceptConvAreaInvite',
+          ) as ClientToServerEvents['acceptConvAreaInvite']
+        )(invite, ack);
+        expect(ack).toBeCalledWith({ ok: false, code: 'rejected', message: expect.any(String) });
+      });
+    });
+    describe('Rejecting forged and illegal social events', () => {
+      const allPlayers = () => [playerTestData, playerTestData2, playerTestData3];
+      function clearAllEmittedEvents() {
+        mockReset(townEmitter);
+        allPlayers().forEach(eachPlayer => clearEmittedEvents(eachPlayer.socket));
+      }
+      /**
+       * Expect that the last event sent by the given player was rejected, with the rejection sent
+       * back only to that player, and that none of the players were told about the event
+       */
+      function expectRejected(
+        sender: MockedPlayer,
+        event: ClientEventTypes,
+        townEvent: keyof ServerToClientEvents,
+      ) {
+        expect(getLastEmittedEvent(sender.socket, 'socialEventRejected').event).toEqual(event);
+        allPlayers().forEach(eachPlayer =>
+          expect(eachPlayer.socket.emit).not.toBeCalledWith(townEvent, expect.anything()),
+        );
+        expect(townEmitter.emit).not.toBeCalledWith(townEvent, expect.anything());
+      }
+      describe('acceptFriendRequest', () => {
+        it('Rejects accepting a request on behalf of another player', () => {
+          playerTestData.sendFriendRequest(player, player2);
+          playerTestData.acceptedFriendRequest(player2, player);
+          expectRejected(playerTestData, 'acceptFriendRequest', 'friendRequestAccepted');
+          expect(player.friends).toEqual([]);
+          expect(player2.friends).toEqual([]);
+        });
+        it('Rejects accepting a request that was never sent', () => {
+          playerTestData.acceptedFriendRequest(player, player2);
+          expectRejected(playerTestData, 'acceptFriendRequest', 'friendRequestAccepted');
+          expect(player.friends).toEqual([]);
+          expect(player2.friends).toEqual([]);
+        });
+        it('Rejects the sender accepting their own request', () => {
+          playerTestData.sendFriendRequest(player, player2);
+          playerTestData.acceptedFriendRequest(player, player2);
+          expectRejected(playerTestData, 'acceptFriendRequest', 'friendRequestAccepted');
+        });
+        it('Rejects accepting a request that was already accepted', () => {
+          playerTestData2.sendFriendRequest(player2, player);
+          playerTestData.acceptedFriendRequest(player, player2);
+          clearAllEmittedEvents();
+          playerTestData.acceptedFriendRequest(player, player2);
+          expectRejected(playerTestData, 'acceptFriendRequest', 'friendRequestAccepted');
+        });
+      });
+      describe('declineFriendRequest', () => {
+        it('Rejects declining a request on behalf of another player', () => {
+          playerTestData.sendFriendRequest(player, player2);
+          playerTestData3.declinedFriendRequest(player2, player);
+          expectRejected(playerTestData3, 'declineFriendRequest', 'friendRequestDeclined');
+        });
+        it('Rejects declining a request that was never sent', () => {
+          playerTestData.declinedFriendRequest(player, player2);
+          expectRejected(playerTestData, 'declineFriendRequest', 'friendRequestDeclined');
+        });
+      });
+      describe('sendFriendRequest', () => {
+        it('Rejects sending a request on behalf of another player', () => {
+          playerTestData.sendFriendRequest(player2, player3);
+          expectRejected(playerTestData, 'sendFriendRequest', 'friendRequestSent');
+        });
+        it('Rejects sending a request to a player who is not in the town', () => {
+          const onSendFriendRequestListener = getEventListener(
+            playerTestData.socket,
+            'sendFriendRequest',
+          );
+          onSendFriendRequestListener({ actor: player.id, affected: nanoid() });
+          expectRejected(playerTestData, 'sendFriendRequest', 'friendRequestSent');
+        });
+        it('Rejects sending a request to yourself', () => {
+          playerTestData.sendFriendRequest(player, player);
+          expectRejected(playerTestData, 'sendFriendRequest', 'friendRequestSent');
+        });
+        it('Rejects sending a request to a friend', () => {
+          makeFriends(player2, player);
+          clearAllEmittedEvents();
+          playerTestData.sendFriendRequest(player, player2);
+          expectRejected(playerTestData, 'sendFriendRequest', 'friendRequestSent');
+        });
+        it('Rejects sending a request while one between the same players is pending', () => {
+          playerTestData2.sendFriendRequest(player2, player);
+          clearAllEmittedEvents();
+          playerTestData.sendFriendRequest(player, player2);
+          expectRejected(playerTestData, 'sendFriendRequest', 'friendRequestSent');
+        });
+      });
+      describe('cancelFriendRequest', () => {
+        it('Rejects canceling a request on behalf of another player', () => {
+          playerTestData.sendFriendRequest(player, player2);
+          playerTestData2.cancelFriendRequest(player, player2);
+          expectRejected(playerTestData2, 'cancelFriendRequest', 'friendRequestCanceled');
+        });
+        it('Rejects canceling a request that was never sent', () => {
+          playerTestData.cancelFriendRequest(player, player2);
+          expectRejected(playerTestData, 'cancelFriendRequest', 'friendRequestCanceled');
+        });
+      });
+      describe('removeFriend', () => {
+        beforeEach(() => {
+          makeFriends(player2, player);
+          clearAllEmittedEvents();
+        });
+        it('Rejects removing a friend on behalf of another player', () => {
+          playerTestData3.removedFriend(player, player2);
+          expectRejected(playerTestData3, 'removeFriend', 'friendRemoved');
+          expect(player.friends).toEqual([player2]);
+          expect(player2.friends).toEqual([player]);
+        });
+        it('Rejects removing a player who is not a friend', () => {
+          playerTestData.removedFriend(player, player3);
+          expectRejected(playerTestData, 'removeFriend', 'friendRemoved');
+        });
+      });
+      describe('inviteAllToConvArea', () => {
+        beforeEach(() => {
+          makeFriends(player2, player);
+          clearAllEmittedEvents();
+        });
+        it('Rejects inviting players on behalf of another player', () => {
+          playerTestData3.invitedAllToConvArea(conversationRequest);
+          expectRejected(playerTestData3, 'inviteAllToConvArea', 'conversationAreaRequestSent');
+          expect(player2.conversationAreaInvites).toEqual([]);
+        });
+        it('Rejects inviting a player who is not a friend', () => {
+          playerTestData.invitedAllToConvArea({
+            ...conversationRequest,
+            requested: [player2.id, player3.id],
+          });
+          expectRejected(playerTestData, 'inviteAllToConvArea', 'conversationAreaRequestSent');
+          expect(player2.conversationAreaInvites).toEqual([]);
+          expect(player3.conversationAreaInvites).toEqual([]);
+        });
+        it("Invites friends to the requester's actual location, not the one that was sent", () => {
+          playerTestData.invitedAllToConvArea({
+            ...conversationRequest,
+            requesterLocation: { x: 1000, y: 1000, rotation: 'front', moving: false },
+          });
+          expect(player2.conversationAreaInvites[0].requesterLocation).toEqual(player.location);
+        });
+      });
+      describe('acceptConvAreaInvite', () => {
+        beforeEach(() => {
+          makeFriends(player2, player);
+          playerTestData.invitedAllToConvArea(conversationRequest);
+          clearAllEmittedEvents();
+        });
+        it('Rejects accepting an invite on behalf of another player', () => {
+          playerTestData3.acceptedConvAreaInvite(player.id, player2.id, playerLocation);
+          expectRejected(
+            playerTestData3,
+            'acceptConvAreaInvite',
+            'conversationAreaRequestAccepted',
+          );
+          expect(player2.location).toBe(player2Location);
+          expect(player2.conversationAreaInvites.length).toBe(1);
+        });
+        it('Rejects accepting an invite that was never received', () => {
+          playerTestData2.acceptedConvAreaInvite(player3.id, player2.id, player3Location);
+          expectRejected(
+            playerTestData2,
+            'acceptConvAreaInvite',
+            'conversationAreaRequestAccepted',
+          );
+          expect(player2.location).toBe(player2Location);
+        });
+      });
+      describe('declineConvAreaInvite', () => {
+        beforeEach(() => {
+          makeFriends(player2, player);
+          playerTestData.invitedAllToConvArea(conversationRequest);
+          clearAllEmittedEvents();
+        });
+        it('Rejects declining an invite on behalf of another player', () => {
+          playerTestData3.declinedConvAreaInvite(player.id, player2.id, playerLocation);
+          expectRejected(
+            playerTestData3,
+            'declineConvAreaInvite',
+            'conversationAreaRequestDeclined',
+          );
+          expect(player2.conversationAreaInvites.length).toBe(1);
+        });
+        it('Rejects declining an invite that was never received', () => {
+          playerTestData2.declinedConvAreaInvite(player3.id, player2.id, player3Location);
+          expectRejected(
+            playerTestData2,
+            'declineConvAreaInvite',
+            'conversationAreaRequestDeclined',
+          );
+        });
+      });
+      describe('sendMiniMessage', () => {
+        let miniMessageHandler: (miniMessage: MiniMessageDraft) => void;
+        beforeEach(() => {
+          makeFriends(player2, player);
+          clearAllEmittedEvents();
+          miniMessageHandler = getEventListener(playerTestData.socket, 'sendMiniMessage');
+        });
+        it('Rejects sending a message on behalf of another player', () => {
+          miniMessageHandler({ sender: player2.id, recipients: [player.id], body: nanoid() });
+          expectRejected(playerTestData, 'sendMiniMessage', 'miniMessageSent');
+        });
+        it('Rejects sending a message to a player who is not a friend', () => {
+          miniMessageHandler({
+            sender: player.id,
+            recipients: [player2.id, player3.id],
+            body: nanoid(),
+          });
+          expectRejected(playerTestData, 'sendMiniMessage', 'miniMessageSent');
+        });
+        it('Rejects empty and overly long messages', () => {
+          miniMessageHandler({ sender: player.id, recipients: [player2.id], body: '  ' });
+          expectRejected(playerTestData, 'sendMiniMessage', 'miniMessageSent');
+          miniMessageHandler({
+            sender: player.id,
+            recipients: [player2.id],
+            body: 'a'.repeat(MAX_MINI_MESSAGE_LENGTH + 1),
+          });
+          expectRejected(playerTestData, 'sendMiniMessage', 'miniMessageSent');
+        });
+        it('Rejects sending a message to nobody', () => {
+          miniMessageHandler({ sender: player.id, recipients: [], body: nanoid() });
+          expectRejected(playerTestData, 'sendMiniMessage', 'miniMessageSent');
+        });
+      });
+      it('Does not reject allowed social events', () => {
+        playerTestData.sendFriendRequest(player, player2);
+        playerTestData2.acceptedFriendRequest(player2, player);
+        expect(playerTestData.socket.emit).not.toBeCalledWith(
+          'socialEventRejected',
+          expect.anything(),
+        );
+        expect(playerTestData2.socket.emit).not.toBeCalledWith(
+          'socialEventRejected',
+          expect.anything(),
+        );
+      });
     });
   });
   describe('addConversationArea', () => {
@@ -917,9 +2353,13 @@ describe('Town', () => {
         video: nanoid(),
       };
       beforeEach(() => {
-        playerTestData.moveTo(160, 570); // Inside of "Name3" area
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+        walkTo(playerTestData, 160, 570); // Inside of "Name3" area
         expect(town.addViewingArea(newModel)).toBe(true);
       });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
 
       it('Should update the local model for that area', () => {
         const viewingArea = town.getInteractable('Name3');
@@ -997,7 +2437,7 @@ describe('Town', () => {
         expect(newPlayerObj.location.interactableID).toEqual('Name1');
 
         // Check that a movement event was emitted with the correct label
-        const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
+        const lastEmittedMovement = getLastEmittedEvent(newPlayer.socket, 'playerMoved');
         expect(lastEmittedMovement.location.interactableID).toEqual('Name1');
 
         // Check that the conversation area occupants was updated
@@ -1011,6 +2451,59 @@ describe('Town', () => {
       });
     });
   });
+  describe('findMapProblems', () => {
+    it('Finds no problems with a map that a town can be initialized from', () => {
+      expect(Town.findMapProblems(testingMaps.twoConvTwoViewing)).toEqual([]);
+    });
+    it('Reports a missing objects layer', () => {
+      expect(Town.findMapProblems(testingMaps.noObjects)).toEqual([
+        'Unable to find objects layer in map',
+      ]);
+    });
+    it('Reports each duplicate interactable object ID', () => {
+      const problems = Town.findMapProblems(testingMaps.duplicateNames);
+      expect(problems.length).toBe(1);
+      expect(problems[0]).toContain('Name1');
+    });
+    it('Reports each pair of overlapping objects', () => {
+      const problems = Town.findMapProblems(testingMaps.overlapping);
+      expect(problems.length).toBe(1);
+      expect(problems[0]).toContain('Name1 and Name2');
+    });
+    it('Reports transporters without a target', () => {
+      const { walled } = testingMaps;
+      const [worldLayer, objectLayer] = walled.layers as [ITiledMapTileLayer, ITiledMapObjectLayer];
+      const map: ITiledMap = {
+        ...walled,
+        layers: [
+          worldLayer,
+          {
+            ...objectLayer,
+            objects: objectLayer.objects.filter(eachObject => eachObject.id !== 3),
+          },
+        ],
+      };
+      expect(Town.findMapProblems(map)).toEqual([
+        'Unable to find target object for transporter Over the wall',
+      ]);
+      expect(() => town.initializeFromMap(map)).toThrowError();
+    });
+    it('Reports collision layers that can not be read', () => {
+      const { walled } = testingMaps;
+      const [worldLayer, objectLayer] = walled.layers as [ITiledMapTileLayer, ITiledMapObjectLayer];
+      const map: ITiledMap = {
+        ...walled,
+        layers: [
+          { ...worldLayer, data: 'KLUv/Q==', encoding: 'base64', compression: 'zstd' },
+          objectLayer,
+        ],
+      };
+      expect(Town.findMapProblems(map)).toEqual([
+        'Collision layer World uses compression zstd, which is not supported',
+      ]);
+      expect(() => town.initializeFromMap(map)).toThrowError();
+    });
+  });
   describe('Updating town settings', () => {
     it('Emits townSettingsUpdated events when friendlyName changes', async () => {
       const newFriendlyName = nanoid();
@@ -1027,10 +2520,56 @@ describe('Town', () => {
       });
     });
   });
+  describe('sendFriendRequest (method)', () => {
+    it('Emits a friendRequestSent event when called.', () => {
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+      expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestSent', {
+        actor: player.id,
+        affected: player2.id,
+      });
+    });
+    it('Records a pending request with the time it was sent', () => {
+      const before = Date.now();
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+      expect(town.friendRequests).toEqual([
+        { sender: player.id, recipient: player2.id, status: 'pending', sentAt: expect.any(Number) },
+      ]);
+      expect(town.friendRequests[0].sentAt).toBeGreaterThanOrEqual(before);
+    });
+    it('Throws an error if there is already a pending request between the players', () => {
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+      expect(() =>
+        town.sendFriendRequest({ actor: player.id, affected: player2.id }),
+      ).toThrowError();
+      expect(() =>
+        town.sendFriendRequest({ actor: player2.id, affected: player.id }),
+      ).toThrowError();
+    });
+    it('Allows a new request once the previous one has been responded to', () => {
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+      town.declineFriendRequest({ actor: player2.id, affected: player.id });
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+      expect(town.pendingFriendRequestsFor(player.id).length).toBe(1);
+    });
+  });
+  describe('pendingFriendRequestsFor', () => {
+    it('Returns only the pending requests sent to or by the given player', () => {
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+      town.sendFriendRequest({ actor: player3.id, affected: player.id });
+      town.sendFriendRequest({ actor: player2.id, affected: player3.id });
+      town.cancelFriendRequest({ actor: player3.id, affected: player.id });
+      expect(town.pendingFriendRequestsFor(player.id)).toEqual([
+        { sender: player.id, recipient: player2.id, status: 'pending', sentAt: expect.any(Number) },
+      ]);
+    });
+  });
   describe('acceptFriendRequest (method)', () => {
+    beforeEach(() => {
+      town.sendFriendRequest({ actor: player2.id, affected: player.id });
+    });
     it('Emits a friendRequestAccepted event when called.', () => {
       town.acceptFriendRequest(friendRequest);
-      expect(townEmitter.emit).toBeCalledWith('friendRequestAccepted', {
+      expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRequestAccepted', {
         actor: player.id,
         affected: player2.id,
       });
@@ -1043,14 +2582,80 @@ describe('Town', () => {
       town.acceptFriendRequest(friendRequest);
       expect(player2.friends.includes(player)).toBeTruthy();
     });
+    it('Records that the request was accepted, and when', () => {
+      town.acceptFriendRequest(friendRequest);
+      expect(town.friendRequests[0].status).toEqual('accepted');
+      expect(town.friendRequests[0].respondedAt).toBeGreaterThanOrEqual(
+        town.friendRequests[0].sentAt,
+      );
+      expect(town.pendingFriendRequestsFor(player.id)).toEqual([]);
+    });
+    it('Throws an error if there is no matching pending request', () => {
+      town.acceptFriendRequest(friendRequest);
+      mockReset(townEmitter);
+      expect(() => town.acceptFriendRequest(friendRequest)).toThrowError();
+      expect(() =>
+        town.acceptFriendRequest({ actor: player.id, affected: player3.id }),
+      ).toThrowError();
+      expect(townEmitter.emit).not.toBeCalledWith('friendRequestAccepted', expect.anything());
+      expect(player.friends.includes(player3)).toBeFalsy();
+    });
+  });
+  describe('declineFriendRequest (method)', () => {
+    beforeEach(() => {
+      town.sendFriendRequest({ actor: player2.id, affected: player.id });
+    });
+    it('Emits a friendRequestDeclined event and records the response', () => {
+      town.declineFriendRequest(friendRequest);
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2],
+        'friendRequestDeclined',
+        friendRequest,
+      );
+      expect(town.friendRequests[0].status).toEqual('declined');
+      expect(town.friendRequests[0].respondedAt).toBeDefined();
+    });
+    it('Does not make the players friends', () => {
+      town.declineFriendRequest(friendRequest);
+      expect(player.friends.includes(player2)).toBeFalsy();
+      expect(player2.friends.includes(player)).toBeFalsy();
+    });
+    it('Throws an error if the sender tries to decline their own request', () => {
+      expect(() =>
+        town.declineFriendRequest({ actor: player2.id, affected: player.id }),
+      ).toThrowError();
+    });
+  });
+  describe('cancelFriendRequest (method)', () => {
+    beforeEach(() => {
+      town.sendFriendRequest({ actor: player.id, affected: player2.id });
+    });
+    it('Emits a friendRequestCanceled event and records the response', () => {
+      town.cancelFriendRequest(friendRequest);
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2],
+        'friendRequestCanceled',
+        friendRequest,
+      );
+      expect(town.friendRequests[0].status).toEqual('canceled');
+      expect(town.friendRequests[0].respondedAt).toBeDefined();
+    });
+    it('Throws an error if the recipient tries to cancel the request', () => {
+      expect(() =>
+        town.cancelFriendRequest({ actor: player2.id, affected: player.id }),
+      ).toThrowError();
+    });
   });
   describe('removeFriend', () => {
+    beforeEach(() => {
+      town.sendFriendRequest({ actor: player2.id, affected: player.id });
+    });
     it('Emits a friendRemoved event when called.', () => {
       town.acceptFriendRequest(friendRequest);
       expect(player.friends.includes(player2)).toBeTruthy();
       expect(player2.friends.includes(player)).toBeTruthy();
       town.removeFriend(friendRequest);
-      expect(townEmitter.emit).toBeCalledWith('friendRemoved', {
+      expectEmittedOnlyTo([playerTestData, playerTestData2], 'friendRemoved', {
         actor: player.id,
         affected: player2.id,
       });
@@ -1067,6 +2672,39 @@ describe('Town', () => {
       town.removeFriend(friendRequest);
       expect(player2.friends.includes(player)).toBeFalsy();
     });
+    it('Throws an error if the affected player is not in the town', () => {
+      expect(() => town.removeFriend({ actor: player.id, affected: nanoid() })).toThrowError();
+    });
+  });
+  describe('blockPlayer (method)', () => {
+    it('Declines a pending friend request from the blocked player', () => {
+      town.sendFriendRequest({ actor: player2.id, affected: player.id });
+      town.blockPlayer(friendRequest);
+      expect(town.pendingFriendRequestsFor(player.id)).toEqual([]);
+      expect(town.friendRequests[0].status).toEqual('declined');
+    });
+    it('Cancels a pending friend request to the blocked player', () => {
+      town.sendFriendRequest(friendRequest);
+      town.blockPlayer(friendRequest);
+      expect(town.pendingFriendRequestsFor(player.id)).toEqual([]);
+      expect(town.friendRequests[0].status).toEqual('canceled');
+    });
+    it('Throws an error if a player tries to block themselves', () => {
+      expect(() => town.blockPlayer({ actor: player.id, affected: player.id })).toThrowError();
+      expect(player.blockedIDs).toEqual([]);
+    });
+    it('Stops the blocker from sending friend requests to the blocked player', () => {
+      town.blockPlayer(friendRequest);
+      expect(() => town.sendFriendRequest(friendRequest)).toThrowError();
+    });
+  });
+  describe('unblockPlayer (method)', () => {
+    it('Unblocks players who are no longer in the town', () => {
+      town.blockPlayer(friendRequest);
+      getEventListener(playerTestData2.socket, 'disconnect')('client namespace disconnect');
+      town.unblockPlayer(friendRequest);
+      expect(player.blockedIDs).toEqual([]);
+    });
   });
   describe('teleportToFriend', () => {
     it('Moves requested player to the requesters location', () => {
@@ -1083,7 +2721,11 @@ describe('Town', () => {
   describe('inviteToConversationArea', () => {
     it('Emits a conversationAreaRequestSent when called.', () => {
       town.inviteToConversationArea(conversationRequest);
-      expect(townEmitter.emit).toBeCalledWith('conversationAreaRequestSent', conversationRequest);
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2],
+        'conversationAreaRequestSent',
+        conversationRequest,
+      );
     });
     it('Adds the request from the instigator to the invited friends conversation area requests', () => {
       expect(player2.conversationAreaInvites.length).toBe(0);
@@ -1108,7 +2750,11 @@ describe('Town', () => {
     it('Emits a conversationAreaRequestAccepted when called.', () => {
       town.inviteToConversationArea(conversationRequest);
       town.acceptConversationAreaInvite(teleportRequest);
-      expect(townEmitter.emit).toBeCalledWith('conversationAreaRequestAccepted', teleportRequest);
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2],
+        'conversationAreaRequestAccepted',
+        teleportRequest,
+      );
     });
     it('Transports the requested player to the requesters location', () => {
       town.inviteToConversationArea(conversationRequest);
@@ -1140,7 +2786,11 @@ describe('Town', () => {
     it('Emits a conversationAreaRequestDeclined when called.', () => {
       town.inviteToConversationArea(conversationRequest);
       town.declineConversationAreaInvite(teleportRequest);
-      expect(townEmitter.emit).toBeCalledWith('conversationAreaRequestDeclined', teleportRequest);
+      expectEmittedOnlyTo(
+        [playerTestData, playerTestData2],
+        'conversationAreaRequestDeclined',
+        teleportRequest,
+      );
     });
     it('Does not transport the requested player to the requesters location', () => {
       town.inviteToConversationArea(conversationRequest);
@@ -1161,4 +2811,157 @@ describe('Town', () => {
       expect(player2.conversationAreaInvites.length).toEqual(0);
     });
   });
+  describe('kickPlayer', () => {
+    it('Tells only the kicked player why, and then disconnects them', () => {
+      town.kickPlayer(player.id, 'Spamming');
+      expectEmittedOnlyTo([playerTestData], 'playerKicked', { reason: 'Spamming' });
+      expect(playerTestData.socket.disconnect).toBeCalledWith(true);
+    });
+    it('Removes the player right away, without waiting for them to reconnect', () => {
+      town.kickPlayer(player.id);
+      expect(town.players).not.toContain(player);
+      expect(townEmitter.emit).toBeCalledWith('playerDisconnect', player.toPlayerModel());
+      getEventListener(playerTestData.socket, 'disconnect')('server namespace disconnect');
+      expect(town.isReconnecting(player)).toBe(false);
+    });
+    it('Removes a player whose connection already dropped', () => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      try {
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+        town.kickPlayer(player.id);
+        expect(town.players).not.toContain(player);
+        expect(town.isReconnecting(player)).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+    it('Throws an error if the player is not in the town', () => {
+      expect(() => town.kickPlayer(nanoid())).toThrowError();
+    });
+  });
+  describe('mutePlayer', () => {
+    const chatMessage = (): ChatMessageDraft => ({ body: nanoid() });
+    it('Tells only the muted player until when they are muted', () => {
+      const before = Date.now();
+      town.mutePlayer(player.id, 60, 'Cool off');
+      const notice = getLastEmittedEvent(playerTestData.socket, 'playerMuted');
+      expect(notice.reason).toEqual('Cool off');
+      expect(notice.mutedUntil).toBeGreaterThanOrEqual(before + 60 * 1000);
+      expectEmittedOnlyTo([playerTestData], 'playerMuted', notice);
+      expect(town.isMuted(player.id)).toBe(true);
+      expect(town.isMuted(player2.id)).toBe(false);
+    });
+    it("Refuses the muted player's chat and mini messages", () => {
+      makeFriends(player2, player);
+      town.mutePlayer(player.id, 60);
+      mockReset(townEmitter);
+
+      getEventListener(playerTestData.socket, 'chatMessage')(chatMessage());
+      expect(getLastEmittedEvent(playerTestData.socket, 'socialEventRejected').event).toEqual(
+        'chatMessage',
+      );
+      getEventListener(
+        playerTestData.socket,
+        'sendMiniMessage',
+      )({
+        sender: player.id,
+        recipients: [player2.id],
+        body: nanoid(),
+      });
+      expect(getLastEmittedEvent(playerTestData.socket, 'socialEventRejected').event).toEqual(
+        'sendMiniMessage',
+      );
+      expect(townEmitter.emit).not.toBeCalledWith('chatMessage', expect.anything());
+      expect(playerTestData2.socket.emit).not.toBeCalledWith('miniMessageSent', expect.anything());
+    });
+    it('Accepts chat messages again once the mute ends', () => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      try {
+        town.mutePlayer(player.id, 60);
+        jest.advanceTimersByTime(60 * 1000 + 1);
+        expect(town.isMuted(player.id)).toBe(false);
+        const message = chatMessage();
+        getEventListener(playerTestData.socket, 'chatMessage')(message);
+        expect(getLastEmittedEvent(townEmitter, 'chatMessage').body).toEqual(message.body);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+    it('Throws an error if the duration is not positive, or the player is not in the town', () => {
+      expect(() => town.mutePlayer(player.id, 0)).toThrowError();
+      expect(() => town.mutePlayer(player.id, -5)).toThrowError();
+      expect(() => town.mutePlayer(nanoid(), 60)).toThrowError();
+      expect(town.isMuted(player.id)).toBe(false);
+    });
+  });
+  describe('banPlayer', () => {
+    it('Bans a user name regardless of case', () => {
+      town.banPlayer('Troll');
+      expect(town.isBanned('troll')).toBe(true);
+      expect(town.isBanned('TROLL', nanoid())).toBe(true);
+      expect(town.isBanned('someoneElse')).toBe(false);
+    });
+    it('Bans a user ID', () => {
+      const userID = nanoid();
+      town.banPlayer(undefined, userID);
+      expect(town.isBanned(nanoid(), userID)).toBe(true);
+      expect(town.isBanned(nanoid(), nanoid())).toBe(false);
+    });
+    it('Tells banned players in the town why, and then removes them', () => {
+      town.banPlayer(undefined, player2.id, 'Harassment');
+      expectEmittedOnlyTo([playerTestData2], 'playerBanned', { reason: 'Harassment' });
+      expect(playerTestData2.socket.disconnect).toBeCalledWith(true);
+      expect(town.players).not.toContain(player2);
+      expect(town.players).toContain(player);
+    });
+    it('Throws an error if neither a user name nor a user ID is given', () => {
+      expect(() => town.banPlayer()).toThrowError();
+      expect(() => town.banPlayer('', '')).toThrowError();
+    });
+  });
+  describe('announce', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('Broadcasts an announcement right away if it has no start time', () => {
+      const announcement = town.announce('  Welcome to the event!  ');
+      expect(announcement.message).toEqual('Welcome to the event!');
+      expect(announcement.startsAt).toBeLessThanOrEqual(Date.now());
+      expect(getLastEmittedEvent(townEmitter, 'announcement')).toEqual(announcement);
+      expect(town.announcements).toEqual([announcement]);
+    });
+    it('Broadcasts a scheduled announcement only once it starts', () => {
+      const announcement = town.announce('Talks begin soon', Date.now() + 60 * 1000);
+      expect(townEmitter.emit).not.toBeCalledWith('announcement', expect.anything());
+      expect(town.announcements).toEqual([]);
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect(getLastEmittedEvent(townEmitter, 'announcement')).toEqual(announcement);
+      expect(town.announcements).toEqual([announcement]);
+    });
+    it('Stops listing an announcement once it expires', () => {
+      const announcement = town.announce('Lunch is served', undefined, Date.now() + 60 * 1000);
+      const permanentAnnouncement = town.announce('Be kind');
+      jest.advanceTimersByTime(60 * 1000);
+      expect(town.announcements).toEqual([permanentAnnouncement]);
+      expect(announcement.expiresAt).toBeLessThanOrEqual(Date.now());
+    });
+    it('Never broadcasts a scheduled announcement if the town closes first', () => {
+      town.announce('Talks begin soon', Date.now() + 60 * 1000);
+      town.disconnectAllPlayers();
+      jest.advanceTimersByTime(60 * 1000);
+      expect(townEmitter.emit).not.toBeCalledWith('announcement', expect.anything());
+    });
+    it('Throws an error if the message is empty, or the announcement expires before it starts', () => {
+      const now = Date.now();
+      expect(() => town.announce('   ')).toThrowError();
+      expect(() => town.announce('Too late', undefined, now - 1)).toThrowError();
+      expect(() => town.announce('Backwards', now + 2000, now + 1000)).toThrowError();
+      expect(townEmitter.emit).not.toBeCalledWith('announcement', expect.anything());
+      expect(town.announcements).toEqual([]);
+    });
+  });
 });
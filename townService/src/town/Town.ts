@@ -1,29 +1,189 @@
 import { ITiledMap, ITiledMapObjectLayer } from '@jonbell/tiled-map-type-guard';
 import { nanoid } from 'nanoid';
 import { BroadcastOperator } from 'socket.io';
+import { SocketReservedEventsMap } from 'socket.io/dist/socket';
+import { EventNames, EventParams, ReservedOrUserListener } from 'socket.io/dist/typed-events';
+import ChatHistory from '../lib/ChatHistory';
+import { clientEventSchemas } from '../lib/ClientEventSchemas';
+import FileMiniMessageStore from '../lib/FileMiniMessageStore';
+import FileUserAccountStore from '../lib/FileUserAccountStore';
+import IMiniMessageStore from '../lib/IMiniMessageStore';
+import IUserAccountStore from '../lib/IUserAccountStore';
+import InvalidParametersError from '../lib/InvalidParametersError';
+import InvalidPayloadError from '../lib/InvalidPayloadError';
 import IVideoClient from '../lib/IVideoClient';
+import { DEFAULT_MAP_ID } from '../lib/MapCatalog';
 import Player from '../lib/Player';
+import RateLimiter from '../lib/RateLimiter';
+import SpatialIndex from '../lib/SpatialIndex';
+import TokenBucket, { RateLimit } from '../lib/TokenBucket';
 import TwilioVideo from '../lib/TwilioVideo';
+import WordFilter from '../lib/WordFilter';
 import { isViewingArea } from '../TestUtils';
 import {
+  Announcement,
+  BoundingBox,
+  ChatChannel,
   ChatMessage,
+  ChatMessageDraft,
+  ClientToServerEvents,
   ConversationArea as ConversationAreaModel,
   CoveyTownSocket,
   Interactable,
+  Player as PlayerModel,
   PlayerLocation,
   ServerToClientEvents,
   SocketData,
   ViewingArea as ViewingAreaModel,
   ConversationAreaGroupInvite,
+  FriendRequest,
+  FriendRequestStatus,
   TeleportInviteSingular,
   PlayerToPlayerUpdate,
   MiniMessage,
+  MiniMessageDraft,
+  MiniMessageInbox,
+  MiniMessageReceiptStatus,
+  TypingNotice,
+  SocketAck,
+  ViewportSize,
 } from '../types/CoveyTownSocket';
+import CollisionMap from './CollisionMap';
 import ConversationArea from './ConversationArea';
 import InteractableArea from './InteractableArea';
+import MovementSubscription from './MovementSubscription';
 import ViewingArea from './ViewingArea';
 import { logError } from '../Utils';
 
+/**
+ * How long a player whose connection dropped stays in the town, waiting for their client to
+ * reconnect and resume their session
+ */
+export const RECONNECT_GRACE_PERIOD_MS = 30 * 1000;
+
+/**
+ * The maximum number of players allowed in a town at once, unless the town is created with another capacity
+ */
+export const DEFAULT_TOWN_CAPACITY = 50;
+
+/**
+ * The maximum number of characters in a chat message, after trimming surrounding whitespace
+ */
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+/**
+ * The maximum number of characters in a mini message, after trimming surrounding whitespace
+ */
+export const MAX_MINI_MESSAGE_LENGTH = 140;
+
+/**
+ * How fast players walk, in pixels per second. This must match the speed in the frontend's TownGameScene.
+ */
+export const PLAYER_SPEED = 175;
+
+/**
+ * How far each player may move, in pixels: up to two seconds' walk at once, since movements that the
+ * network held up may arrive together, and then a little faster than walking speed, since the clocks
+ * of the client and the townService may not run at quite the same rate
+ */
+export const movementAllowance: RateLimit = {
+  burst: PLAYER_SPEED * 2,
+  perSecond: PLAYER_SPEED * 1.1,
+};
+
+/**
+ * How often each client is sent the movements of the players outside of its area of interest
+ * (@see MovementSubscription)
+ */
+export const DISTANT_MOVEMENT_INTERVAL_MS = 1000;
+
+/**
+ * Players collide with the map through a body at their feet rather than through their whole sprite
+ * (@see the frontend's TownGameScene). This is how far below a player's location, which is the centre of
+ * their sprite, the middle of that body is at least.
+ */
+const PLAYER_BODY_OFFSET_Y = 12;
+
+/**
+ * A transporter on a town's map: when a player steps onto it, their client moves them straight to the
+ * location of its target object (@see the frontend's Transporter)
+ */
+type Transporter = {
+  name: string;
+  boundingBox: BoundingBox;
+  target?: { x: number; y: number };
+};
+
+/**
+ * A player's latest movement that is waiting to be sent to the clients who did not hear about it
+ * right away, along with the IDs of the players whose clients did
+ */
+type DistantMovement = {
+  movedPlayer: PlayerModel;
+  sentToIDs: Set<string>;
+};
+
+/**
+ * Finds every problem that prevents a set of interactable areas from being placed in the same town:
+ * each area must have a unique ID, and no two areas may overlap (@see InteractableArea.overlaps)
+ *
+ * @returns a description of each problem, or an empty list if there are none
+ */
+function findInteractableProblems(areas: { id: string; boundingBox: BoundingBox }[]): string[] {
+  const problems: string[] = [];
+  const interactableIDs = areas.map(eachArea => eachArea.id);
+  new Set(interactableIDs.filter((id, index) => interactableIDs.indexOf(id) !== index)).forEach(
+    duplicateID =>
+      problems.push(
+        `Expected all interactable IDs to be unique, but found duplicate interactable ID ${duplicateID}`,
+      ),
+  );
+  areas.forEach((area, index) =>
+    areas
+      .slice(index + 1)
+      .filter(otherArea =>
+        InteractableArea.boundingBoxesOverlap(area.boundingBox, otherArea.boundingBox),
+      )
+      .forEach(otherArea =>
+        problems.push(
+          `Expected interactables not to overlap, but found overlap between ${area.id} and ${otherArea.id}`,
+        ),
+      ),
+  );
+  return problems;
+}
+
+/**
+ * Finds the transporters on a map, and the target of each of them
+ *
+ * @param objectLayer the map's objects layer
+ * @returns each transporter, without a target if the map has no object with the ID that it names
+ */
+function findTransporters(objectLayer: ITiledMapObjectLayer): Transporter[] {
+  return objectLayer.objects
+    .filter(eachObject => eachObject.type === 'Transporter')
+    .map(({ name, x, y, width, height, properties }) => {
+      const targetID = properties?.find(eachProperty => eachProperty.name === 'target')?.value;
+      const target = objectLayer.objects.find(eachObject => eachObject.id === targetID);
+      return {
+        name,
+        boundingBox: { x, y, width: width ?? 0, height: height ?? 0 },
+        target: target && { x: target.x, y: target.y },
+      };
+    });
+}
+
+/**
+ * Finds every problem with the transporters on a map: each must have a target
+ *
+ * @returns a description of each problem, or an empty list if there are none
+ */
+function findTransporterProblems(transporters: Transporter[]): string[] {
+  return transporters
+    .filter(eachTransporter => !eachTransporter.target)
+    .map(eachTransporter => `Unable to find target object for transporter ${eachTransporter.name}`);
+}
+
 /**
  * The Town class implements the logic for each town: managing the various events that
  * can occur (e.g. joining a town, moving, leaving a town).
@@ -33,6 +193,19 @@ export default class Town {
     return this._capacity;
   }
 
+  set capacity(value: number) {
+    this._capacity = value;
+    this._broadcastEmitter.emit('townSettingsUpdated', { capacity: value });
+  }
+
+  /**
+   * True if the town has no room for another player. Lowering the capacity of a town never removes
+   * players who are already in it, so a town may have more players than its capacity.
+   */
+  get isFull(): boolean {
+    return this.occupancy >= this._capacity;
+  }
+
   set isPubliclyListed(value: boolean) {
     this._isPubliclyListed = value;
     this._broadcastEmitter.emit('townSettingsUpdated', { isPubliclyListed: value });
@@ -71,12 +244,34 @@ export default class Town {
     return this._interactables;
   }
 
+  get mapID(): string {
+    return this._mapID;
+  }
+
+  /**
+   * The announcements from the town's owner that have started and have not yet expired
+   */
+  get announcements(): Announcement[] {
+    const now = Date.now();
+    return this._announcements.filter(
+      announcement =>
+        announcement.startsAt <= now &&
+        (announcement.expiresAt === undefined || announcement.expiresAt > now),
+    );
+  }
+
   /** The list of players currently in the town * */
   private _players: Player[] = [];
 
   /** The videoClient that this CoveyTown will use to provision video resources * */
   private _videoClient: IVideoClient = TwilioVideo.getInstance();
 
+  /** The store that persists each player's identity and friendships beyond this town * */
+  private _accountStore: IUserAccountStore = FileUserAccountStore.getInstance();
+
+  /** The store that persists the mini messages that players send each other, beyond this town * */
+  private _miniMessageStore: IMiniMessageStore = FileMiniMessageStore.getInstance();
+
   private _interactables: InteractableArea[] = [];
 
   private readonly _townID: string;
@@ -89,19 +284,95 @@ export default class Town {
 
   private _capacity: number;
 
+  /** The ID of the map that this town was created from, @see MapCatalog */
+  private readonly _mapID: string;
+
   private _broadcastEmitter: BroadcastOperator<ServerToClientEvents, SocketData>;
 
-  private _connectedSockets: Set<CoveyTownSocket> = new Set();
+  /** The socket that each player in the town is connected on, by player ID */
+  private _connectedSockets: Map<string, CoveyTownSocket> = new Map();
+
+  /**
+   * Players whose connection dropped, by player ID, along with the timer that removes them from
+   * the town if they do not resume their session in time, and the private events they missed
+   */
+  private _reconnectingPlayers: Map<
+    string,
+    { expiry: NodeJS.Timeout; missedEvents: ((socket: CoveyTownSocket) => void)[] }
+  > = new Map();
+
+  /** Every friend request that has been sent in this town, and the response to it, if any */
+  private _friendRequests: FriendRequest[] = [];
+
+  private _wordFilter: WordFilter = WordFilter.getInstance();
+
+  /** The recent chat messages in this town */
+  private _chatHistory: ChatHistory = new ChatHistory();
+
+  /** When each muted player's mute ends, in milliseconds since the epoch, by player ID */
+  private _mutedUntil: Map<string, number> = new Map();
+
+  /** The user names (in lower case) that the town's owner has banned from joining the town */
+  private _bannedUserNames: Set<string> = new Set();
+
+  /** The user IDs that the town's owner has banned from joining the town */
+  private _bannedUserIDs: Set<string> = new Set();
+
+  /** The town owner's announcements that have not yet expired, including those that have not started */
+  private _announcements: Announcement[] = [];
+
+  /** The timer that broadcasts each announcement that has not started yet, by announcement ID */
+  private _scheduledAnnouncements: Map<string, NodeJS.Timeout> = new Map();
+
+  /** Which tiles of the town's map block players, once the town is initialized from its map */
+  private _collisionMap?: CollisionMap;
+
+  /** Where players start in the town, if its map has a spawn point */
+  private _spawnPoint?: { x: number; y: number };
+
+  /** The transporters on the town's map, which players may use to skip from one place to another */
+  private _transporters: Transporter[] = [];
+
+  /**
+   * How much further each player may move right now, by player ID (@see movementAllowance). A player
+   * has none until the town knows where they are: either they joined at the spawn point, or, on maps
+   * without one, their client reported their first location.
+   */
+  private _movementAllowances: Map<string, TokenBucket> = new Map();
+
+  /**
+   * The rate limits of each player's client, by player ID, which carry over to the new socket of a
+   * client that resumes its session so that reconnecting does not reset them
+   */
+  private _rateLimiters: Map<string, RateLimiter> = new Map();
+
+  /** Where each player is, to find the players near a movement */
+  private _playerIndex: SpatialIndex = new SpatialIndex();
+
+  /** Which movements the client of each connected player hears about right away, by player ID */
+  private _movementSubscriptions: Map<string, MovementSubscription> = new Map();
+
+  /**
+   * The latest movement of each player who moved since the distant movements were last sent, by
+   * player ID, and the timer that sends them (@see DISTANT_MOVEMENT_INTERVAL_MS)
+   */
+  private _distantMovements: Map<string, DistantMovement> = new Map();
+
+  private _distantMovementsTimer?: NodeJS.Timeout;
 
   constructor(
     friendlyName: string,
     isPubliclyListed: boolean,
     townID: string,
     broadcastEmitter: BroadcastOperator<ServerToClientEvents, SocketData>,
+    capacity = DEFAULT_TOWN_CAPACITY,
+    mapID = DEFAULT_MAP_ID,
+    townUpdatePassword = nanoid(24),
   ) {
     this._townID = townID;
-    this._capacity = 50;
-    this._townUpdatePassword = nanoid(24);
+    this._capacity = capacity;
+    this._mapID = mapID;
+    this._townUpdatePassword = townUpdatePassword;
     this._isPubliclyListed = isPubliclyListed;
     this._friendlyName = friendlyName;
     this._broadcastEmitter = broadcastEmitter;
@@ -111,13 +382,35 @@ export default class Town {
    * Adds a player to this Covey Town, provisioning the necessary credentials for the
    * player, and returning them.
    *
-   * @param newPlayer The new player to add to the town
+   * If the player has a persistent account, they keep its user ID as their player ID, their
+   * friendships with any of their friends who are already in the town are restored, and so is the
+   * list of players that they have blocked.
+   *
+   * @param userName The name of the new player
+   * @param socket The socket that the new player is connected on
+   * @param userID The stable ID of the new player's account, if they have one
    */
-  async addPlayer(userName: string, socket: CoveyTownSocket): Promise<Player> {
-    const newPlayer = new Player(userName, socket.to(this._townID));
+  async addPlayer(userName: string, socket: CoveyTownSocket, userID?: string): Promise<Player> {
+    const newPlayer = new Player(userName, socket.to(this._townID), userID);
+    if (this._spawnPoint) {
+      newPlayer.location = { ...newPlayer.location, ...this._spawnPoint };
+      this._movementAllowances.set(newPlayer.id, new TokenBucket(movementAllowance));
+    }
+    if (userID) {
+      const account = this._accountStore.getAccountByID(userID);
+      const friendIDs = account?.friendIDs || [];
+      account?.blockedIDs.forEach(blockedID => newPlayer.block(blockedID));
+      this._players
+        .filter(eachPlayer => friendIDs.includes(eachPlayer.id))
+        .forEach(eachFriend => {
+          newPlayer.addFriend(eachFriend);
+          eachFriend.addFriend(newPlayer);
+        });
+    }
     this._players.push(newPlayer);
+    this._playerIndex.update(newPlayer.id, newPlayer.location.x, newPlayer.location.y);
 
-    this._connectedSockets.add(socket);
+    this._connectedSockets.set(newPlayer.id, socket);
 
     // Create a video token for this user to join this town
     newPlayer.videoToken = await this._videoClient.getTokenForTown(this._townID, newPlayer.id);
@@ -125,23 +418,131 @@ export default class Town {
     // Notify other players that this player has joined
     this._broadcastEmitter.emit('playerJoined', newPlayer.toPlayerModel());
 
-    // Register an event listener for the client socket: if the client disconnects,
-    // clean up our listener adapter, and then let the CoveyTownController know that the
-    // player's session is disconnected
-    socket.on('disconnect', () => {
-      this._removePlayer(newPlayer);
-      this._connectedSockets.delete(socket);
+    // Other players forget friend requests involving a player when they leave, so remind them of
+    // any requests that were still pending when this player was last in the town
+    this.pendingFriendRequestsFor(newPlayer.id).forEach(pendingRequest =>
+      this._emitToPlayers(
+        [pendingRequest.sender === newPlayer.id ? pendingRequest.recipient : pendingRequest.sender],
+        'friendRequestSent',
+        { actor: pendingRequest.sender, affected: pendingRequest.recipient },
+      ),
+    );
+
+    this._registerSocketListeners(newPlayer, socket);
+
+    this._deliverPendingMiniMessages(newPlayer.id);
+
+    return newPlayer;
+  }
+
+  /**
+   * Reattaches a player whose connection dropped to the new socket that their client reconnected
+   * on, and then replays any private events that they missed while they were disconnected. If the
+   * player's previous socket has not noticed that it is gone yet, it is disconnected.
+   *
+   * @param player the player who is resuming their session
+   * @param socket the socket that the player's client reconnected on
+   * @throws InvalidParametersError if the player is not in this town
+   */
+  public resumePlayer(player: Player, socket: CoveyTownSocket): void {
+    if (!this._players.includes(player)) {
+      throw new InvalidParametersError(`Player ${player.id} is not in this town`);
+    }
+    const reconnectingPlayer = this._reconnectingPlayers.get(player.id);
+    if (reconnectingPlayer) {
+      clearTimeout(reconnectingPlayer.expiry);
+      this._reconnectingPlayers.delete(player.id);
+    }
+    const previousSocket = this._connectedSockets.get(player.id);
+    this._connectedSockets.set(player.id, socket);
+    previousSocket?.disconnect(true);
+
+    player.townEmitter = socket.to(this._townID);
+    this._registerSocketListeners(player, socket);
+
+    reconnectingPlayer?.missedEvents.forEach(replayEvent => replayEvent(socket));
+    this._deliverPendingMiniMessages(player.id);
+  }
+
+  /**
+   * Returns true if the given player's connection dropped, and the town is still waiting for them to
+   * resume their session
+   *
+   * @param player the player to check
+   */
+  public isReconnecting(player: Player): boolean {
+    return this._reconnectingPlayers.has(player.id);
+  }
+
+  /**
+   * Registers the listeners for all of the events that a player's client may send on their socket.
+   *
+   * @param player the player who is connected on the socket
+   * @param socket the socket to listen to
+   */
+  private _registerSocketListeners(player: Player, socket: CoveyTownSocket): void {
+    // Every event that the client sends, other than disconnecting, counts towards its rate limits and
+    // must have a payload that matches its schema
+    const rateLimiter = this._rateLimiters.get(player.id) ?? new RateLimiter();
+    this._rateLimiters.set(player.id, rateLimiter);
+    const onClientEvent = <Ev extends EventNames<ClientToServerEvents>>(
+      event: Ev,
+      listener: ClientToServerEvents[Ev],
+    ) => this._onClientEvent(player, socket, rateLimiter, event, listener);
+    const movementSubscription = new MovementSubscription(player, socket);
+    this._movementSubscriptions.set(player.id, movementSubscription);
+
+    // Register an event listener for the client socket: if the client's connection drops, give it
+    // a chance to resume its session before removing the player from the town, but remove a player
+    // who leaves deliberately right away. A socket that has already been replaced by a newer one
+    // (@see resumePlayer) is ignored.
+    socket.on('disconnect', reason => {
+      if (this._connectedSockets.get(player.id) !== socket) {
+        return;
+      }
+      this._connectedSockets.delete(player.id);
+      this._movementSubscriptions.delete(player.id);
+      if (reason === 'client namespace disconnect') {
+        this._removePlayer(player);
+      } else {
+        this._startReconnectGracePeriod(player);
+      }
     });
 
-    // Set up a listener to forward all chat messages to all clients in the town
-    socket.on('chatMessage', (message: ChatMessage) => {
-      this._broadcastEmitter.emit('chatMessage', message);
+    // Set up a listener to forward chat messages to the members of their channel, and remember them
+    // for players who join later. Conversation area channels only last while their occupants are
+    // together, so their messages are not remembered.
+    onClientEvent('chatMessage', (draft: ChatMessageDraft, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'chatMessage', ack, () => {
+        this._checkIsNotMuted(player);
+        const message = this._createChatMessage(player, draft);
+        if (message.channel.type !== 'conversationArea') {
+          this._chatHistory.addMessage(message);
+        }
+        const memberIDs = this._chatChannelMemberIDs(message.channel);
+        if (memberIDs) {
+          this._emitToPlayers(memberIDs, 'chatMessage', message);
+        } else {
+          this._broadcastEmitter.emit('chatMessage', message);
+        }
+      });
     });
 
     // Register an event listener for the client socket: if the client updates their
-    // location, inform the CoveyTownController
-    socket.on('playerMovement', (movementData: PlayerLocation) => {
-      this._updatePlayerLocation(newPlayer, movementData);
+    // location, inform the CoveyTownController, unless the player could not have walked there, in
+    // which case their client is told where they still are
+    onClientEvent('playerMovement', (movementData: PlayerLocation) => {
+      if (this._isMovementPossible(player, movementData)) {
+        this._updatePlayerLocation(player, movementData);
+      } else {
+        socket.emit('movementRejected', player.location);
+      }
+    });
+
+    // Register an event listener for the client socket: the size of the client's viewport decides
+    // which movements it hears about right away
+    onClientEvent('viewportChanged', (viewportSize: ViewportSize) => {
+      movementSubscription.viewportSize = viewportSize;
     });
 
     // Set up a listener to process updates to interactables.
@@ -150,9 +551,9 @@ export default class Town {
     // For ViewingArea's: dispatches an updateModel call to the viewingArea that
     // corresponds to the interactable being updated. Does not throw an error if
     // the specified viewing area does not exist.
-    socket.on('interactableUpdate', (update: Interactable) => {
+    onClientEvent('interactableUpdate', (update: Interactable) => {
       if (isViewingArea(update)) {
-        newPlayer.townEmitter.emit('interactableUpdate', update);
+        player.townEmitter.emit('interactableUpdate', update);
         const viewingArea = this._interactables.find(
           eachInteractable => eachInteractable.id === update.id,
         );
@@ -165,67 +566,285 @@ export default class Town {
     // Set up a listener to process accepted friend requests.
     // Makes the necessary backend changes & then emits an event to let the TownController know
     // the changes have been made.
-    socket.on('acceptFriendRequest', (friendRequest: PlayerToPlayerUpdate) => {
-      this.acceptFriendRequest(friendRequest);
+    onClientEvent('acceptFriendRequest', (friendRequest: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'acceptFriendRequest', ack, () => {
+        Town._checkIsPlayer(player, friendRequest.actor);
+        this.acceptFriendRequest(friendRequest);
+      });
     });
 
     // Set up a listener to process declined friend request.
-    // Emit a friendRequestDeclined event back to the TownController with the same data, so
-    // both the decliner and the affected are aware of it
-    socket.on('declineFriendRequest', (friendRequest: PlayerToPlayerUpdate) => {
-      this._broadcastEmitter.emit('friendRequestDeclined', friendRequest);
-    });
+    // Records the response & then emits an event to let the TownController know
+    // the changes have been made.
+    onClientEvent(
+      'declineFriendRequest',
+      (friendRequest: PlayerToPlayerUpdate, ack?: SocketAck) => {
+        Town._handleSocialEvent(socket, 'declineFriendRequest', ack, () => {
+          Town._checkIsPlayer(player, friendRequest.actor);
+          this.declineFriendRequest(friendRequest);
+        });
+      },
+    );
 
-    // Set up a listener to process declined friend request.
-    // Emit a friendRequestSent event back to the TownController with the same data, so
-    // both the sender of the request and its recipient are aware of it.
-    socket.on('sendFriendRequest', (friendRequest: PlayerToPlayerUpdate) => {
-      // emits a friend request event which IS sending the friendrequest
-      this._broadcastEmitter.emit('friendRequestSent', friendRequest);
+    // Set up a listener to process sent friend requests.
+    // Records the new request & then emits an event to let the TownController know
+    // the changes have been made.
+    onClientEvent('sendFriendRequest', (friendRequest: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'sendFriendRequest', ack, () => {
+        Town._checkIsPlayer(player, friendRequest.actor);
+        this.sendFriendRequest(friendRequest);
+      });
     });
 
-    // Set up a listener to process declined friend request.
-    // Emit a friendRequestCanceled event back to the TownController with the same data, so
-    // both the player who canceled and the affected are aware of it
-    socket.on('cancelFriendRequest', (friendRequest: PlayerToPlayerUpdate) => {
-      // emits a friend request event which will remove the request
-      this._broadcastEmitter.emit('friendRequestCanceled', friendRequest);
+    // Set up a listener to process canceled friend request.
+    // Records the cancellation & then emits an event to let the TownController know
+    // the changes have been made.
+    onClientEvent('cancelFriendRequest', (friendRequest: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'cancelFriendRequest', ack, () => {
+        Town._checkIsPlayer(player, friendRequest.actor);
+        this.cancelFriendRequest(friendRequest);
+      });
     });
 
     // Set up a listener to process the remove friend request.
     // Makes the necessary backend changes & then emits an event to let the TownController
     // know the changes have been made.
-    socket.on('removeFriend', (removeFriend: PlayerToPlayerUpdate) => {
-      this.removeFriend(removeFriend);
+    onClientEvent('removeFriend', (removeFriend: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'removeFriend', ack, () => {
+        Town._checkIsPlayer(player, removeFriend.actor);
+        Town._checkIsFriend(player, removeFriend.affected);
+        this.removeFriend(removeFriend);
+      });
+    });
+
+    // Set up listeners to process block and unblock requests.
+    // Only the blocker is told about the change, so that the blocked player does not find out.
+    onClientEvent('blockPlayer', (block: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'blockPlayer', ack, () => {
+        Town._checkIsPlayer(player, block.actor);
+        this.blockPlayer(block);
+      });
+    });
+    onClientEvent('unblockPlayer', (block: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'unblockPlayer', ack, () => {
+        Town._checkIsPlayer(player, block.actor);
+        this.unblockPlayer(block);
+      });
     });
 
     // Set up a listener to process the conversation area teleport request.
+    // Players may only invite their friends, and always invite them to their own current location.
+    // Invites to players who have blocked the requester are dropped without telling the requester.
     // Makes the necessary backend changes & then emits an event to let the TownController
     // know the changes have been made.
-    socket.on('inviteAllToConvArea', (invite: ConversationAreaGroupInvite) => {
-      this.inviteToConversationArea(invite);
+    onClientEvent('inviteAllToConvArea', (invite: ConversationAreaGroupInvite, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'inviteAllToConvArea', ack, () => {
+        Town._checkIsPlayer(player, invite.requester);
+        const requested = invite.requested.filter(
+          friendID => !this._hasBlocked(friendID, player.id),
+        );
+        if (requested.length === 0 && invite.requested.length > 0) {
+          return;
+        }
+        requested.forEach(friendID => Town._checkIsFriend(player, friendID));
+        this.inviteToConversationArea({
+          ...invite,
+          requested,
+          requesterLocation: player.location,
+        });
+      });
+    });
+
+    // Set up a listener to teleport players to their friends. Only a player's friends are
+    // teleported to, and only to where the townService has them.
+    onClientEvent('teleportToFriend', (teleport: PlayerToPlayerUpdate, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'teleportToFriend', ack, () => {
+        Town._checkIsPlayer(player, teleport.actor);
+        Town._checkIsFriend(player, teleport.affected);
+        this.teleportToFriend({
+          requester: teleport.affected,
+          requested: player.id,
+          requesterLocation: { ...this._getPlayerByID(teleport.affected).location },
+        });
+      });
     });
 
     // Set up a listener to process accepted conv area invites.
+    // Only the invited player may accept an invite, and only one that they actually received.
     // Makes the necessary backend changes & then emits an event to let the TownController know
     // the changes have been made.
-    socket.on('acceptConvAreaInvite', (convAreaInvite: TeleportInviteSingular) => {
-      this.acceptConversationAreaInvite(convAreaInvite);
-    });
+    onClientEvent(
+      'acceptConvAreaInvite',
+      (convAreaInvite: TeleportInviteSingular, ack?: SocketAck) => {
+        Town._handleSocialEvent(socket, 'acceptConvAreaInvite', ack, () => {
+          Town._checkIsPlayer(player, convAreaInvite.requested);
+          this.acceptConversationAreaInvite(
+            Town._getReceivedConversationAreaInvite(player, convAreaInvite),
+          );
+        });
+      },
+    );
 
     // Set up a listener to process declined conv area invites.
+    // Only the invited player may decline an invite, and only one that they actually received.
     // Makes the necessary backend changes & then emits an event to let the TownController know
     // the changes have been made.
-    socket.on('declineConvAreaInvite', (convAreaInvite: TeleportInviteSingular) => {
-      this.declineConversationAreaInvite(convAreaInvite);
+    onClientEvent(
+      'declineConvAreaInvite',
+      (convAreaInvite: TeleportInviteSingular, ack?: SocketAck) => {
+        Town._handleSocialEvent(socket, 'declineConvAreaInvite', ack, () => {
+          Town._checkIsPlayer(player, convAreaInvite.requested);
+          this.declineConversationAreaInvite(
+            Town._getReceivedConversationAreaInvite(player, convAreaInvite),
+          );
+        });
+      },
+    );
+
+    // Set up a listener to store mini messages and forward them to their sender and recipients only.
+    // Players may only send mini messages to their friends. The message is delivered right away to
+    // recipients who are connected, and stays pending for those who are reconnecting. Recipients who
+    // have blocked the sender are dropped without telling the sender.
+    onClientEvent('sendMiniMessage', (draft: MiniMessageDraft, ack?: SocketAck) => {
+      Town._handleSocialEvent(socket, 'sendMiniMessage', ack, () => {
+        Town._checkIsPlayer(player, draft.sender);
+        this._checkIsNotMuted(player);
+        const recipients = draft.recipients.filter(
+          recipientID => !this._hasBlocked(recipientID, player.id),
+        );
+        if (recipients.length === 0 && draft.recipients.length > 0) {
+          return;
+        }
+        const miniMessage = this._createMiniMessage(player, { ...draft, recipients });
+        miniMessage.recipients.forEach(recipientID => {
+          miniMessage.receipts[recipientID] = this._connectedSockets.has(recipientID)
+            ? 'delivered'
+            : 'pending';
+        });
+        this._miniMessageStore.addMessage(miniMessage);
+        this._emitToPlayers(
+          [miniMessage.sender, ...miniMessage.recipients],
+          'miniMessageSent',
+          miniMessage,
+        );
+      });
     });
 
-    // Set up a listener to forward all mini messages to all clients in the town.
-    socket.on('sendMiniMessage', (miniMessage: MiniMessage) => {
-      this._broadcastEmitter.emit('miniMessageSent', miniMessage);
+    // Set up listeners to forward typing indicators to the friends that a player is typing to only.
+    // Typing indicators only matter while they are fresh, so they are not replayed to players who are
+    // reconnecting.
+    onClientEvent('typingStarted', (notice: TypingNotice) => {
+      Town._handleSocialEvent(socket, 'typingStarted', undefined, () =>
+        this._forwardTypingNotice(player, 'typingStarted', notice),
+      );
+    });
+    onClientEvent('typingStopped', (notice: TypingNotice) => {
+      Town._handleSocialEvent(socket, 'typingStopped', undefined, () =>
+        this._forwardTypingNotice(player, 'typingStopped', notice),
+      );
     });
 
-    return newPlayer;
+    // Set up a listener to remember when a player reads their mini messages with another player, so
+    // that the messages stay read when the player reloads the town, and to let the other player know
+    // that their messages were read
+    onClientEvent('readMiniMessages', (otherPlayerID: string) => {
+      Town._handleSocialEvent(socket, 'readMiniMessages', undefined, () => {
+        const readAt = Date.now();
+        this._miniMessageStore.markRead(player.id, otherPlayerID, readAt);
+        this._miniMessageStore
+          .getMessages(player.id)
+          .filter(message => message.sender === otherPlayerID && message.sentAt <= readAt)
+          .forEach(message => this._updateMiniMessageReceipt(message, player.id, 'read'));
+      });
+    });
+  }
+
+  /**
+   * Registers a listener for an event that a player's client may send, which is only called while the
+   * client stays within its rate limit for that kind of event, and only with a payload that matches the
+   * event's schema (@see clientEventSchemas). Events over the limit are dropped, and the client is sent
+   * a rateLimited notice; a client that keeps going over its limits is kicked. Movements over the limit
+   * are dropped without either (@see RateLimiter.dropsSilently). Events with a malformed
+   * payload are dropped, and the client is sent a payloadRejected notice saying what was wrong with it.
+   * If the client sent the event with an acknowledgement callback, the callback reports these errors
+   * instead of the notices, and is passed on to the listener otherwise.
+   *
+   * @param player the player who is connected on the socket
+   * @param socket the socket to listen to
+   * @param rateLimiter the rate limiter for the player's client
+   * @param event the name of the event to listen for
+   * @param listener handles the event, if it is within the limit and its payload is valid
+   */
+  private _onClientEvent<Ev extends EventNames<ClientToServerEvents>>(
+    player: Player,
+    socket: CoveyTownSocket,
+    rateLimiter: RateLimiter,
+    event: Ev,
+    listener: ClientToServerEvents[Ev],
+  ): void {
+    const limitedListener = (...args: unknown[]) => {
+      // socket.io passes the acknowledgement callback, if the client asked for one, as the last argument
+      const lastArg = args[args.length - 1];
+      const ack =
+        args.length > 1 && typeof lastArg === 'function' ? (lastArg as SocketAck) : undefined;
+      const retryAfterMs = rateLimiter.tryConsume(event);
+      if (retryAfterMs !== 0) {
+        if (RateLimiter.dropsSilently(event)) {
+          return;
+        }
+        if (rateLimiter.recordViolation()) {
+          if (this._connectedSockets.get(player.id) === socket) {
+            this.kickPlayer(player.id, 'Your client sent too many requests');
+          }
+        } else if (ack) {
+          ack({
+            ok: false,
+            code: 'rateLimited',
+            message: `Too many requests, try again in ${Math.ceil(retryAfterMs / 1000)}s`,
+          });
+        } else {
+          socket.emit('rateLimited', { event, retryAfterMs });
+        }
+        return;
+      }
+      let payload: Parameters<ClientToServerEvents[Ev]>[0];
+      try {
+        payload = clientEventSchemas[event](args[0], '');
+      } catch (e) {
+        if (!(e instanceof InvalidPayloadError)) {
+          throw e;
+        }
+        if (ack) {
+          ack({ ok: false, code: 'invalidPayload', message: e.message });
+        } else {
+          socket.emit('payloadRejected', { event, path: e.path, message: e.problem });
+        }
+        return;
+      }
+      (
+        listener as (validPayload: Parameters<ClientToServerEvents[Ev]>[0], ack?: SocketAck) => void
+      )(payload, ack);
+    };
+    socket.on(
+      event,
+      limitedListener as ReservedOrUserListener<SocketReservedEventsMap, ClientToServerEvents, Ev>,
+    );
+  }
+
+  /**
+   * Starts waiting for a player whose connection dropped to resume their session. If they do not
+   * do so within RECONNECT_GRACE_PERIOD_MS, they are removed from the town.
+   *
+   * @param player the player whose connection dropped
+   */
+  private _startReconnectGracePeriod(player: Player): void {
+    this._reconnectingPlayers.set(player.id, {
+      expiry: setTimeout(() => {
+        this._reconnectingPlayers.delete(player.id);
+        this._removePlayer(player);
+      }, RECONNECT_GRACE_PERIOD_MS),
+      missedEvents: [],
+    });
   }
 
   /**
@@ -235,76 +854,237 @@ export default class Town {
    */
   private _removePlayer(player: Player): void {
     this._players = this._players.filter(p => p.id !== player.id);
+    this._movementAllowances.delete(player.id);
+    this._rateLimiters.delete(player.id);
+    this._playerIndex.remove(player.id);
+    this._movementSubscriptions.delete(player.id);
+    this._distantMovements.delete(player.id);
+    // The friendships themselves are persisted, and are restored if the player rejoins
+    player.friends.forEach(eachFriend => eachFriend.removeFriend(player));
     this._broadcastEmitter.emit('playerDisconnect', player.toPlayerModel());
     if (player.location.interactableID) {
       this._removePlayerFromInteractable(player);
     }
   }
 
+  /**
+   * All of the friend requests that have been sent in this town, including the ones that have
+   * already been accepted, declined or canceled
+   */
+  get friendRequests(): FriendRequest[] {
+    return this._friendRequests;
+  }
+
+  /**
+   * Returns the friend requests sent to or by the given player that are still waiting for a response
+   *
+   * @param playerID the ID of the player
+   */
+  public pendingFriendRequestsFor(playerID: string): FriendRequest[] {
+    return this._friendRequests.filter(
+      request =>
+        request.status === 'pending' &&
+        (request.sender === playerID || request.recipient === playerID),
+    );
+  }
+
+  /**
+   * Records a new pending friend request from the actor to the affected, and emits a
+   * friendRequestSent event so that both players are aware of it. Requests to a player who has
+   * blocked the sender are dropped without telling the sender.
+   *
+   * @param newFriendRequest contains the sender of the friend request (actor) and its
+   *                         recipient (affected).
+   * @throws InvalidParametersError if the recipient is not in this town, is the sender, is already
+   *                                the sender's friend, is blocked by the sender, or if there is
+   *                                already a pending request between the two players
+   */
+  public sendFriendRequest(newFriendRequest: PlayerToPlayerUpdate): void {
+    const sender = this._getPlayerByID(newFriendRequest.actor);
+    const recipient = this._getPlayerByID(newFriendRequest.affected);
+    if (recipient === sender) {
+      throw new InvalidParametersError('Players cannot send friend requests to themselves');
+    }
+    if (recipient.hasBlocked(sender.id)) {
+      return;
+    }
+    if (sender.hasBlocked(recipient.id)) {
+      throw new InvalidParametersError(`Player ${recipient.id} must be unblocked first`);
+    }
+    if (sender.friends.includes(recipient)) {
+      throw new InvalidParametersError(`Player ${recipient.id} is already a friend`);
+    }
+    if (
+      this._findPendingFriendRequest(sender.id, recipient.id) ||
+      this._findPendingFriendRequest(recipient.id, sender.id)
+    ) {
+      throw new InvalidParametersError(
+        `A friend request between ${sender.id} and ${recipient.id} is already pending`,
+      );
+    }
+
+    this._friendRequests.push({
+      sender: sender.id,
+      recipient: recipient.id,
+      status: 'pending',
+      sentAt: Date.now(),
+    });
+
+    this._emitToPlayers([sender.id, recipient.id], 'friendRequestSent', newFriendRequest);
+  }
+
   /**
    * Emit a friendRequestAccepted event with the given acceptor and accepted. Adds each player to other
-   * player's friends list.
+   * player's friends list, and persists the new friendship to the account store.
    *
    * @param currentFriendRequest contains the recipient of the initial friend request
    *                             who Is ACCEPTING the received friend request and the
    *                             sender of the initial request.
+   * @throws InvalidParametersError if either player is not in this town, or if there is no pending
+   *                                request from the sender to the recipient
    */
   public acceptFriendRequest(currentFriendRequest: PlayerToPlayerUpdate): void {
-    try {
-      const actor = this._getPlayerByID(currentFriendRequest.actor);
-      const affected = this._getPlayerByID(currentFriendRequest.affected);
+    const actor = this._getPlayerByID(currentFriendRequest.actor);
+    const affected = this._getPlayerByID(currentFriendRequest.affected);
+    this._respondToFriendRequest(affected.id, actor.id, 'accepted');
+
+    actor.addFriend(affected);
+    affected.addFriend(actor);
+    this._accountStore.addFriendship(actor.id, affected.id);
+
+    this._emitToPlayers(
+      [currentFriendRequest.actor, currentFriendRequest.affected],
+      'friendRequestAccepted',
+      currentFriendRequest,
+    );
+  }
 
-      actor.addFriend(affected);
-      affected.addFriend(actor);
+  /**
+   * Records that the recipient of a pending friend request declined it, and emits a
+   * friendRequestDeclined event so that both players are aware of it.
+   *
+   * @param currentFriendRequest contains the recipient of the initial friend request who is
+   *                             DECLINING it (actor) and the sender of the initial request (affected).
+   * @throws InvalidParametersError if there is no pending request from the sender to the recipient
+   */
+  public declineFriendRequest(currentFriendRequest: PlayerToPlayerUpdate): void {
+    this._respondToFriendRequest(
+      currentFriendRequest.affected,
+      currentFriendRequest.actor,
+      'declined',
+    );
+    this._emitToPlayers(
+      [currentFriendRequest.actor, currentFriendRequest.affected],
+      'friendRequestDeclined',
+      currentFriendRequest,
+    );
+  }
 
-      this._broadcastEmitter.emit('friendRequestAccepted', currentFriendRequest);
-    } catch (e) {
-      logError(e);
-    }
+  /**
+   * Records that the sender of a pending friend request canceled it, and emits a
+   * friendRequestCanceled event so that both players are aware of it.
+   *
+   * @param currentFriendRequest contains the sender of the friend request who is CANCELING it
+   *                             (actor) and its recipient (affected).
+   * @throws InvalidParametersError if there is no pending request from the sender to the recipient
+   */
+  public cancelFriendRequest(currentFriendRequest: PlayerToPlayerUpdate): void {
+    this._respondToFriendRequest(
+      currentFriendRequest.actor,
+      currentFriendRequest.affected,
+      'canceled',
+    );
+    this._emitToPlayers(
+      [currentFriendRequest.actor, currentFriendRequest.affected],
+      'friendRequestCanceled',
+      currentFriendRequest,
+    );
   }
 
   /**
    * Emit a friendRemoved event with the given remover and removed.
-   * Removes each player from each other's friends list.
+   * Removes each player from each other's friends list, and from the account store.
    *
    * @param currentFriends containts the player removing the affected from their friend's list
    *                       and the player to be removed from the actor's friends list.
+   * @throws InvalidParametersError if either player is not in this town
    */
   public removeFriend(currentFriends: PlayerToPlayerUpdate): void {
-    try {
-      const actor = this._getPlayerByID(currentFriends.actor);
-      const affected = this._getPlayerByID(currentFriends.affected);
+    const actor = this._getPlayerByID(currentFriends.actor);
+    const affected = this._getPlayerByID(currentFriends.affected);
 
-      actor.removeFriend(affected);
-      affected.removeFriend(actor);
+    actor.removeFriend(affected);
+    affected.removeFriend(actor);
+    this._accountStore.removeFriendship(actor.id, affected.id);
 
-      this._broadcastEmitter.emit('friendRemoved', currentFriends);
-    } catch (e) {
-      logError(e);
+    this._emitToPlayers(
+      [currentFriends.actor, currentFriends.affected],
+      'friendRemoved',
+      currentFriends,
+    );
+  }
+
+  /**
+   * Adds the affected player to the actor's block list, and persists it to the account store. Any
+   * friendship between the two players ends, and any friend request between them that is still
+   * pending is declined or canceled. Emits a playerBlocked event to the actor only.
+   *
+   * @param block contains the player who is blocking (actor) and the player to block (affected).
+   * @throws InvalidParametersError if the affected player is not in this town, or is the actor
+   */
+  public blockPlayer(block: PlayerToPlayerUpdate): void {
+    const actor = this._getPlayerByID(block.actor);
+    const affected = this._getPlayerByID(block.affected);
+    if (actor === affected) {
+      throw new InvalidParametersError('Players cannot block themselves');
+    }
+    actor.block(affected.id);
+    this._accountStore.blockUser(actor.id, affected.id);
+
+    if (actor.friends.includes(affected)) {
+      this.removeFriend(block);
+    }
+    if (this._findPendingFriendRequest(affected.id, actor.id)) {
+      this.declineFriendRequest(block);
     }
+    if (this._findPendingFriendRequest(actor.id, affected.id)) {
+      this.cancelFriendRequest(block);
+    }
+
+    this._emitToPlayers([actor.id], 'playerBlocked', block);
+  }
+
+  /**
+   * Removes the affected player from the actor's block list, and from the account store. Emits a
+   * playerUnblocked event to the actor only. The affected player need not be in this town.
+   *
+   * @param block contains the player who is unblocking (actor) and the player to unblock (affected).
+   * @throws InvalidParametersError if the actor is not in this town
+   */
+  public unblockPlayer(block: PlayerToPlayerUpdate): void {
+    const actor = this._getPlayerByID(block.actor);
+    actor.unblock(block.affected);
+    this._accountStore.unblockUser(actor.id, block.affected);
+
+    this._emitToPlayers([actor.id], 'playerUnblocked', block);
   }
 
   /**
-   * Modifies a player's location to match the given destination player's location.
+   * Modifies a player's location to match the given destination player's location, however far
+   * away it is (@see _teleportPlayer).
    * Assumes that UI enforces teleportation only between friends.
    *
    * @param teleportInvite the invite representing the teleportation information:
    *                       the player to teleport to, the player doing the teleporting, and the
    *                       teleport location.
+   * @throws InvalidParametersError if either player is not in this town
    */
   public teleportToFriend(teleportInvite: TeleportInviteSingular): void {
     const { requester, requested, requesterLocation } = teleportInvite;
 
-    try {
-      if (this._getPlayerByID(requester)) {
-        const requestedPlayer = this._getPlayerByID(requested);
-        if (requestedPlayer) {
-          this._updatePlayerLocation(requestedPlayer, requesterLocation);
-        }
-      }
-    } catch (e) {
-      logError(e);
-    }
+    // The requester must still be in the town for the teleport to make sense
+    this._getPlayerByID(requester);
+    this._teleportPlayer(this._getPlayerByID(requested), requesterLocation);
   }
 
   /**
@@ -312,34 +1092,36 @@ export default class Town {
    *
    * @param instigator the player sending out the invites.
    * @param invitedFriends the players invited.
+   * @throws InvalidParametersError if any of the invited players is not in this town, in which
+   *                                case none of them are invited
    */
   public inviteToConversationArea(invite: ConversationAreaGroupInvite): void {
-    try {
-      // For each requested player, add the corresponding teleport request to their invite list.
-      invite.requested.forEach(friendID => {
-        const inviteToOne: TeleportInviteSingular = {
-          requester: invite.requester,
-          requested: friendID,
-          requesterLocation: invite.requesterLocation,
-        };
-
-        const friendPlayer: Player = this._getPlayerByID(friendID);
-        if (
-          // check to make sure that there is not already an invite from this player to this
-          // specific location before adding it to the conversation area invite list.
-          !friendPlayer.conversationAreaInvites.find(
-            (convInvite: TeleportInviteSingular) =>
-              convInvite.requesterLocation === invite.requesterLocation &&
-              convInvite.requester === invite.requester,
-          )
-        ) {
-          friendPlayer.addConversationAreaInvite(inviteToOne);
-        }
-      });
-      this._broadcastEmitter.emit('conversationAreaRequestSent', invite);
-    } catch (e) {
-      logError(e);
-    }
+    const friendPlayers = invite.requested.map(friendID => this._getPlayerByID(friendID));
+    // For each requested player, add the corresponding teleport request to their invite list.
+    friendPlayers.forEach(friendPlayer => {
+      const inviteToOne: TeleportInviteSingular = {
+        requester: invite.requester,
+        requested: friendPlayer.id,
+        requesterLocation: invite.requesterLocation,
+      };
+
+      if (
+        // check to make sure that there is not already an invite from this player to this
+        // specific location before adding it to the conversation area invite list.
+        !friendPlayer.conversationAreaInvites.find(
+          (convInvite: TeleportInviteSingular) =>
+            convInvite.requesterLocation === invite.requesterLocation &&
+            convInvite.requester === invite.requester,
+        )
+      ) {
+        friendPlayer.addConversationAreaInvite(inviteToOne);
+      }
+    });
+    this._emitToPlayers(
+      [invite.requester, ...invite.requested],
+      'conversationAreaRequestSent',
+      invite,
+    );
   }
 
   /**
@@ -348,15 +1130,16 @@ export default class Town {
    * request from the list.
    *
    * @param teleportInvite the teleport invite request that is being accepted
+   * @throws InvalidParametersError if either player is not in this town
    */
   public acceptConversationAreaInvite(teleportInvite: TeleportInviteSingular): void {
-    try {
-      this._getPlayerByID(teleportInvite.requested).removeConversationAreaInvite(teleportInvite);
-      this.teleportToFriend(teleportInvite);
-      this._broadcastEmitter.emit('conversationAreaRequestAccepted', teleportInvite);
-    } catch (e) {
-      logError(e);
-    }
+    this._getPlayerByID(teleportInvite.requested).removeConversationAreaInvite(teleportInvite);
+    this.teleportToFriend(teleportInvite);
+    this._emitToPlayers(
+      [teleportInvite.requester, teleportInvite.requested],
+      'conversationAreaRequestAccepted',
+      teleportInvite,
+    );
   }
 
   /**
@@ -364,28 +1147,610 @@ export default class Town {
    * Removes the invite from the decliner's list of invites.
    *
    * @param teleportInvite the teleport invite request that is being declined.
+   * @throws InvalidParametersError if the decliner is not in this town
    */
   public declineConversationAreaInvite(declinedInvite: TeleportInviteSingular): void {
-    try {
-      this._getPlayerByID(declinedInvite.requested).removeConversationAreaInvite(declinedInvite);
-      this._broadcastEmitter.emit('conversationAreaRequestDeclined', declinedInvite);
-    } catch (e) {
-      logError(e);
+    this._getPlayerByID(declinedInvite.requested).removeConversationAreaInvite(declinedInvite);
+    this._emitToPlayers(
+      [declinedInvite.requester, declinedInvite.requested],
+      'conversationAreaRequestDeclined',
+      declinedInvite,
+    );
+  }
+
+  /**
+   * Removes a player from the town right away, without waiting for them to reconnect, after sending
+   * them a playerKicked event explaining why. The player may join the town again.
+   *
+   * @param playerID the ID of the player to remove
+   * @param reason the town owner's explanation, if any
+   * @throws InvalidParametersError if the player is not in this town
+   */
+  public kickPlayer(playerID: string, reason?: string): void {
+    const player = this._getPlayerByID(playerID);
+    this._emitToPlayers([playerID], 'playerKicked', { reason });
+    this._disconnectPlayer(player);
+  }
+
+  /**
+   * Refuses a player's chat and mini messages for a while, and sends them a playerMuted event saying
+   * until when. Muting a player who is already muted replaces their previous mute.
+   *
+   * @param playerID the ID of the player to mute
+   * @param durationSeconds how long the mute lasts, which must be positive
+   * @param reason the town owner's explanation, if any
+   * @throws InvalidParametersError if the player is not in this town, or the duration is not positive
+   */
+  public mutePlayer(playerID: string, durationSeconds: number, reason?: string): void {
+    this._getPlayerByID(playerID);
+    if (!(durationSeconds > 0)) {
+      throw new InvalidParametersError('Mute duration must be positive');
+    }
+    const mutedUntil = Date.now() + durationSeconds * 1000;
+    this._mutedUntil.set(playerID, mutedUntil);
+    this._emitToPlayers([playerID], 'playerMuted', { reason, mutedUntil });
+  }
+
+  /**
+   * @returns true if the given player is muted right now
+   */
+  public isMuted(playerID: string): boolean {
+    const mutedUntil = this._mutedUntil.get(playerID);
+    return mutedUntil !== undefined && mutedUntil > Date.now();
+  }
+
+  /**
+   * Bans a user name, a user ID, or both from joining the town. Every player in the town who is
+   * banned is sent a playerBanned event explaining why, and then removed from the town.
+   *
+   * @param userName the user name to ban, which is matched regardless of case
+   * @param userID the user ID to ban
+   * @param reason the town owner's explanation, if any
+   * @throws InvalidParametersError if neither a user name nor a user ID is given
+   */
+  public banPlayer(userName?: string, userID?: string, reason?: string): void {
+    if (!userName && !userID) {
+      throw new InvalidParametersError('A user name or user ID to ban must be specified');
+    }
+    if (userName) {
+      this._bannedUserNames.add(userName.toLowerCase());
+    }
+    if (userID) {
+      this._bannedUserIDs.add(userID);
+    }
+    this._players
+      .filter(eachPlayer => this.isBanned(eachPlayer.userName, eachPlayer.id))
+      .forEach(bannedPlayer => {
+        this._emitToPlayers([bannedPlayer.id], 'playerBanned', { reason });
+        this._disconnectPlayer(bannedPlayer);
+      });
+  }
+
+  /**
+   * @returns true if the town's owner banned the given user name or user ID from joining the town
+   */
+  public isBanned(userName: string, userID?: string): boolean {
+    return (
+      this._bannedUserNames.has(userName.toLowerCase()) ||
+      (userID !== undefined && this._bannedUserIDs.has(userID))
+    );
+  }
+
+  /**
+   * Makes an announcement to everyone in the town, by broadcasting an announcement event when the
+   * announcement starts. Players who join the town while the announcement is active receive it in
+   * their TownJoinResponse.
+   *
+   * @param message the text of the announcement, which may not be empty
+   * @param startsAt when to broadcast the announcement, in milliseconds since the epoch; defaults to now
+   * @param expiresAt when the announcement should stop being shown, in milliseconds since the epoch;
+   *  defaults to never
+   * @returns the new announcement
+   * @throws InvalidParametersError if the message is empty, or the announcement would expire before it
+   *  starts or before now
+   */
+  public announce(message: string, startsAt?: number, expiresAt?: number): Announcement {
+    if (!message.trim()) {
+      throw new InvalidParametersError('Announcement message must not be empty');
+    }
+    const now = Date.now();
+    const announcement: Announcement = {
+      id: nanoid(),
+      message: message.trim(),
+      startsAt: startsAt ?? now,
+      expiresAt,
+    };
+    if (expiresAt !== undefined && expiresAt <= Math.max(announcement.startsAt, now)) {
+      throw new InvalidParametersError('Announcement must expire after it starts');
+    }
+    this._announcements = this._announcements.filter(
+      eachAnnouncement =>
+        eachAnnouncement.expiresAt === undefined || eachAnnouncement.expiresAt > now,
+    );
+    this._announcements.push(announcement);
+    if (announcement.startsAt > now) {
+      this._scheduledAnnouncements.set(
+        announcement.id,
+        setTimeout(() => {
+          this._scheduledAnnouncements.delete(announcement.id);
+          this._broadcastEmitter.emit('announcement', announcement);
+        }, announcement.startsAt - now),
+      );
+    } else {
+      this._broadcastEmitter.emit('announcement', announcement);
     }
+    return announcement;
+  }
+
+  /**
+   * Removes a player from the town and disconnects their socket, without giving them a chance to
+   * resume their session
+   */
+  private _disconnectPlayer(player: Player): void {
+    const socket = this._connectedSockets.get(player.id);
+    // The socket's disconnect listener ignores sockets that are no longer connected
+    this._connectedSockets.delete(player.id);
+    const reconnectingPlayer = this._reconnectingPlayers.get(player.id);
+    if (reconnectingPlayer) {
+      clearTimeout(reconnectingPlayer.expiry);
+      this._reconnectingPlayers.delete(player.id);
+    }
+    this._removePlayer(player);
+    socket?.disconnect(true);
+  }
+
+  /**
+   * Retrieve one page of this town's chat history, including only the messages that the given player
+   * may see: messages to the whole town, and direct messages to or from the player.
+   * @see ChatHistory.getMessages
+   *
+   * @param playerID the ID of the player who is reading the history
+   * @param before the sid of a message: only messages sent before it are returned
+   * @param limit the maximum number of messages to return
+   * @returns the latest messages that the player may see, oldest first
+   */
+  public getChatMessages(playerID: string, before?: string, limit?: number): ChatMessage[] {
+    return this._chatHistory.getMessages(
+      before,
+      limit,
+      message =>
+        message.channel.type === 'town' ||
+        (message.channel.type === 'direct' && message.channel.playerIDs.includes(playerID)),
+    );
+  }
+
+  /**
+   * Retrieve every mini message that a player has sent or received, in this town or any other, and
+   * when they last read their conversation with each other player
+   *
+   * @param playerID the ID of the player whose inbox is requested
+   */
+  public getMiniMessageInbox(playerID: string): MiniMessageInbox {
+    const messages = this._miniMessageStore.getMessages(playerID);
+    const userNames: Record<string, string> = {};
+    messages
+      .flatMap(eachMessage => [eachMessage.sender, ...eachMessage.recipients])
+      .forEach(userID => {
+        const userName = this._accountStore.getAccountByID(userID)?.userName;
+        if (userName !== undefined) {
+          userNames[userID] = userName;
+        }
+      });
+    return { messages, lastReadAt: this._miniMessageStore.getLastReadAt(playerID), userNames };
+  }
+
+  /**
+   * Forwards a typing indicator to the connected players that it is addressed to
+   *
+   * @param player the player who is typing
+   * @param event whether the player started or stopped typing
+   * @param notice the typing indicator that the player's client sent
+   * @throws InvalidParametersError if the indicator is forged, or addressed to a player who is not a
+   *  friend of the typist
+   */
+  private _forwardTypingNotice(
+    player: Player,
+    event: 'typingStarted' | 'typingStopped',
+    notice: TypingNotice,
+  ): void {
+    Town._checkIsPlayer(player, notice.typist);
+    const recipients = [...new Set(notice.recipients)];
+    recipients.forEach(recipientID => Town._checkIsFriend(player, recipientID));
+    recipients.forEach(recipientID =>
+      this._connectedSockets.get(recipientID)?.emit(event, { typist: player.id, recipients }),
+    );
+  }
+
+  /**
+   * Marks every mini message that is still pending for a player as delivered, now that their client
+   * has received it: either in their inbox when they joined the town, or replayed when they resumed
+   * their session.
+   *
+   * @param playerID the ID of the player who just joined or resumed their session
+   */
+  private _deliverPendingMiniMessages(playerID: string): void {
+    this._miniMessageStore
+      .getMessages(playerID)
+      .filter(message => message.receipts[playerID] === 'pending')
+      .forEach(message => this._updateMiniMessageReceipt(message, playerID, 'delivered'));
+  }
+
+  /**
+   * Records the status of a mini message for one of its recipients, and lets the message's sender know
+   * if it changed
+   */
+  private _updateMiniMessageReceipt(
+    message: MiniMessage,
+    recipientID: string,
+    status: MiniMessageReceiptStatus,
+  ): void {
+    if (this._miniMessageStore.updateReceipt(message.id, recipientID, status)) {
+      this._emitToPlayers([message.sender], 'miniMessageReceipt', {
+        messageID: message.id,
+        recipient: recipientID,
+        status,
+      });
+    }
+  }
+
+  /**
+   * Assembles a chat message from a player's draft. The message's author, ID and timestamp are
+   * assigned here rather than trusted from the client, and blocked words in its body are masked.
+   *
+   * @param player the player who sent the draft
+   * @param draft the message that the player's client sent
+   * @throws InvalidParametersError if the message is empty or longer than MAX_CHAT_MESSAGE_LENGTH, or
+   *  the player may not send messages to its channel (@see _checkChatChannel)
+   */
+  private _createChatMessage(player: Player, draft: ChatMessageDraft): ChatMessage {
+    const body = draft.body.trim();
+    if (!body) {
+      throw new InvalidParametersError('Chat messages may not be empty');
+    }
+    if (body.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new InvalidParametersError(
+        `Chat messages may be at most ${MAX_CHAT_MESSAGE_LENGTH} characters long`,
+      );
+    }
+    return {
+      sid: nanoid(),
+      author: player.userName,
+      authorID: player.id,
+      body: this._wordFilter.filter(body),
+      dateCreated: new Date(),
+      channel: this._checkChatChannel(player, draft.channel),
+    };
+  }
+
+  /**
+   * Assembles a mini message from a player's draft, assigning its ID and timestamp
+   *
+   * @param player the player who sent the draft
+   * @param draft the message that the player's client sent
+   * @throws InvalidParametersError if the message is empty or longer than MAX_MINI_MESSAGE_LENGTH, it
+   *  is not addressed to at least one of the player's friends and nobody else, or it replies to a
+   *  message that the player neither sent nor received
+   */
+  private _createMiniMessage(player: Player, draft: MiniMessageDraft): MiniMessage {
+    const body = draft.body.trim();
+    if (!body) {
+      throw new InvalidParametersError('Mini messages may not be empty');
+    }
+    if (body.length > MAX_MINI_MESSAGE_LENGTH) {
+      throw new InvalidParametersError(
+        `Mini messages may be at most ${MAX_MINI_MESSAGE_LENGTH} characters long`,
+      );
+    }
+    const recipients = [...new Set(draft.recipients)];
+    if (recipients.length === 0) {
+      throw new InvalidParametersError('Mini messages must have at least one recipient');
+    }
+    recipients.forEach(recipientID => Town._checkIsFriend(player, recipientID));
+    const miniMessage: MiniMessage = {
+      id: nanoid(),
+      sender: player.id,
+      recipients,
+      body,
+      sentAt: Date.now(),
+      receipts: {},
+    };
+    if (draft.inReplyTo !== undefined) {
+      const { inReplyTo } = draft;
+      if (
+        !this._miniMessageStore.getMessages(player.id).some(message => message.id === inReplyTo)
+      ) {
+        throw new InvalidParametersError(`Player ${player.id} has no mini message ${inReplyTo}`);
+      }
+      miniMessage.inReplyTo = inReplyTo;
+    }
+    return miniMessage;
+  }
+
+  /**
+   * Checks that a player may send messages to a chat channel. Anyone may send messages to the whole
+   * town; only the occupants of a conversation area may send messages to its channel; and only two
+   * friends may send direct messages to each other, whether or not they are both in the town.
+   *
+   * @param player the player who is sending a message
+   * @param channel the channel to send the message to, defaults to the whole town
+   * @returns the channel, with the IDs of the players in a direct channel sorted
+   * @throws InvalidParametersError if the player may not send messages to the channel
+   */
+  private _checkChatChannel(player: Player, channel?: ChatChannel): ChatChannel {
+    if (!channel || channel.type === 'town') {
+      return { type: 'town' };
+    }
+    if (channel.type === 'conversationArea') {
+      const area = this._interactables.find(eachArea => eachArea.id === channel.conversationAreaID);
+      if (!(area instanceof ConversationArea) || !area.occupantsByID.includes(player.id)) {
+        throw new InvalidParametersError(
+          `Player ${player.id} is not in conversation area ${channel.conversationAreaID}`,
+        );
+      }
+      return { type: 'conversationArea', conversationAreaID: area.id };
+    }
+    if (channel.type === 'direct') {
+      const otherIDs = channel.playerIDs.filter(eachID => eachID !== player.id);
+      if (channel.playerIDs.length !== 2 || otherIDs.length !== 1) {
+        throw new InvalidParametersError(
+          'A direct channel must be between the sender and one other player',
+        );
+      }
+      const [friendID] = otherIDs;
+      const isFriend =
+        player.friends.some(friend => friend.id === friendID) ||
+        this._accountStore.getAccountByID(player.id)?.friendIDs.includes(friendID);
+      if (!isFriend) {
+        throw new InvalidParametersError(`Player ${friendID} is not a friend of ${player.id}`);
+      }
+      return { type: 'direct', playerIDs: [player.id, friendID].sort() };
+    }
+    throw new InvalidParametersError('Unknown chat channel');
+  }
+
+  /**
+   * @returns the IDs of the players who receive messages sent to a chat channel, or undefined if
+   *  everyone in the town does
+   */
+  private _chatChannelMemberIDs(channel: ChatChannel): string[] | undefined {
+    if (channel.type === 'conversationArea') {
+      return this.getInteractable(channel.conversationAreaID).occupantsByID;
+    }
+    if (channel.type === 'direct') {
+      return channel.playerIDs;
+    }
+    return undefined;
+  }
+
+  /**
+   * @throws InvalidParametersError if the player is muted right now
+   */
+  private _checkIsNotMuted(player: Player): void {
+    const mutedUntil = this._mutedUntil.get(player.id);
+    if (mutedUntil !== undefined && mutedUntil > Date.now()) {
+      throw new InvalidParametersError(`You are muted until ${new Date(mutedUntil).toISOString()}`);
+    }
+  }
+
+  /**
+   * Emits an event only to the given players, rather than to everyone in the town. Used for events
+   * that are private to the players involved in them, like friend requests and mini messages.
+   *
+   * @param playerIDs the players who should receive the event; each receives it at most once.
+   *                  Players who are reconnecting receive it when they resume their session, and
+   *                  players who are not in this town are skipped
+   * @param event the name of the event to emit
+   * @param args the event's payload
+   */
+  private _emitToPlayers<Ev extends EventNames<ServerToClientEvents>>(
+    playerIDs: string[],
+    event: Ev,
+    ...args: EventParams<ServerToClientEvents, Ev>
+  ): void {
+    new Set(playerIDs).forEach(playerID => {
+      const socket = this._connectedSockets.get(playerID);
+      if (socket) {
+        socket.emit(event, ...args);
+      } else {
+        // Hold on to events for players who may still resume their session
+        this._reconnectingPlayers
+          .get(playerID)
+          ?.missedEvents.push(resumedSocket => resumedSocket.emit(event, ...args));
+      }
+    });
   }
 
   /**
    * Returns the Player in this Town with given ID, or undefined if it is not presentƒ
    *
    * @param id the id of the player we want to find
-   * @throws error if the given ID does not match any of the current players
+   * @throws InvalidParametersError if the given ID does not match any of the current players
    */
   private _getPlayerByID(id: string): Player {
     const playerFromID = this.players.find(player => player.id === id);
     if (playerFromID) {
       return playerFromID;
     }
-    throw new Error(`No player associated with ID ${id}.`);
+    throw new InvalidParametersError(`No player associated with ID ${id}.`);
+  }
+
+  /**
+   * Returns true if the player with the given ID is in this town and has blocked the other player
+   */
+  private _hasBlocked(blockerID: string, blockedID: string): boolean {
+    return this._players.find(player => player.id === blockerID)?.hasBlocked(blockedID) ?? false;
+  }
+
+  /**
+   * Returns the pending friend request from the given sender to the given recipient, if any
+   */
+  private _findPendingFriendRequest(
+    senderID: string,
+    recipientID: string,
+  ): FriendRequest | undefined {
+    return this._friendRequests.find(
+      request =>
+        request.status === 'pending' &&
+        request.sender === senderID &&
+        request.recipient === recipientID,
+    );
+  }
+
+  /**
+   * Records the response to the pending friend request from the given sender to the given recipient
+   *
+   * @param senderID the player who sent the request
+   * @param recipientID the player who received the request
+   * @param status whether the request was accepted, declined or canceled
+   * @throws InvalidParametersError if there is no such pending request
+   */
+  private _respondToFriendRequest(
+    senderID: string,
+    recipientID: string,
+    status: Exclude<FriendRequestStatus, 'pending'>,
+  ): void {
+    const pendingRequest = this._findPendingFriendRequest(senderID, recipientID);
+    if (!pendingRequest) {
+      throw new InvalidParametersError(
+        `There is no pending friend request from ${senderID} to ${recipientID}`,
+      );
+    }
+    pendingRequest.status = status;
+    pendingRequest.respondedAt = Date.now();
+  }
+
+  /**
+   * Runs the handler for a social event that a client sent. Any event that is forged (sent on
+   * behalf of another player) or not allowed is rejected: the handler throws an
+   * InvalidParametersError, and only the client that sent the event is told about it. If the client
+   * sent the event with an acknowledgement callback, it is told the outcome through the callback
+   * instead, whether the event succeeded, was rejected, or failed.
+   *
+   * @param socket the socket that the event was received on
+   * @param event the name of the event that was received
+   * @param ack the acknowledgement callback that the client sent with the event, if any
+   * @param handler checks that the event is allowed, and then processes it
+   */
+  private static _handleSocialEvent(
+    socket: CoveyTownSocket,
+    event: keyof ClientToServerEvents,
+    ack: SocketAck | undefined,
+    handler: () => void,
+  ): void {
+    try {
+      handler();
+    } catch (e) {
+      if (e instanceof InvalidParametersError) {
+        if (ack) {
+          ack({ ok: false, code: 'rejected', message: e.message });
+        } else {
+          socket.emit('socialEventRejected', { event, message: e.message });
+        }
+      } else {
+        logError(e);
+        ack?.({
+          ok: false,
+          code: 'serverError',
+          message: 'Something went wrong, please try again',
+        });
+      }
+      return;
+    }
+    ack?.({ ok: true });
+  }
+
+  /**
+   * @throws InvalidParametersError if the given ID (which a client claimed as its own in a social
+   *                                event) is not the ID of the player bound to that client's socket
+   */
+  private static _checkIsPlayer(player: Player, claimedID: string): void {
+    if (player.id !== claimedID) {
+      throw new InvalidParametersError(`Player ${player.id} cannot act on behalf of ${claimedID}`);
+    }
+  }
+
+  /**
+   * @throws InvalidParametersError if the player with the given ID is not one of the given
+   *                                player's friends
+   */
+  private static _checkIsFriend(player: Player, friendID: string): void {
+    if (!player.friends.find(friend => friend.id === friendID)) {
+      throw new InvalidParametersError(`Player ${friendID} is not a friend of ${player.id}`);
+    }
+  }
+
+  /**
+   * Returns the invite that the given player received matching the given one, which a client
+   * sent when accepting or declining it
+   *
+   * @throws InvalidParametersError if the player never received such an invite
+   */
+  private static _getReceivedConversationAreaInvite(
+    player: Player,
+    invite: TeleportInviteSingular,
+  ): TeleportInviteSingular {
+    const receivedInvite = player.conversationAreaInvites.find(
+      eachInvite =>
+        eachInvite.requester === invite.requester &&
+        eachInvite.requesterLocation.x === invite.requesterLocation.x &&
+        eachInvite.requesterLocation.y === invite.requesterLocation.y,
+    );
+    if (!receivedInvite) {
+      throw new InvalidParametersError(
+        `Player ${player.id} has no conversation area invite from ${invite.requester}`,
+      );
+    }
+    return receivedInvite;
+  }
+
+  /**
+   * Checks whether a player could have walked to the location that their client reported: their
+   * feet must not pass through any blocked tiles on the way there, and the distance must be within
+   * their movement allowance. Stepping onto a transporter moves a player to its target, however far
+   * away that is.
+   *
+   * Players whose location the town does not know yet (@see _movementAllowances) may start anywhere
+   * that is not blocked.
+   *
+   * @param player the player who is moving
+   * @param location the location that their client reported
+   * @returns true if the player may move to the location
+   */
+  private _isMovementPossible(player: Player, location: PlayerLocation): boolean {
+    const feet = ({ x, y }: PlayerLocation) => ({ x, y: y + PLAYER_BODY_OFFSET_Y });
+    const destination = feet(location);
+    if (this._collisionMap?.isBlocked(destination.x, destination.y)) {
+      return false;
+    }
+    const allowance = this._movementAllowances.get(player.id);
+    const transporter = this._transporters.find(
+      ({ boundingBox, target }) =>
+        target?.x === location.x &&
+        target?.y === location.y &&
+        InteractableArea.boundingBoxContains(boundingBox, player.location),
+    );
+    if (!allowance || transporter) {
+      this._movementAllowances.set(player.id, new TokenBucket(movementAllowance));
+      return true;
+    }
+    if (this._collisionMap?.isPathBlocked(feet(player.location), destination)) {
+      return false;
+    }
+    const distance = Math.hypot(location.x - player.location.x, location.y - player.location.y);
+    return allowance.take(distance) === 0;
+  }
+
+  /**
+   * Moves a player to a location that they could not have walked to, for the features that move
+   * players on the townService's behalf, such as accepting an invite to a conversation area. Their
+   * movement allowance starts over from their new location.
+   *
+   * @param player the player to move
+   * @param location where to move them to
+   */
+  private _teleportPlayer(player: Player, location: PlayerLocation): void {
+    this._movementAllowances.set(player.id, new TokenBucket(movementAllowance));
+    this._updatePlayerLocation(player, location);
   }
 
   /**
@@ -420,8 +1785,43 @@ export default class Town {
     }
 
     player.location = location;
+    this._playerIndex.update(player.id, location.x, location.y);
 
-    this._broadcastEmitter.emit('playerMoved', player.toPlayerModel());
+    this._emitPlayerMoved(player);
+  }
+
+  /**
+   * Tells the other players' clients that a player moved: right away for those whose area of interest
+   * the player is in (@see MovementSubscription), their friends and their own client, and within
+   * DISTANT_MOVEMENT_INTERVAL_MS for everyone else, who only hear about the player's latest
+   * location at that point
+   *
+   * @param player the player who moved
+   */
+  private _emitPlayerMoved(player: Player): void {
+    const movedPlayer = player.toPlayerModel();
+    const nearbyIDs = this._playerIndex.within(
+      MovementSubscription.maxAreaOfInterest(player.location),
+    );
+    const interestedIDs = new Set([player.id, ...player.friends.map(eachFriend => eachFriend.id)]);
+    nearbyIDs
+      .filter(eachID => this._movementSubscriptions.get(eachID)?.isInterestedIn(player.location))
+      .forEach(eachID => interestedIDs.add(eachID));
+    interestedIDs.forEach(eachID => this._movementSubscriptions.get(eachID)?.send(movedPlayer));
+
+    this._distantMovements.set(player.id, { movedPlayer, sentToIDs: interestedIDs });
+    if (!this._distantMovementsTimer) {
+      this._distantMovementsTimer = setTimeout(() => {
+        this._distantMovementsTimer = undefined;
+        const distantMovements = [...this._distantMovements.values()];
+        this._distantMovements.clear();
+        this._movementSubscriptions.forEach((eachSubscription, subscriberID) =>
+          distantMovements
+            .filter(({ sentToIDs }) => !sentToIDs.has(subscriberID))
+            .forEach(({ movedPlayer: eachMovement }) => eachSubscription.send(eachMovement)),
+        );
+      }, DISTANT_MOVEMENT_INTERVAL_MS);
+    }
   }
 
   /**
@@ -526,10 +1926,19 @@ export default class Town {
 
   /**
    * Informs all players' clients that they are about to be disconnected, and then
-   * disconnects all players.
+   * disconnects all players. Announcements that have not started yet are never broadcast.
    */
   public disconnectAllPlayers(): void {
     this._broadcastEmitter.emit('townClosing');
+    this._reconnectingPlayers.forEach(eachReconnectingPlayer =>
+      clearTimeout(eachReconnectingPlayer.expiry),
+    );
+    this._reconnectingPlayers.clear();
+    this._scheduledAnnouncements.forEach(eachTimer => clearTimeout(eachTimer));
+    this._scheduledAnnouncements.clear();
+    clearTimeout(this._distantMovementsTimer);
+    this._distantMovementsTimer = undefined;
+    this._distantMovements.clear();
     this._connectedSockets.forEach(eachSocket => eachSocket.disconnect(true));
   }
 
@@ -545,9 +1954,12 @@ export default class Town {
    * In the map file, each object is identified with a name. Names must be unique. Each object also has
    * some kind of geometry that establishes where the object is on the map. Objects must not overlap.
    *
+   * The town also reads which tiles players collide with, where players start and the transporters
+   * on the map, so that it can check its players' movements.
+   *
    * @param mapFile the map file to read in, defaults to the "indoors" map in the frontend
-   * @throws Error if there is no layer named "Objects" in the map, if the objects overlap or if object
-   *  names are not unique
+   * @throws Error if there is no layer named "Objects" in the map, if the objects overlap, if object
+   *  names are not unique, if a transporter has no target or if a collision layer can not be read
    */
   public initializeFromMap(map: ITiledMap) {
     const objectLayer = map.layers.find(
@@ -570,29 +1982,56 @@ export default class Town {
 
     this._interactables = this._interactables.concat(viewingAreas).concat(conversationAreas);
     this._validateInteractables();
+
+    const transporters = findTransporters(objectLayer);
+    const transporterProblems = findTransporterProblems(transporters);
+    if (transporterProblems.length > 0) {
+      throw new Error(transporterProblems.join('; '));
+    }
+    this._transporters = transporters;
+    const spawnPoint = objectLayer.objects.find(eachObject => eachObject.name === 'Spawn Point');
+    this._spawnPoint = spawnPoint && { x: spawnPoint.x, y: spawnPoint.y };
+    this._collisionMap = CollisionMap.fromMap(map);
   }
 
   private _validateInteractables() {
-    // Make sure that the IDs are unique
-    const interactableIDs = this._interactables.map(eachInteractable => eachInteractable.id);
-    if (
-      interactableIDs.some(
-        item => interactableIDs.indexOf(item) !== interactableIDs.lastIndexOf(item),
-      )
-    ) {
-      throw new Error(
-        `Expected all interactable IDs to be unique, but found duplicate interactable ID in ${interactableIDs}`,
-      );
+    const problems = findInteractableProblems(this._interactables);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
     }
-    // Make sure that there are no overlapping objects
-    for (const interactable of this._interactables) {
-      for (const otherInteractable of this._interactables) {
-        if (interactable !== otherInteractable && interactable.overlaps(otherInteractable)) {
-          throw new Error(
-            `Expected interactables not to overlap, but found overlap between ${interactable.id} and ${otherInteractable.id}`,
-          );
-        }
-      }
+  }
+
+  /**
+   * Checks a map for everything that would make initializeFromMap throw, without initializing a town, so
+   * that all of the map's problems can be reported at once
+   *
+   * @param map the map to check
+   * @returns a description of each problem with the map, or an empty list if a town can be initialized
+   *  from it
+   */
+  public static findMapProblems(map: ITiledMap): string[] {
+    const objectLayer = map.layers.find(
+      eachLayer => eachLayer.name === 'Objects',
+    ) as ITiledMapObjectLayer;
+    if (!objectLayer) {
+      return [`Unable to find objects layer in map`];
     }
+    const problems: string[] = [];
+    const areas: { id: string; boundingBox: BoundingBox }[] = [];
+    objectLayer.objects
+      .filter(
+        eachObject => eachObject.type === 'ViewingArea' || eachObject.type === 'ConversationArea',
+      )
+      .forEach(({ name, x, y, width, height }) => {
+        if (!width || !height) {
+          problems.push(`Malformed interactable area ${name}`);
+        } else {
+          areas.push({ id: name, boundingBox: { x, y, width, height } });
+        }
+      });
+    return problems
+      .concat(findInteractableProblems(areas))
+      .concat(findTransporterProblems(findTransporters(objectLayer)))
+      .concat(CollisionMap.findProblems(map));
   }
 }
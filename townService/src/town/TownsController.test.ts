@@ -1,18 +1,36 @@
+import { ITiledMap, ITiledMapObjectLayer } from '@jonbell/tiled-map-type-guard';
 import assert from 'assert';
+import { mkdtemp, readFile, rm } from 'fs/promises';
 import { DeepMockProxy, mockDeep } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
+import { tmpdir } from 'os';
+import path from 'path';
 import { Town } from '../api/Model';
-import { ConversationArea, Interactable, TownEmitter, ViewingArea } from '../types/CoveyTownSocket';
+import {
+  ChatMessage,
+  ConversationArea,
+  Interactable,
+  TownEmitter,
+  ViewingArea,
+} from '../types/CoveyTownSocket';
+import { CHAT_HISTORY_PAGE_SIZE } from '../lib/ChatHistory';
+import FileUserAccountStore from '../lib/FileUserAccountStore';
+import InvalidMapError from '../lib/InvalidMapError';
+import InvalidParametersError from '../lib/InvalidParametersError';
+import MapCatalog, { BUNDLED_MAPS, DEFAULT_MAP_ID } from '../lib/MapCatalog';
 import TownsStore from '../lib/TownsStore';
 import {
+  clearEmittedEvents,
   createConversationForTesting,
   getLastEmittedEvent,
+  getEventListener,
   extractSessionToken,
   mockPlayer,
   isViewingArea,
   isConversationArea,
   MockedPlayer,
 } from '../TestUtils';
+import { DEFAULT_TOWN_CAPACITY, RECONNECT_GRACE_PERIOD_MS } from './Town';
 import { TownsController } from './TownsController';
 
 type TestTownData = {
@@ -33,6 +51,14 @@ function expectTownListMatches(towns: Town[], town: TestTownData) {
   }
 }
 
+/**
+ * The bundled maps, except that the default map is read from the testing copy of the indoors map, whose
+ * interactable areas these tests rely on
+ */
+const TESTING_MAPS = BUNDLED_MAPS.map(eachMap =>
+  eachMap.mapID === DEFAULT_MAP_ID ? { ...eachMap, mapFile: 'testData/indoors.json' } : eachMap,
+);
+
 const broadcastEmitter = jest.fn();
 describe('TownsController integration tests', () => {
   let controller: TownsController;
@@ -49,7 +75,6 @@ describe('TownsController integration tests', () => {
     const ret = await controller.createTown({
       friendlyName,
       isPubliclyListed: isPublic,
-      mapFile: 'testData/indoors.json',
     });
     return {
       friendlyName,
@@ -72,6 +97,7 @@ describe('TownsController integration tests', () => {
     process.env.TWILIO_ACCOUNT_SID = 'ACtesting';
     process.env.TWILIO_API_KEY_SID = 'testing';
     process.env.TWILIO_API_KEY_SECRET = 'testing';
+    MapCatalog.initializeMapCatalog(undefined, TESTING_MAPS);
   });
 
   beforeEach(async () => {
@@ -93,6 +119,222 @@ describe('TownsController integration tests', () => {
     it('Prohibits a blank friendlyName', async () => {
       await expect(createTownForTesting('')).rejects.toThrowError();
     });
+    it('Creates the town with the requested capacity, or the default capacity', async () => {
+      const { townID } = await controller.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        capacity: 3,
+      });
+      const defaultTown = await createTownForTesting(undefined, true);
+      const towns = await controller.listTowns();
+      expect(towns.find(eachTown => eachTown.townID === townID)?.maximumOccupancy).toBe(3);
+      expect(towns.find(eachTown => eachTown.townID === defaultTown.townID)?.maximumOccupancy).toBe(
+        DEFAULT_TOWN_CAPACITY,
+      );
+    });
+    it('Creates the town with the requested map, which players are told about when they join', async () => {
+      const { townID } = await controller.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        mapID: 'tuxemon-town',
+      });
+      const player = mockPlayer(townID);
+      await controller.joinTown(player.socket);
+      expect(getLastEmittedEvent(player.socket, 'initialize').mapID).toEqual('tuxemon-town');
+    });
+    it('Uses the default map if no map is requested', async () => {
+      const { townID } = await createTownForTesting();
+      const player = mockPlayer(townID);
+      await controller.joinTown(player.socket);
+      expect(getLastEmittedEvent(player.socket, 'initialize').mapID).toEqual(DEFAULT_MAP_ID);
+    });
+    it('Prohibits a map that is not in the catalog', async () => {
+      await expect(
+        controller.createTown({ friendlyName: nanoid(), isPubliclyListed: true, mapID: nanoid() }),
+      ).rejects.toBeInstanceOf(InvalidParametersError);
+    });
+    it('Prohibits a capacity that is not a positive whole number', async () => {
+      await Promise.all(
+        [0, -1, 2.5].map(capacity =>
+          expect(
+            controller.createTown({
+              friendlyName: nanoid(),
+              isPubliclyListed: true,
+              capacity,
+            }),
+          ).rejects.toBeInstanceOf(InvalidParametersError),
+        ),
+      );
+    });
+  });
+
+  describe('listMaps', () => {
+    it('Lists the maps in the catalog, including the default map', async () => {
+      const maps = await controller.listMaps();
+      expect(maps.map(eachMap => eachMap.mapID)).toContain(DEFAULT_MAP_ID);
+      maps.forEach(eachMap => expect(eachMap.name).toBeTruthy());
+    });
+  });
+
+  describe('uploadMap', () => {
+    let tuxemonTown: Record<string, unknown>;
+    let uploadedMapsDirectory: string;
+    const uploadPassword = nanoid();
+    const tilesets = [{ image: '../tilesets/tuxmon-sample-32px-extruded.png', data: 'aW1hZ2U=' }];
+    beforeAll(async () => {
+      tuxemonTown = JSON.parse(
+        await readFile('../frontend/public/assets/tilemaps/tuxemon-town.json', 'utf-8'),
+      );
+      uploadedMapsDirectory = await mkdtemp(path.join(tmpdir(), 'covey-maps-'));
+      MapCatalog.initializeMapCatalog(uploadedMapsDirectory, TESTING_MAPS);
+      process.env.MAP_UPLOAD_PASSWORD = uploadPassword;
+    });
+    afterAll(async () => {
+      delete process.env.MAP_UPLOAD_PASSWORD;
+      MapCatalog.initializeMapCatalog(undefined, TESTING_MAPS);
+      await rm(uploadedMapsDirectory, { recursive: true, force: true });
+    });
+    it('Rejects every map if no directory is configured for uploaded maps', async () => {
+      MapCatalog.initializeMapCatalog(undefined, TESTING_MAPS);
+      const upload = new TownsController().uploadMap(uploadPassword, {
+        name: 'Uploaded',
+        description: 'A test map',
+        map: tuxemonTown,
+        tilesets,
+      });
+      MapCatalog.initializeMapCatalog(uploadedMapsDirectory, TESTING_MAPS);
+      await expect(upload).rejects.toBeInstanceOf(InvalidParametersError);
+    });
+    it('Rejects every map without the upload password', async () => {
+      const upload = controller.uploadMap(nanoid(), {
+        name: 'Uploaded',
+        description: 'A test map',
+        map: tuxemonTown,
+        tilesets,
+      });
+      await expect(upload).rejects.toBeInstanceOf(InvalidParametersError);
+    });
+    it('Rejects every map if no upload password is configured', async () => {
+      delete process.env.MAP_UPLOAD_PASSWORD;
+      const upload = controller.uploadMap('', {
+        name: 'Uploaded',
+        description: 'A test map',
+        map: tuxemonTown,
+        tilesets,
+      });
+      process.env.MAP_UPLOAD_PASSWORD = uploadPassword;
+      await expect(upload).rejects.toBeInstanceOf(InvalidParametersError);
+    });
+    it('Adds a valid map to the catalog, so that towns can be created from it', async () => {
+      const newMap = await controller.uploadMap(uploadPassword, {
+        name: 'Uploaded',
+        description: 'A test map',
+        map: tuxemonTown,
+        tilesets,
+      });
+      expect(await controller.listMaps()).toContainEqual(newMap);
+
+      const { townID } = await controller.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        mapID: newMap.mapID,
+      });
+      const player = mockPlayer(townID);
+      await controller.joinTown(player.socket);
+      expect(getLastEmittedEvent(player.socket, 'initialize').mapID).toEqual(newMap.mapID);
+    });
+    it('Serves an uploaded map and its tileset images', async () => {
+      const newMap = await controller.uploadMap(uploadPassword, {
+        name: 'Uploaded',
+        description: 'A test map',
+        map: tuxemonTown,
+        tilesets,
+      });
+      const map = (await controller.getMap(newMap.mapID)) as ITiledMap;
+      expect(map.layers.map(eachLayer => eachLayer.name)).toContain('Objects');
+
+      const image = await controller.getTilesetImage(newMap.mapID, 0);
+      const chunks: Buffer[] = [];
+      for await (const chunk of image) {
+        chunks.push(chunk);
+      }
+      expect(Buffer.concat(chunks).toString()).toEqual('image');
+      expect(controller.getHeader('Content-Type')).toEqual('image/png');
+    });
+    it('Rejects a map that does not parse, listing every problem', async () => {
+      const upload = controller.uploadMap(uploadPassword, {
+        name: '',
+        description: '',
+        map: { ...tuxemonTown, tilesets: undefined, layers: undefined },
+        tilesets,
+      });
+      await expect(upload).rejects.toBeInstanceOf(InvalidMapError);
+      const { problems } = (await upload.catch(err => err)) as InvalidMapError;
+      expect(problems).toContain('Name must be specified');
+      expect(problems.some(problem => problem.startsWith('map.tilesets'))).toBe(true);
+      expect(problems.some(problem => problem.startsWith('map.layers'))).toBe(true);
+    });
+    it('Rejects a map whose objects or tilesets are invalid, listing every problem', async () => {
+      const layers = tuxemonTown.layers as ITiledMap['layers'];
+      const objectLayer = layers.find(
+        eachLayer => eachLayer.name === 'Objects',
+      ) as ITiledMapObjectLayer;
+      const area = {
+        type: 'ConversationArea',
+        name: 'Duplicate',
+        x: 40,
+        y: 120,
+        width: 100,
+        height: 100,
+        rotation: 0,
+        visible: true,
+      };
+      const map = {
+        ...tuxemonTown,
+        layers: layers.map(eachLayer =>
+          eachLayer === objectLayer
+            ? {
+                ...objectLayer,
+                objects: [...objectLayer.objects, { ...area, id: 1000 }, { ...area, id: 1001 }],
+              }
+            : eachLayer,
+        ),
+      };
+      const upload = controller.uploadMap(uploadPassword, {
+        name: 'Invalid',
+        description: '',
+        map,
+        tilesets: [],
+      });
+      await expect(upload).rejects.toBeInstanceOf(InvalidMapError);
+      const { problems } = (await upload.catch(err => err)) as InvalidMapError;
+      expect(problems.length).toBe(3);
+      expect(problems.filter(problem => problem.includes('duplicate')).length).toBe(1);
+      expect(problems.filter(problem => problem.includes('overlap')).length).toBe(1);
+      expect(problems.filter(problem => problem.includes('Missing the image')).length).toBe(1);
+    });
+    it('Rejects a map without an objects layer', async () => {
+      const layers = tuxemonTown.layers as ITiledMap['layers'];
+      await expect(
+        controller.uploadMap(uploadPassword, {
+          name: 'Invalid',
+          description: '',
+          map: { ...tuxemonTown, layers: layers.filter(eachLayer => eachLayer.name !== 'Objects') },
+          tilesets,
+        }),
+      ).rejects.toEqual(new InvalidMapError(['Unable to find objects layer in map']));
+    });
+  });
+
+  describe('getMap', () => {
+    it('Serves the maps that are bundled with the frontend', async () => {
+      const map = (await controller.getMap(DEFAULT_MAP_ID)) as ITiledMap;
+      expect(map.tilesets.length).toBeGreaterThan(0);
+    });
+    it('Throws an error for a map that is not in the catalog', async () => {
+      await expect(controller.getMap(nanoid())).rejects.toThrowError();
+      await expect(controller.getTilesetImage(nanoid(), 0)).rejects.toThrowError();
+    });
   });
 
   describe('listTowns', () => {
@@ -192,6 +434,25 @@ describe('TownsController integration tests', () => {
         controller.updateTown(nanoid(), nanoid(), { friendlyName: 'test', isPubliclyListed: true }),
       ).rejects.toThrow();
     });
+    it('Updates the capacity as requested and informs the players in the town', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await controller.updateTown(town.townID, town.townUpdatePassword, { capacity: 7 });
+      const towns = await controller.listTowns();
+      expect(towns.find(eachTown => eachTown.townID === town.townID)?.maximumOccupancy).toBe(7);
+      expect(
+        getLastEmittedEvent(getBroadcastEmitterForTownID(town.townID), 'townSettingsUpdated'),
+      ).toEqual({ capacity: 7 });
+    });
+    it('Rejects a capacity that is not a positive whole number, without updating any values', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await expect(
+        controller.updateTown(town.townID, town.townUpdatePassword, {
+          friendlyName: 'newName',
+          capacity: 0,
+        }),
+      ).rejects.toThrowError();
+      expectTownListMatches(await controller.listTowns(), town);
+    });
   });
 
   describe('joinTown', () => {
@@ -250,6 +511,236 @@ describe('TownsController integration tests', () => {
       expect(createdArea.topic).toEqual(conversationArea.topic);
       expect(initialData2.interactables.length).toEqual(initialData.interactables.length);
     });
+    describe('When the town is full', () => {
+      let townID: string;
+      let firstPlayer: MockedPlayer;
+      beforeEach(async () => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+        ({ townID } = await controller.createTown({
+          friendlyName: nanoid(),
+          isPubliclyListed: true,
+          capacity: 1,
+        }));
+        firstPlayer = mockPlayer(townID);
+        await controller.joinTown(firstPlayer.socket);
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Refuses another client, explaining why, and disconnects it', async () => {
+        const createAccount = jest.spyOn(FileUserAccountStore.getInstance(), 'createAccount');
+        const { socket } = mockPlayer(townID);
+        await controller.joinTown(socket);
+        expect(createAccount).not.toBeCalled();
+        createAccount.mockRestore();
+        expect(getLastEmittedEvent(socket, 'joinRejected')).toContain('full');
+        expect(socket.emit).not.toBeCalledWith('initialize', expect.anything());
+        expect(socket.disconnect).toBeCalledWith(true);
+        expect(TownsStore.getInstance().getTownByID(townID)?.occupancy).toBe(1);
+      });
+      it('Admits another client once a player leaves', async () => {
+        getEventListener(firstPlayer.socket, 'disconnect')('client namespace disconnect');
+        const { socket } = mockPlayer(townID);
+        await controller.joinTown(socket);
+        expect(getLastEmittedEvent(socket, 'initialize')).toBeDefined();
+      });
+      it('Still lets a player whose connection dropped resume their session', async () => {
+        const { accountToken } = getLastEmittedEvent(firstPlayer.socket, 'initialize');
+        getEventListener(firstPlayer.socket, 'disconnect')('transport close');
+        const resumed = mockPlayer(townID);
+        resumed.socket.handshake.auth = { ...resumed.socket.handshake.auth, accountToken };
+        await controller.joinTown(resumed.socket);
+        expect(getLastEmittedEvent(resumed.socket, 'initialize')).toBeDefined();
+      });
+    });
+    describe('Persistent identities', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['performance'] });
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      async function joinWithAccountToken(
+        townID: string,
+        accountToken?: string,
+        sessionToken?: string,
+      ) {
+        const player = mockPlayer(townID);
+        player.socket.handshake.auth = {
+          ...player.socket.handshake.auth,
+          accountToken,
+          sessionToken,
+        };
+        await controller.joinTown(player.socket);
+        return player;
+      }
+      it('Creates a new account for a client that does not present an account token', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player = await joinWithAccountToken(town.townID);
+        const initialData = getLastEmittedEvent(player.socket, 'initialize');
+        expect(initialData.accountToken).toBeDefined();
+        expect(initialData.friendIDs).toEqual([]);
+      });
+      it('Creates a new account for a client that presents an unknown account token', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const unknownToken = nanoid();
+        const player = await joinWithAccountToken(town.townID, unknownToken);
+        const initialData = getLastEmittedEvent(player.socket, 'initialize');
+        expect(initialData.accountToken).not.toEqual(unknownToken);
+      });
+      it('Keeps the same user ID and friends when a client rejoins with its account token', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player1 = await joinWithAccountToken(town.townID);
+        const player2 = await joinWithAccountToken(town.townID);
+        const initialData1 = getLastEmittedEvent(player1.socket, 'initialize');
+        const initialData2 = getLastEmittedEvent(player2.socket, 'initialize');
+        const sendFriendRequestHandler = getEventListener(player2.socket, 'sendFriendRequest');
+        sendFriendRequestHandler({ actor: initialData2.userID, affected: initialData1.userID });
+        const acceptFriendRequestHandler = getEventListener(player1.socket, 'acceptFriendRequest');
+        acceptFriendRequestHandler({ actor: initialData1.userID, affected: initialData2.userID });
+        getEventListener(player1.socket, 'disconnect')('unknown');
+
+        const rejoined = await joinWithAccountToken(town.townID, initialData1.accountToken);
+        const rejoinedData = getLastEmittedEvent(rejoined.socket, 'initialize');
+        expect(rejoinedData.userID).toEqual(initialData1.userID);
+        expect(rejoinedData.friendIDs).toEqual([initialData2.userID]);
+      });
+      it('Restores friendships with friends who are already in the town', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player1 = await joinWithAccountToken(town.townID);
+        const player2 = await joinWithAccountToken(town.townID);
+        const initialData1 = getLastEmittedEvent(player1.socket, 'initialize');
+        const initialData2 = getLastEmittedEvent(player2.socket, 'initialize');
+        const sendFriendRequestHandler = getEventListener(player2.socket, 'sendFriendRequest');
+        sendFriendRequestHandler({ actor: initialData2.userID, affected: initialData1.userID });
+        const acceptFriendRequestHandler = getEventListener(player1.socket, 'acceptFriendRequest');
+        acceptFriendRequestHandler({ actor: initialData1.userID, affected: initialData2.userID });
+        getEventListener(player1.socket, 'disconnect')('unknown');
+        await joinWithAccountToken(town.townID, initialData1.accountToken);
+
+        const townModel = TownsStore.getInstance().getTownByID(town.townID);
+        const rejoinedPlayer = townModel?.players.find(p => p.id === initialData1.userID);
+        const friend = townModel?.players.find(p => p.id === initialData2.userID);
+        expect(rejoinedPlayer?.friends).toEqual([friend]);
+        expect(friend?.friends).toEqual([rejoinedPlayer]);
+      });
+      it('Keeps the players that a client blocked when it rejoins', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player1 = await joinWithAccountToken(town.townID);
+        const player2 = await joinWithAccountToken(town.townID);
+        const initialData1 = getLastEmittedEvent(player1.socket, 'initialize');
+        const initialData2 = getLastEmittedEvent(player2.socket, 'initialize');
+        expect(initialData1.blockedIDs).toEqual([]);
+        const blockPlayerHandler = getEventListener(player1.socket, 'blockPlayer');
+        blockPlayerHandler({ actor: initialData1.userID, affected: initialData2.userID });
+        getEventListener(player1.socket, 'disconnect')('unknown');
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+
+        const rejoined = await joinWithAccountToken(town.townID, initialData1.accountToken);
+        const rejoinedData = getLastEmittedEvent(rejoined.socket, 'initialize');
+        expect(rejoinedData.blockedIDs).toEqual([initialData2.userID]);
+        const townModel = TownsStore.getInstance().getTownByID(town.townID);
+        const rejoinedPlayer = townModel?.players.find(p => p.id === initialData1.userID);
+        expect(rejoinedPlayer?.hasBlocked(initialData2.userID)).toBe(true);
+      });
+      it('Includes pending friend requests when a client rejoins, and reminds the other player of them', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player1 = await joinWithAccountToken(town.townID);
+        const player2 = await joinWithAccountToken(town.townID);
+        const initialData1 = getLastEmittedEvent(player1.socket, 'initialize');
+        const initialData2 = getLastEmittedEvent(player2.socket, 'initialize');
+        expect(initialData2.pendingFriendRequests).toEqual([]);
+        const sendFriendRequestHandler = getEventListener(player2.socket, 'sendFriendRequest');
+        sendFriendRequestHandler({ actor: initialData2.userID, affected: initialData1.userID });
+        getEventListener(player1.socket, 'disconnect')('unknown');
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+        clearEmittedEvents(player2.socket);
+
+        const rejoined = await joinWithAccountToken(town.townID, initialData1.accountToken);
+        const rejoinedData = getLastEmittedEvent(rejoined.socket, 'initialize');
+        expect(rejoinedData.pendingFriendRequests).toEqual([
+          {
+            sender: initialData2.userID,
+            recipient: initialData1.userID,
+            status: 'pending',
+            sentAt: expect.any(Number),
+          },
+        ]);
+        expect(getLastEmittedEvent(player2.socket, 'friendRequestSent')).toEqual({
+          actor: initialData2.userID,
+          affected: initialData1.userID,
+        });
+      });
+      it('Refuses a second client with the same account token, explaining why', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player = await joinWithAccountToken(town.townID);
+        const { accountToken } = getLastEmittedEvent(player.socket, 'initialize');
+        const duplicate = await joinWithAccountToken(town.townID, accountToken);
+        expect(getLastEmittedEvent(duplicate.socket, 'joinRejected')).toContain('another tab');
+        expect(duplicate.socket.emit).not.toBeCalledWith('initialize', expect.anything());
+        expect(duplicate.socket.disconnect).toBeCalledWith(true);
+        expect(player.socket.disconnect).not.toHaveBeenCalled();
+      });
+      it('Resumes the same session when a client reconnects within the grace period', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player1 = await joinWithAccountToken(town.townID);
+        const player2 = await joinWithAccountToken(town.townID);
+        const initialData1 = getLastEmittedEvent(player1.socket, 'initialize');
+        const initialData2 = getLastEmittedEvent(player2.socket, 'initialize');
+        getEventListener(player1.socket, 'disconnect')('transport close');
+        getEventListener(
+          player2.socket,
+          'sendFriendRequest',
+        )({
+          actor: initialData2.userID,
+          affected: initialData1.userID,
+        });
+
+        const resumed = await joinWithAccountToken(town.townID, initialData1.accountToken);
+        const resumedData = getLastEmittedEvent(resumed.socket, 'initialize');
+        expect(resumedData.userID).toEqual(initialData1.userID);
+        expect(resumedData.sessionToken).toEqual(initialData1.sessionToken);
+        expect(resumedData.conversationAreaInvites).toEqual([]);
+        expect(getLastEmittedEvent(resumed.socket, 'friendRequestSent')).toEqual({
+          actor: initialData2.userID,
+          affected: initialData1.userID,
+        });
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+        const townModel = TownsStore.getInstance().getTownByID(town.townID);
+        expect(townModel?.players.map(eachPlayer => eachPlayer.id)).toContain(initialData1.userID);
+        expect(getBroadcastEmitterForTownID(town.townID).emit).not.toBeCalledWith(
+          'playerDisconnect',
+          expect.anything(),
+        );
+      });
+      it('Sends the chat messages that were sent while the client was disconnected when it resumes', async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player1 = await joinWithAccountToken(town.townID);
+        const player2 = await joinWithAccountToken(town.townID);
+        const { accountToken } = getLastEmittedEvent(player1.socket, 'initialize');
+        getEventListener(player1.socket, 'disconnect')('transport close');
+        getEventListener(player2.socket, 'chatMessage')({ body: 'Are you still there?' });
+        const message = getLastEmittedEvent(
+          getBroadcastEmitterForTownID(town.townID),
+          'chatMessage',
+        );
+
+        const resumed = await joinWithAccountToken(town.townID, accountToken);
+        expect(getLastEmittedEvent(resumed.socket, 'initialize').chatHistory).toContainEqual(
+          message,
+        );
+      });
+      it("Lets a client that presents the player's session token take over a connected session", async () => {
+        const town = await createTownForTesting(undefined, true);
+        const player = await joinWithAccountToken(town.townID);
+        const { accountToken, sessionToken } = getLastEmittedEvent(player.socket, 'initialize');
+        const takeover = await joinWithAccountToken(town.townID, accountToken, sessionToken);
+        expect(getLastEmittedEvent(takeover.socket, 'initialize').sessionToken).toEqual(
+          sessionToken,
+        );
+        expect(player.socket.disconnect).toHaveBeenCalled();
+      });
+    });
   });
   describe('Interactables', () => {
     let testingTown: TestTownData;
@@ -357,4 +848,390 @@ describe('TownsController integration tests', () => {
       });
     });
   });
+
+  describe('Friends, friend requests and invites', () => {
+    let testingTown: TestTownData;
+    let sender: MockedPlayer;
+    let recipient: MockedPlayer;
+    let senderID: string;
+    let recipientID: string;
+    beforeEach(async () => {
+      testingTown = await createTownForTesting(undefined, true);
+      sender = mockPlayer(testingTown.townID);
+      recipient = mockPlayer(testingTown.townID);
+      await controller.joinTown(sender.socket);
+      await controller.joinTown(recipient.socket);
+      senderID = getLastEmittedEvent(sender.socket, 'initialize').userID;
+      recipientID = getLastEmittedEvent(recipient.socket, 'initialize').userID;
+    });
+    const sendRequest = () =>
+      controller.sendFriendRequest(testingTown.townID, recipientID, extractSessionToken(sender));
+
+    it('Lists no friends, requests or invites for a player who just joined', async () => {
+      const sessionToken = extractSessionToken(sender);
+      expect(await controller.listFriends(testingTown.townID, sessionToken)).toEqual([]);
+      expect(await controller.listFriendRequests(testingTown.townID, sessionToken)).toEqual({
+        incoming: [],
+        outgoing: [],
+      });
+      expect(
+        await controller.listConversationAreaInvites(testingTown.townID, sessionToken),
+      ).toEqual([]);
+    });
+    it('Sends a friend request, which both players can list and are told about', async () => {
+      await sendRequest();
+
+      const expectedRequest = {
+        sender: senderID,
+        recipient: recipientID,
+        status: 'pending',
+        sentAt: expect.any(Number),
+      };
+      expect(
+        await controller.listFriendRequests(testingTown.townID, extractSessionToken(sender)),
+      ).toEqual({ incoming: [], outgoing: [expectedRequest] });
+      expect(
+        await controller.listFriendRequests(testingTown.townID, extractSessionToken(recipient)),
+      ).toEqual({ incoming: [expectedRequest], outgoing: [] });
+      [sender, recipient].forEach(eachPlayer =>
+        expect(getLastEmittedEvent(eachPlayer.socket, 'friendRequestSent')).toEqual({
+          actor: senderID,
+          affected: recipientID,
+        }),
+      );
+    });
+    it('Accepts a friend request, making the players friends', async () => {
+      await sendRequest();
+      await controller.acceptFriendRequest(
+        testingTown.townID,
+        senderID,
+        extractSessionToken(recipient),
+      );
+
+      expect(await controller.listFriends(testingTown.townID, extractSessionToken(sender))).toEqual(
+        [recipientID],
+      );
+      expect(
+        await controller.listFriends(testingTown.townID, extractSessionToken(recipient)),
+      ).toEqual([senderID]);
+      expect(
+        (await controller.listFriendRequests(testingTown.townID, extractSessionToken(sender)))
+          .outgoing,
+      ).toEqual([]);
+      expect(getLastEmittedEvent(sender.socket, 'friendRequestAccepted')).toEqual({
+        actor: recipientID,
+        affected: senderID,
+      });
+    });
+    it('Declines a friend request', async () => {
+      await sendRequest();
+      await controller.declineFriendRequest(
+        testingTown.townID,
+        senderID,
+        extractSessionToken(recipient),
+      );
+
+      expect(
+        (await controller.listFriendRequests(testingTown.townID, extractSessionToken(recipient)))
+          .incoming,
+      ).toEqual([]);
+      expect(await controller.listFriends(testingTown.townID, extractSessionToken(sender))).toEqual(
+        [],
+      );
+      expect(getLastEmittedEvent(sender.socket, 'friendRequestDeclined')).toEqual({
+        actor: recipientID,
+        affected: senderID,
+      });
+    });
+    it('Cancels a friend request', async () => {
+      await sendRequest();
+      await controller.cancelFriendRequest(
+        testingTown.townID,
+        recipientID,
+        extractSessionToken(sender),
+      );
+
+      expect(
+        (await controller.listFriendRequests(testingTown.townID, extractSessionToken(recipient)))
+          .incoming,
+      ).toEqual([]);
+      expect(getLastEmittedEvent(recipient.socket, 'friendRequestCanceled')).toEqual({
+        actor: senderID,
+        affected: recipientID,
+      });
+    });
+    it('Rejects responses to a friend request that was never sent', async () => {
+      await expect(
+        controller.acceptFriendRequest(
+          testingTown.townID,
+          senderID,
+          extractSessionToken(recipient),
+        ),
+      ).rejects.toThrowError();
+      await expect(
+        controller.declineFriendRequest(
+          testingTown.townID,
+          senderID,
+          extractSessionToken(recipient),
+        ),
+      ).rejects.toThrowError();
+      await expect(
+        controller.cancelFriendRequest(
+          testingTown.townID,
+          recipientID,
+          extractSessionToken(sender),
+        ),
+      ).rejects.toThrowError();
+    });
+    it('Lists the conversation area invites that a player has received', async () => {
+      await sendRequest();
+      await controller.acceptFriendRequest(
+        testingTown.townID,
+        senderID,
+        extractSessionToken(recipient),
+      );
+      const requesterLocation = getLastEmittedEvent(
+        sender.socket,
+        'initialize',
+      ).currentPlayers.find(eachPlayer => eachPlayer.id === senderID)?.location;
+      assert(requesterLocation);
+      getEventListener(
+        sender.socket,
+        'inviteAllToConvArea',
+      )({
+        requester: senderID,
+        requested: [recipientID],
+        requesterLocation,
+      });
+
+      expect(
+        await controller.listConversationAreaInvites(
+          testingTown.townID,
+          extractSessionToken(recipient),
+        ),
+      ).toEqual([{ requester: senderID, requested: recipientID, requesterLocation }]);
+    });
+    it('Checks for a valid session token and town ID', async () => {
+      const invalidSessionToken = nanoid();
+      await Promise.all([
+        expect(controller.listFriends(testingTown.townID, invalidSessionToken)).rejects.toThrow(),
+        expect(
+          controller.listFriendRequests(nanoid(), extractSessionToken(sender)),
+        ).rejects.toThrow(),
+        expect(
+          controller.listConversationAreaInvites(testingTown.townID, invalidSessionToken),
+        ).rejects.toThrow(),
+        expect(
+          controller.sendFriendRequest(testingTown.townID, recipientID, invalidSessionToken),
+        ).rejects.toThrow(),
+        expect(
+          controller.acceptFriendRequest(testingTown.townID, senderID, invalidSessionToken),
+        ).rejects.toThrow(),
+        expect(
+          controller.declineFriendRequest(testingTown.townID, senderID, invalidSessionToken),
+        ).rejects.toThrow(),
+        expect(
+          controller.cancelFriendRequest(testingTown.townID, recipientID, invalidSessionToken),
+        ).rejects.toThrow(),
+      ]);
+    });
+  });
+
+  describe('Moderation', () => {
+    let testingTown: TestTownData;
+    let player: MockedPlayer;
+    let playerID: string;
+    beforeEach(async () => {
+      testingTown = await createTownForTesting(undefined, true);
+      player = mockPlayer(testingTown.townID);
+      await controller.joinTown(player.socket);
+      playerID = getLastEmittedEvent(player.socket, 'initialize').userID;
+    });
+
+    it('Kicks a player, who may join again', async () => {
+      await controller.kickPlayer(testingTown.townID, playerID, testingTown.townUpdatePassword, {
+        reason: 'Spamming',
+      });
+      expect(getLastEmittedEvent(player.socket, 'playerKicked')).toEqual({ reason: 'Spamming' });
+      expect(player.socket.disconnect).toBeCalledWith(true);
+      expect(
+        (await controller.listTowns()).find(eachTown => eachTown.townID === testingTown.townID)
+          ?.currentOccupancy,
+      ).toBe(0);
+
+      const rejoined = mockPlayer(testingTown.townID);
+      await controller.joinTown(rejoined.socket);
+      expect(getLastEmittedEvent(rejoined.socket, 'initialize')).toBeDefined();
+    });
+    it('Mutes a player', async () => {
+      await controller.mutePlayer(testingTown.townID, playerID, testingTown.townUpdatePassword, {
+        durationSeconds: 60,
+      });
+      expect(getLastEmittedEvent(player.socket, 'playerMuted').mutedUntil).toBeGreaterThan(
+        Date.now(),
+      );
+    });
+    it('Bans a player, who is removed and can not join again', async () => {
+      const { accountToken } = getLastEmittedEvent(player.socket, 'initialize');
+      await controller.banPlayer(testingTown.townID, testingTown.townUpdatePassword, {
+        userID: playerID,
+        reason: 'Harassment',
+      });
+      expect(getLastEmittedEvent(player.socket, 'playerBanned')).toEqual({
+        reason: 'Harassment',
+      });
+      expect(player.socket.disconnect).toBeCalledWith(true);
+
+      const updateUserName = jest.spyOn(FileUserAccountStore.getInstance(), 'updateUserName');
+      const rejoined = mockPlayer(testingTown.townID);
+      rejoined.socket.handshake.auth = { ...rejoined.socket.handshake.auth, accountToken };
+      await controller.joinTown(rejoined.socket);
+      expect(updateUserName).not.toBeCalled();
+      updateUserName.mockRestore();
+      expect(getLastEmittedEvent(rejoined.socket, 'joinRejected')).toContain('banned');
+      expect(rejoined.socket.disconnect).toBeCalledWith(true);
+      expect(rejoined.socket.emit).not.toBeCalledWith('initialize', expect.anything());
+    });
+    it('Bans a user name from joining', async () => {
+      const userName = nanoid();
+      await controller.banPlayer(testingTown.townID, testingTown.townUpdatePassword, { userName });
+
+      const createAccount = jest.spyOn(FileUserAccountStore.getInstance(), 'createAccount');
+      const bannedPlayer = mockPlayer(testingTown.townID);
+      bannedPlayer.socket.handshake.auth = {
+        ...bannedPlayer.socket.handshake.auth,
+        userName: userName.toUpperCase(),
+      };
+      await controller.joinTown(bannedPlayer.socket);
+      expect(getLastEmittedEvent(bannedPlayer.socket, 'joinRejected')).toContain('banned');
+      expect(createAccount).not.toBeCalled();
+      createAccount.mockRestore();
+    });
+    it('Checks the town update password and town ID', async () => {
+      await Promise.all([
+        expect(
+          controller.kickPlayer(testingTown.townID, playerID, nanoid(), {}),
+        ).rejects.toThrowError(),
+        expect(
+          controller.mutePlayer(nanoid(), playerID, testingTown.townUpdatePassword, {
+            durationSeconds: 60,
+          }),
+        ).rejects.toThrowError(),
+        expect(
+          controller.banPlayer(testingTown.townID, nanoid(), { userID: playerID }),
+        ).rejects.toThrowError(),
+      ]);
+      expect(player.socket.emit).not.toBeCalledWith('playerKicked', expect.anything());
+      expect(player.socket.emit).not.toBeCalledWith('playerMuted', expect.anything());
+      expect(player.socket.emit).not.toBeCalledWith('playerBanned', expect.anything());
+    });
+  });
+  describe('Chat history', () => {
+    let testingTown: TestTownData;
+    let player: MockedPlayer;
+    let messages: ChatMessage[];
+    beforeEach(async () => {
+      testingTown = await createTownForTesting(undefined, true);
+      player = mockPlayer(testingTown.townID);
+      await controller.joinTown(player.socket);
+      const chatHandler = getEventListener(player.socket, 'chatMessage');
+      const townEmitter = getBroadcastEmitterForTownID(testingTown.townID);
+      // Space the messages out so that they stay within the chat rate limit
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      messages = Array.from({ length: CHAT_HISTORY_PAGE_SIZE + 10 }, () => {
+        jest.advanceTimersByTime(1000);
+        chatHandler({ body: nanoid() });
+        return getLastEmittedEvent(townEmitter, 'chatMessage');
+      });
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('Sends the most recent page of chat messages to players who join', async () => {
+      const lateJoiner = mockPlayer(testingTown.townID);
+      await controller.joinTown(lateJoiner.socket);
+      expect(getLastEmittedEvent(lateJoiner.socket, 'initialize').chatHistory).toEqual(
+        messages.slice(10),
+      );
+    });
+    it('Lists older chat messages one page at a time', async () => {
+      const sessionToken = extractSessionToken(player);
+      expect(await controller.listChatMessages(testingTown.townID, sessionToken)).toEqual(
+        messages.slice(10),
+      );
+      expect(
+        await controller.listChatMessages(testingTown.townID, sessionToken, messages[10].sid, 5),
+      ).toEqual(messages.slice(5, 10));
+      expect(
+        await controller.listChatMessages(testingTown.townID, sessionToken, messages[5].sid),
+      ).toEqual(messages.slice(0, 5));
+    });
+    it('Checks the session token and limit', async () => {
+      await Promise.all([
+        expect(controller.listChatMessages(testingTown.townID, nanoid())).rejects.toThrowError(),
+        expect(
+          controller.listChatMessages(
+            testingTown.townID,
+            extractSessionToken(player),
+            undefined,
+            0,
+          ),
+        ).rejects.toThrowError(),
+      ]);
+    });
+  });
+  describe('Announcements', () => {
+    let testingTown: TestTownData;
+    beforeEach(async () => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      testingTown = await createTownForTesting(undefined, true);
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('Broadcasts an announcement, and sends it to players who join while it is active', async () => {
+      const announcement = await controller.createAnnouncement(
+        testingTown.townID,
+        testingTown.townUpdatePassword,
+        { message: 'Keynote in the main hall', expiresAt: Date.now() + 60 * 1000 },
+      );
+      expect(announcement.message).toEqual('Keynote in the main hall');
+      expect(
+        getLastEmittedEvent(getBroadcastEmitterForTownID(testingTown.townID), 'announcement'),
+      ).toEqual(announcement);
+
+      const player = mockPlayer(testingTown.townID);
+      await controller.joinTown(player.socket);
+      expect(getLastEmittedEvent(player.socket, 'initialize').announcements).toEqual([
+        announcement,
+      ]);
+    });
+    it('Does not send announcements that have not started to players who join', async () => {
+      await controller.createAnnouncement(testingTown.townID, testingTown.townUpdatePassword, {
+        message: 'Later',
+        startsAt: Date.now() + 60 * 1000,
+      });
+      const player = mockPlayer(testingTown.townID);
+      await controller.joinTown(player.socket);
+      expect(getLastEmittedEvent(player.socket, 'initialize').announcements).toEqual([]);
+    });
+    it('Checks the town update password and town ID', async () => {
+      await Promise.all([
+        expect(
+          controller.createAnnouncement(testingTown.townID, nanoid(), { message: 'Hi' }),
+        ).rejects.toThrowError(),
+        expect(
+          controller.createAnnouncement(nanoid(), testingTown.townUpdatePassword, {
+            message: 'Hi',
+          }),
+        ).rejects.toThrowError(),
+      ]);
+      expect(getBroadcastEmitterForTownID(testingTown.townID).emit).not.toBeCalledWith(
+        'announcement',
+        expect.anything(),
+      );
+    });
+  });
 });
@@ -1,4 +1,8 @@
+import { ITiledMap } from '@jonbell/tiled-map-type-guard';
 import assert from 'assert';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
 import {
   Body,
   Controller,
@@ -9,20 +13,44 @@ import {
   Patch,
   Path,
   Post,
+  Query,
   Response,
   Route,
   Tags,
 } from 'tsoa';
 
-import { Town, TownCreateParams, TownCreateResponse } from '../api/Model';
+import {
+  AnnouncementRequest,
+  BanRequest,
+  ModerationRequest,
+  MuteRequest,
+  PendingFriendRequests,
+  Town,
+  TownCreateParams,
+  TownCreateResponse,
+  TownMap,
+  TownMapUploadParams,
+} from '../api/Model';
+import { CHAT_HISTORY_PAGE_SIZE } from '../lib/ChatHistory';
+import FileUserAccountStore from '../lib/FileUserAccountStore';
+import InvalidMapError from '../lib/InvalidMapError';
 import InvalidParametersError from '../lib/InvalidParametersError';
+import ITownsStore from '../lib/ITownsStore';
+import IUserAccountStore, { UserAccount } from '../lib/IUserAccountStore';
+import MapCatalog from '../lib/MapCatalog';
+import Player from '../lib/Player';
 import CoveyTownsStore from '../lib/TownsStore';
 import {
+  Announcement,
+  ChatMessage,
   ConversationArea,
   CoveyTownSocket,
+  TeleportInviteSingular,
+  TownJoinResponse,
   TownSettingsUpdate,
   ViewingArea,
 } from '../types/CoveyTownSocket';
+import CoveyTown from './Town';
 
 /**
  * This is the town route
@@ -32,7 +60,11 @@ import {
 // TSOA (which we use to generate the REST API from this file) does not support default exports, so the controller can't be a default export.
 // eslint-disable-next-line import/prefer-default-export
 export class TownsController extends Controller {
-  private _townsStore: CoveyTownsStore = CoveyTownsStore.getInstance();
+  private _townsStore: ITownsStore = CoveyTownsStore.getInstance();
+
+  private _accountStore: IUserAccountStore = FileUserAccountStore.getInstance();
+
+  private _mapCatalog: MapCatalog = MapCatalog.getInstance();
 
   /**
    * List all towns that are set to be publicly available
@@ -44,6 +76,103 @@ export class TownsController extends Controller {
     return this._townsStore.getTowns();
   }
 
+  /**
+   * List all maps that towns can be created from
+   *
+   * @returns list of maps
+   */
+  @Get('maps')
+  public async listMaps(): Promise<TownMap[]> {
+    return this._mapCatalog.listMaps();
+  }
+
+  /**
+   * Add a map to the catalog of maps that towns can be created from. The map is checked in the same way as
+   * when a town is created from it, and every problem that is found is reported.
+   *
+   * Uploads are only accepted if the townService is configured with a directory to save them to
+   * (UPLOADED_MAPS_DIRECTORY) and a password that uploaders must provide (MAP_UPLOAD_PASSWORD).
+   *
+   * @param uploadPassword map upload password, must match MAP_UPLOAD_PASSWORD
+   * @param request The new map, in Tiled's JSON format, along with the image of each of its tilesets
+   * @returns The newly added map
+   * @throws InvalidParametersError if the password is wrong, or the townService does not accept uploaded maps
+   * @throws InvalidMapError if towns could not be created from the map
+   */
+  @Post('maps')
+  @Response<InvalidParametersError>(400, 'Invalid password, or map uploads are not enabled')
+  @Response<InvalidMapError>(400, 'Invalid map')
+  public async uploadMap(
+    @Header('X-CoveyTown-Password') uploadPassword: string,
+    @Body() request: TownMapUploadParams,
+  ): Promise<TownMap> {
+    if (
+      !this._mapCatalog.acceptsUploads ||
+      !process.env.MAP_UPLOAD_PASSWORD ||
+      uploadPassword !== process.env.MAP_UPLOAD_PASSWORD
+    ) {
+      throw new InvalidParametersError('Invalid password, or map uploads are not enabled');
+    }
+    const problems: string[] = [];
+    if (request.name.length === 0) {
+      problems.push('Name must be specified');
+    }
+    const parsedMap = ITiledMap.safeParse(request.map);
+    if (!parsedMap.success) {
+      parsedMap.error.issues.forEach(issue =>
+        problems.push(`map.${issue.path.join('.')}: ${issue.message}`),
+      );
+      throw new InvalidMapError(problems);
+    }
+    problems.push(...CoveyTown.findMapProblems(parsedMap.data));
+    problems.push(...MapCatalog.findTilesetProblems(parsedMap.data, request.tilesets));
+    if (problems.length > 0) {
+      throw new InvalidMapError(problems);
+    }
+    return this._mapCatalog.addMap(
+      request.name,
+      request.description,
+      parsedMap.data,
+      request.tilesets,
+    );
+  }
+
+  /**
+   * Retrieve a map from the catalog, in Tiled's JSON format. The images of the map's tilesets are
+   * available from the tilesets route.
+   *
+   * @param mapID ID of the map to retrieve
+   */
+  @Get('maps/{mapID}')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async getMap(@Path() mapID: string): Promise<unknown> {
+    const mapFile = this._mapCatalog.getMapFile(mapID);
+    if (!mapFile) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return JSON.parse(await fs.readFile(mapFile, 'utf-8'));
+  }
+
+  /**
+   * Retrieve the image of one of the tilesets of a map in the catalog
+   *
+   * @param mapID ID of the map
+   * @param tilesetIndex position of the tileset in the map's list of tilesets
+   */
+  @Get('maps/{mapID}/tilesets/{tilesetIndex}')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async getTilesetImage(
+    @Path() mapID: string,
+    @Path() tilesetIndex: number,
+  ): Promise<Readable> {
+    const imageFile = await this._mapCatalog.getTilesetFile(mapID, tilesetIndex);
+    if (!imageFile) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    this.setHeader('Content-Type', MapCatalog.tilesetImageType(imageFile));
+    return createReadStream(imageFile);
+  }
+
   /**
    * Create a new town
    *
@@ -57,7 +186,8 @@ export class TownsController extends Controller {
     const { townID, townUpdatePassword } = await this._townsStore.createTown(
       request.friendlyName,
       request.isPubliclyListed,
-      request.mapFile,
+      request.mapID,
+      request.capacity,
     );
     return {
       townID,
@@ -84,6 +214,7 @@ export class TownsController extends Controller {
       townUpdatePassword,
       requestBody.friendlyName,
       requestBody.isPubliclyListed,
+      requestBody.capacity,
     );
     if (!success) {
       throw new InvalidParametersError('Invalid password or update values specified');
@@ -107,6 +238,94 @@ export class TownsController extends Controller {
     }
   }
 
+  /**
+   * Removes a player from a town. The player is sent a playerKicked event, and may join the town again.
+   *
+   * @param townID ID of the town that the player is in
+   * @param playerID ID of the player to remove
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody An explanation for the player, if any
+   */
+  @Post('{townID}/players/{playerID}/kick')
+  @Response<InvalidParametersError>(400, 'Invalid password or update values specified')
+  public async kickPlayer(
+    @Path() townID: string,
+    @Path() playerID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: ModerationRequest,
+  ): Promise<void> {
+    this._getTownForOwner(townID, townUpdatePassword).kickPlayer(playerID, requestBody.reason);
+  }
+
+  /**
+   * Refuses a player's chat and mini messages for a while. The player is sent a playerMuted event.
+   *
+   * @param townID ID of the town that the player is in
+   * @param playerID ID of the player to mute
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody How long to mute the player for, and an explanation for the player, if any
+   */
+  @Post('{townID}/players/{playerID}/mute')
+  @Response<InvalidParametersError>(400, 'Invalid password or update values specified')
+  public async mutePlayer(
+    @Path() townID: string,
+    @Path() playerID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: MuteRequest,
+  ): Promise<void> {
+    this._getTownForOwner(townID, townUpdatePassword).mutePlayer(
+      playerID,
+      requestBody.durationSeconds,
+      requestBody.reason,
+    );
+  }
+
+  /**
+   * Bans a user name or an account from joining a town. Any player in the town who is banned is sent a
+   * playerBanned event, and removed from the town.
+   *
+   * @param townID ID of the town to ban the player from
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody Who to ban, and an explanation for them, if any
+   */
+  @Post('{townID}/bans')
+  @Response<InvalidParametersError>(400, 'Invalid password or update values specified')
+  public async banPlayer(
+    @Path() townID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: BanRequest,
+  ): Promise<void> {
+    this._getTownForOwner(townID, townUpdatePassword).banPlayer(
+      requestBody.userName,
+      requestBody.userID,
+      requestBody.reason,
+    );
+  }
+
+  /**
+   * Makes an announcement to everyone in a town, either right away or at a scheduled time. Players are
+   * sent an announcement event when it starts, and players who join while it is active receive it
+   * when they join.
+   *
+   * @param townID ID of the town to make the announcement in
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The announcement, and when it starts and expires
+   * @returns the new announcement
+   */
+  @Post('{townID}/announcements')
+  @Response<InvalidParametersError>(400, 'Invalid password or update values specified')
+  public async createAnnouncement(
+    @Path() townID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: AnnouncementRequest,
+  ): Promise<Announcement> {
+    return this._getTownForOwner(townID, townUpdatePassword).announce(
+      requestBody.message,
+      requestBody.startsAt,
+      requestBody.expiresAt,
+    );
+  }
+
   /**
    * Creates a conversation area in a given town
    * @param townID ID of the town in which to create the new conversation area
@@ -161,16 +380,216 @@ export class TownsController extends Controller {
     }
   }
 
+  /**
+   * Lists one page of the recent chat messages in a town that the requesting player may see: messages
+   * to the whole town, and direct messages to or from the player. Players receive the most recent page
+   * when they join the town; to page back through older messages, pass the sid of the oldest message
+   * received so far as the before parameter.
+   *
+   * @param townID ID of the town that the player is in
+   * @param sessionToken session token of the player making the request, must match the session token
+   *        returned when the player joined the town
+   * @param before the sid of a message: only messages sent before it are returned
+   * @param limit the maximum number of messages to return, at most 50
+   * @returns the latest matching messages, oldest first
+   *
+   * @throws InvalidParametersError if the session token is not valid, or the limit is not positive
+   */
+  @Get('{townID}/chatMessages')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async listChatMessages(
+    @Path() townID: string,
+    @Header('X-Session-Token') sessionToken: string,
+    @Query() before?: string,
+    @Query() limit?: number,
+  ): Promise<ChatMessage[]> {
+    const { town, player } = this._getSessionPlayer(townID, sessionToken);
+    if (limit !== undefined && !(limit > 0)) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return town.getChatMessages(
+      player.id,
+      before,
+      Math.min(limit ?? CHAT_HISTORY_PAGE_SIZE, CHAT_HISTORY_PAGE_SIZE),
+    );
+  }
+
+  /**
+   * Lists the user IDs of the requesting player's friends, including friends who are not in the town
+   *
+   * @param townID ID of the town that the player is in
+   * @param sessionToken session token of the player making the request, must match the session token
+   *        returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid
+   */
+  @Get('{townID}/friends')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async listFriends(
+    @Path() townID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<string[]> {
+    const { player } = this._getSessionPlayer(townID, sessionToken);
+    return [...(this._accountStore.getAccountByID(player.id)?.friendIDs ?? [])];
+  }
+
+  /**
+   * Lists the friend requests that the requesting player has sent or received, and that are still
+   * waiting for a response
+   *
+   * @param townID ID of the town that the player is in
+   * @param sessionToken session token of the player making the request, must match the session token
+   *        returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid
+   */
+  @Get('{townID}/friendRequests')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async listFriendRequests(
+    @Path() townID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<PendingFriendRequests> {
+    const { town, player } = this._getSessionPlayer(townID, sessionToken);
+    const pendingRequests = town.pendingFriendRequestsFor(player.id);
+    return {
+      incoming: pendingRequests.filter(eachRequest => eachRequest.recipient === player.id),
+      outgoing: pendingRequests.filter(eachRequest => eachRequest.sender === player.id),
+    };
+  }
+
+  /**
+   * Lists the invites to conversation areas that the requesting player has received, and not yet
+   * accepted or declined
+   *
+   * @param townID ID of the town that the player is in
+   * @param sessionToken session token of the player making the request, must match the session token
+   *        returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid
+   */
+  @Get('{townID}/conversationAreaInvites')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async listConversationAreaInvites(
+    @Path() townID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<TeleportInviteSingular[]> {
+    const { player } = this._getSessionPlayer(townID, sessionToken);
+    return [...player.conversationAreaInvites];
+  }
+
+  /**
+   * Sends a friend request from the requesting player to another player in the town. Both players are
+   * sent a friendRequestSent event, as if the request had been sent over the socket.
+   *
+   * @param townID ID of the town that both players are in
+   * @param recipientID ID of the player to send the request to
+   * @param sessionToken session token of the player sending the request, must match the session token
+   *        returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid, or if the request could not be sent
+   */
+  @Post('{townID}/friendRequests/{recipientID}')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async sendFriendRequest(
+    @Path() townID: string,
+    @Path() recipientID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<void> {
+    const { town, player } = this._getSessionPlayer(townID, sessionToken);
+    town.sendFriendRequest({ actor: player.id, affected: recipientID });
+  }
+
+  /**
+   * Cancels a friend request that the requesting player sent, and that is still pending
+   *
+   * @param townID ID of the town that both players are in
+   * @param recipientID ID of the player that the request was sent to
+   * @param sessionToken session token of the player who sent the request, must match the session token
+   *        returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid, or if there is no such request
+   */
+  @Delete('{townID}/friendRequests/{recipientID}')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async cancelFriendRequest(
+    @Path() townID: string,
+    @Path() recipientID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<void> {
+    const { town, player } = this._getSessionPlayer(townID, sessionToken);
+    town.cancelFriendRequest({ actor: player.id, affected: recipientID });
+  }
+
+  /**
+   * Accepts a pending friend request that was sent to the requesting player
+   *
+   * @param townID ID of the town that both players are in
+   * @param senderID ID of the player who sent the request
+   * @param sessionToken session token of the player who received the request, must match the session
+   *        token returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid, or if there is no such request
+   */
+  @Post('{townID}/friendRequests/{senderID}/accept')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async acceptFriendRequest(
+    @Path() townID: string,
+    @Path() senderID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<void> {
+    const { town, player } = this._getSessionPlayer(townID, sessionToken);
+    town.acceptFriendRequest({ actor: player.id, affected: senderID });
+  }
+
+  /**
+   * Declines a pending friend request that was sent to the requesting player
+   *
+   * @param townID ID of the town that both players are in
+   * @param senderID ID of the player who sent the request
+   * @param sessionToken session token of the player who received the request, must match the session
+   *        token returned when the player joined the town
+   *
+   * @throws InvalidParametersError if the session token is not valid, or if there is no such request
+   */
+  @Post('{townID}/friendRequests/{senderID}/decline')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async declineFriendRequest(
+    @Path() townID: string,
+    @Path() senderID: string,
+    @Header('X-Session-Token') sessionToken: string,
+  ): Promise<void> {
+    const { town, player } = this._getSessionPlayer(townID, sessionToken);
+    town.declineFriendRequest({ actor: player.id, affected: senderID });
+  }
+
   /**
    * Connects a client's socket to the requested town, or disconnects the socket if no such town exists
    *
+   * The client is identified by the account token in its handshake: a client that presents the token of
+   * an existing account joins with that account's user ID (and friends), while a client with no token (or
+   * an unknown one) is given a new account.
+   *
+   * A client whose account is already in the town resumes that player's session (@see Town.resumePlayer)
+   * if the player's connection dropped, or if the client also presents the player's session token; any
+   * other client whose account is already in the town is disconnected.
+   *
+   * A client whose user name or account is banned from the town, or that would take the town over its
+   * capacity, is sent a joinRejected event explaining why, and then disconnected.
+   *
    * @param socket A new socket connection, with the userName and townID parameters of the socket's
-   * auth object configured with the desired townID to join and username to use
+   * auth object configured with the desired townID to join and username to use, and optionally the
+   * accountToken that was returned when this client last joined a town and the sessionToken of the
+   * session that it is trying to resume
    *
    */
   public async joinTown(socket: CoveyTownSocket) {
     // Parse the client's requested username from the connection
-    const { userName, townID } = socket.handshake.auth as { userName: string; townID: string };
+    const { userName, townID, accountToken, sessionToken } = socket.handshake.auth as {
+      userName: string;
+      townID: string;
+      accountToken?: string;
+      sessionToken?: string;
+    };
 
     const town = this._townsStore.getTownByID(townID);
     if (!town) {
@@ -178,19 +597,128 @@ export class TownsController extends Controller {
       return;
     }
 
+    // Only save the client's account once it is allowed to join, so that rejected clients leave no trace
+    const existingAccount = accountToken
+      ? this._accountStore.getAccountByToken(accountToken)
+      : undefined;
+    if (town.isBanned(userName, existingAccount?.userID)) {
+      socket.emit('joinRejected', `You have been banned from ${town.friendlyName}`);
+      socket.disconnect(true);
+      return;
+    }
+    const existingPlayer =
+      existingAccount && town.players.find(eachPlayer => eachPlayer.id === existingAccount.userID);
+    if (existingPlayer) {
+      if (!town.isReconnecting(existingPlayer) && existingPlayer.sessionToken !== sessionToken) {
+        socket.emit(
+          'joinRejected',
+          `You are already in ${town.friendlyName}, in another tab or window`,
+        );
+        socket.disconnect(true);
+        return;
+      }
+      const account = this._saveAccount(userName, existingAccount);
+      socket.join(town.townID);
+      // Send the current state of the town before replaying the events that the player missed
+      socket.emit('initialize', TownsController._joinResponse(town, existingPlayer, account));
+      town.resumePlayer(existingPlayer, socket);
+      return;
+    }
+
+    if (town.isFull) {
+      socket.emit(
+        'joinRejected',
+        `${town.friendlyName} is full: it allows at most ${town.capacity} players at once`,
+      );
+      socket.disconnect(true);
+      return;
+    }
+
+    const account = this._saveAccount(userName, existingAccount);
+
     // Connect the client to the socket.io broadcast room for this town
     socket.join(town.townID);
 
-    const newPlayer = await town.addPlayer(userName, socket);
-    assert(newPlayer.videoToken);
-    socket.emit('initialize', {
-      userID: newPlayer.id,
-      sessionToken: newPlayer.sessionToken,
-      providerVideoToken: newPlayer.videoToken,
+    const newPlayer = await town.addPlayer(userName, socket, account.userID);
+    socket.emit('initialize', TownsController._joinResponse(town, newPlayer, account));
+  }
+
+  /**
+   * Build the initial data that a client receives when it joins (or rejoins) a town
+   *
+   * @param town the town that the client joined
+   * @param player the player that the client is connected as
+   * @param account the player's account
+   */
+  private static _joinResponse(
+    town: CoveyTown,
+    player: Player,
+    account: UserAccount,
+  ): TownJoinResponse {
+    assert(player.videoToken);
+    return {
+      userID: player.id,
+      sessionToken: player.sessionToken,
+      accountToken: account.accountToken,
+      providerVideoToken: player.videoToken,
       currentPlayers: town.players.map(eachPlayer => eachPlayer.toPlayerModel()),
       friendlyName: town.friendlyName,
       isPubliclyListed: town.isPubliclyListed,
+      mapID: town.mapID,
       interactables: town.interactables.map(eachInteractable => eachInteractable.toModel()),
-    });
+      friendIDs: [...account.friendIDs],
+      blockedIDs: [...account.blockedIDs],
+      pendingFriendRequests: town.pendingFriendRequestsFor(player.id),
+      conversationAreaInvites: [...player.conversationAreaInvites],
+      announcements: town.announcements,
+      chatHistory: town.getChatMessages(player.id),
+      miniMessageInbox: town.getMiniMessageInbox(player.id),
+    };
+  }
+
+  /**
+   * Save the account of a client that is allowed to join a town: updates the user name of the account
+   * that the client's account token belongs to, or creates a new account if the client did not
+   * present a token or presented an unknown one
+   *
+   * @param userName the user name that the client is joining with
+   * @param existingAccount the account that the client's account token belongs to, if any
+   */
+  private _saveAccount(userName: string, existingAccount?: UserAccount): UserAccount {
+    if (existingAccount) {
+      this._accountStore.updateUserName(existingAccount.userID, userName);
+      return existingAccount;
+    }
+    return this._accountStore.createAccount(userName);
+  }
+
+  /**
+   * Finds the town that its owner made a REST request about
+   *
+   * @throws InvalidParametersError if there is no such town, or the password is wrong
+   */
+  private _getTownForOwner(townID: string, townUpdatePassword: string): CoveyTown {
+    const town = this._townsStore.getTownForOwner(townID, townUpdatePassword);
+    if (!town) {
+      throw new InvalidParametersError('Invalid password or update values specified');
+    }
+    return town;
+  }
+
+  /**
+   * Finds the town and the player that a REST request is made on behalf of
+   *
+   * @throws InvalidParametersError if there is no such town, or no player in it with the session token
+   */
+  private _getSessionPlayer(
+    townID: string,
+    sessionToken: string,
+  ): { town: CoveyTown; player: Player } {
+    const town = this._townsStore.getTownByID(townID);
+    const player = town?.getPlayerBySessionToken(sessionToken);
+    if (!town || !player) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return { town, player };
   }
 }